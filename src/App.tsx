@@ -1,10 +1,11 @@
 
 import React, { useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate, useNavigate, useParams } from 'react-router-dom';
-import { DataProvider } from './context/DataContext';
+import { DataProvider, useData } from './context/DataContext';
 import { AppProvider, useApp } from './context/AppContext';
 
 import { I18nProvider } from './context/I18nContext';
+import { ToastProvider } from './context/ToastContext';
 
 import Header from './components/Header';
 import LoginView from './views/LoginView';
@@ -13,39 +14,53 @@ import UserView from './views/UserView';
 import AdminView from './views/AdminView';
 import ConstructorView from './views/ConstructorView';
 import BookingCancellationView from './views/BookingCancellationView';
-import { AnalyticsAuthProvider } from './context/AnalyticsAuthContext';
+import BookingManageView from './views/BookingManageView';
+import MyBookingsView from './views/MyBookingsView';
+import { AnalyticsAuthProvider, useAnalyticsAuth } from './context/AnalyticsAuthContext';
 import AnalyticsLoginView from './views/AnalyticsLoginView';
 import AnalyticsDashboardView from './views/AnalyticsDashboardView';
+import ForbiddenView from './views/ForbiddenView';
+import RequirePermission from './components/RequirePermission';
+import { canAccessRestaurant, hasPermission, isStaff } from './utils/permissions';
 
 const RestaurantWrapper: React.FC = () => {
     const { id } = useParams<{ id: string }>();
-    const { currentUser, selectRestaurant } = useApp();
+    const { currentUser, isRestoringSession, selectRestaurant } = useApp();
+    const { trackRestaurants } = useData();
+    const allowed = !!id && canAccessRestaurant(currentUser, id);
 
     useEffect(() => {
-        if (id) {
+        if (id && !isRestoringSession && allowed) {
             selectRestaurant(id);
         }
-    }, [id, selectRestaurant]);
+    }, [id, isRestoringSession, allowed, selectRestaurant]);
 
+    useEffect(() => {
+        if (!id || isRestoringSession || !allowed) return;
+        return trackRestaurants([id]);
+    }, [id, isRestoringSession, allowed, trackRestaurants]);
+
+    // Don't flash the guest view at staff while their session is being validated
+    if (isRestoringSession) return null;
+    if (!allowed) return <ForbiddenView />;
+
+    // Most capable workspace first: the constructor for whoever may edit the floor plan,
+    // the admin console for whoever may handle bookings, the guest view for everyone else
     let ViewComponent;
-    switch (currentUser?.role) {
-        case 'ADMIN':
-            ViewComponent = AdminView;
-            break;
-        case 'OWNER':
-            ViewComponent = ConstructorView;
-            break;
-        case 'GUEST':
-        default:
-            ViewComponent = UserView;
-            break;
+    if (hasPermission(currentUser?.role, 'layout.edit')) {
+        ViewComponent = ConstructorView;
+    } else if (hasPermission(currentUser?.role, 'bookings.confirm')) {
+        ViewComponent = AdminView;
+    } else {
+        ViewComponent = UserView;
     }
 
     return (
         <div className="min-h-screen bg-brand-secondary">
             <Header />
             <main className="p-4 md:p-8">
-                <ViewComponent />
+                {/* Keyed so switching venue in place starts the view with fresh local state */}
+                <ViewComponent key={id} />
             </main>
         </div>
     );
@@ -71,6 +86,7 @@ const LegacyHashRedirect: React.FC = () => {
 
 const AppContent: React.FC = () => {
     const { currentUser } = useApp();
+    const { analyticsUser, isRestoring } = useAnalyticsAuth();
     return (
         <>
         <LegacyHashRedirect />
@@ -78,10 +94,16 @@ const AppContent: React.FC = () => {
             <Route path="/landing" element={<LandingView />} />
             <Route path="/referal-landing" element={<ReferalLandingView />} />
             <Route path="/login" element={<Navigate to="/" replace />} />
-            <Route path="/login-rest" element={currentUser && currentUser.role !== 'GUEST' ? <Navigate to="/" replace /> : <LoginView />} />
+            <Route path="/login-rest" element={isStaff(currentUser) ? <Navigate to="/" replace /> : <LoginView />} />
             <Route path="/cancel-booking/:token" element={<BookingCancellationView />} />
+            <Route path="/my-booking/:token" element={<BookingManageView />} />
+            <Route path="/my-bookings" element={<MyBookingsView />} />
             <Route path="/analytics" element={<AnalyticsLoginView />} />
-            <Route path="/analytics/dashboard" element={<AnalyticsDashboardView />} />
+            <Route path="/analytics/dashboard" element={
+                <RequirePermission role={analyticsUser?.role} permission="analytics.view" isPending={isRestoring} loginPath="/analytics">
+                    <AnalyticsDashboardView />
+                </RequirePermission>
+            } />
             <Route path="/" element={<RestaurantListView />} />
             <Route path="/restaurant/:id" element={<RestaurantWrapper />} />
             <Route path="*" element={<Navigate to="/" replace />} />
@@ -93,15 +115,17 @@ const AppContent: React.FC = () => {
 const App: React.FC = () => {
     return (
         <I18nProvider>
-            <DataProvider>
-                <AppProvider>
-                    <AnalyticsAuthProvider>
-                        <BrowserRouter>
-                            <AppContent />
-                        </BrowserRouter>
-                    </AnalyticsAuthProvider>
-                </AppProvider>
-            </DataProvider>
+            <ToastProvider>
+                <DataProvider>
+                    <AppProvider>
+                        <AnalyticsAuthProvider>
+                            <BrowserRouter>
+                                <AppContent />
+                            </BrowserRouter>
+                        </AnalyticsAuthProvider>
+                    </AppProvider>
+                </DataProvider>
+            </ToastProvider>
         </I18nProvider>
     );
 };
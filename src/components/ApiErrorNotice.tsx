@@ -0,0 +1,38 @@
+import React from 'react';
+import { useTranslation } from '../context/I18nContext';
+import { ApiError } from '../services/api';
+import { describeApiError } from '../utils/apiErrors';
+
+interface ApiErrorNoticeProps {
+    error: unknown;
+    onRetry?: () => void;
+}
+
+// Replaces the old hard page reload on maintenance/forbidden responses
+const ApiErrorNotice: React.FC<ApiErrorNoticeProps> = ({ error, onRetry }) => {
+    const { t } = useTranslation();
+    const isMaintenance = error instanceof ApiError && error.code === 'maintenance';
+
+    return (
+        <div className="max-w-md mx-auto bg-brand-accent p-8 rounded-lg shadow-lg text-center">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto mb-4 text-[#E07A5F]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                {isMaintenance ? (
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065zM15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                ) : (
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                )}
+            </svg>
+            <p className="text-white mb-6">{describeApiError(error, t)}</p>
+            {onRetry && (
+                <button
+                    onClick={onRetry}
+                    className="w-full py-2 font-semibold rounded-md bg-brand-blue text-white hover:opacity-90 transition-opacity"
+                >
+                    {t('apiError.retry')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ApiErrorNotice;
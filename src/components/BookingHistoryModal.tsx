@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { BookingAuditEvent } from '../types';
+import { api, isAbortError } from '../services/api';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+import { AUDIT_ACTION_ICONS, auditFieldLabel, formatAuditValue } from '../utils/bookingAudit';
+
+interface BookingHistoryModalProps {
+    bookingId: string;
+    // Shown in the header so it's clear whose booking this is
+    guestName?: string;
+    onClose: () => void;
+}
+
+const BookingHistoryModal: React.FC<BookingHistoryModalProps> = ({ bookingId, guestName, onClose }) => {
+    const { t } = useTranslation();
+    const [events, setEvents] = useState<BookingAuditEvent[] | null>(null);
+    const [error, setError] = useState('');
+
+    // Bookings made offline only get a log once the queue has sent them
+    const notSynced = bookingId.startsWith('offline-');
+
+    useEffect(() => {
+        if (notSynced) return;
+        const controller = new AbortController();
+        api.bookings.getHistory(bookingId, { signal: controller.signal })
+            .then(setEvents)
+            .catch(err => {
+                if (isAbortError(err)) return;
+                console.error('Failed to load booking history:', err);
+                setError(describeApiError(err, t));
+            });
+        return () => controller.abort();
+    }, [bookingId, notSynced]);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 transition-opacity duration-300 p-2 sm:p-4" onClick={onClose}>
+            <div className="bg-brand-secondary rounded-xl shadow-2xl p-6 w-full max-w-lg m-auto max-h-[90vh] flex flex-col border border-brand-accent/50" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 pb-2 border-b border-brand-accent/30">
+                    <h2 className="text-xl font-bold text-brand-primary truncate">
+                        {t('bookingHistory.title')}{guestName && ` — ${guestName}`}
+                    </h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="overflow-y-auto pr-1 custom-scrollbar">
+                    {notSynced ? (
+                        <p className="text-sm text-gray-500 text-center py-6">{t('bookingHistory.notSynced')}</p>
+                    ) : error ? (
+                        <p className="text-sm text-red-400 text-center py-6">{error}</p>
+                    ) : !events ? (
+                        <p className="text-sm text-gray-500 text-center py-6">{t('bookingHistory.loading')}</p>
+                    ) : events.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-6">{t('bookingHistory.empty')}</p>
+                    ) : (
+                        <ol className="relative border-l border-brand-accent/40 ml-3 space-y-4">
+                            {events.map(event => (
+                                <li key={event.id} className="ml-5">
+                                    <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-brand-primary border border-brand-accent text-xs">
+                                        {AUDIT_ACTION_ICONS[event.action] || '•'}
+                                    </span>
+                                    <div className="flex flex-wrap items-baseline gap-x-2">
+                                        <span className="font-bold text-gray-200 text-sm">{t(`bookingHistory.actions.${event.action}`)}</span>
+                                        <span className="text-xs text-gray-500 font-mono">
+                                            {event.at.toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                                        </span>
+                                    </div>
+                                    <p className="text-xs text-brand-blue">
+                                        {event.actor || t(`bookingHistory.roles.${event.actorRole || 'system'}`)}
+                                    </p>
+                                    {event.changes.length > 0 && (
+                                        <ul className="mt-1 space-y-0.5">
+                                            {event.changes.map(change => (
+                                                <li key={change.field} className="text-xs text-gray-400">
+                                                    <span className="text-gray-500">{auditFieldLabel(change.field, t)}:</span>{' '}
+                                                    <span className="line-through opacity-70">{formatAuditValue(change.field, change.before, t)}</span>
+                                                    {' → '}
+                                                    <span className="text-gray-200">{formatAuditValue(change.field, change.after, t)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {event.note && <p className="text-xs italic text-gray-400 mt-1">"{event.note}"</p>}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BookingHistoryModal;
@@ -1,8 +1,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { BookingStatus, TableElement, Booking } from '../types';
+import { BookingStatus, TableElement, Booking, BookingTag } from '../types';
 import { useData } from '../context/DataContext';
 import { useTranslation } from '../context/I18nContext';
 import { useApp } from '../context/AppContext';
+import { availabilityInput, bookingTableIds, getPartySlots, getTableSlots, isTableFree } from '../utils/availability';
+import { suggestTables } from '../utils/tableOptimizer';
+import TableSuggestionChip from './TableSuggestionChip';
+import { formatLocalDate, formatPhoneNumber } from '../utils/helpers';
+import WaitlistJoinForm from './WaitlistJoinForm';
+import DepositPaymentStep from './DepositPaymentStep';
+import BookingTagPicker from './BookingTagPicker';
+import BookingSeriesPlanner, { SeriesPlan } from './BookingSeriesPlanner';
+import { calculateDeposit, formatMoney } from '../utils/deposit';
+import { getCancellationPolicy } from '../utils/cancellationPolicy';
 
 const FormattedMessage: React.FC<{ text: string }> = ({ text }) => {
     const actualLines = text.split(/\r?\n|\\n/);
@@ -25,11 +35,6 @@ const FormattedMessage: React.FC<{ text: string }> = ({ text }) => {
     );
 };
 
-const parseTime = (timeStr: string): number => {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    return hours * 60 + minutes;
-};
-
 interface BookingModalProps {
     table: TableElement | null;
     restaurantId: string;
@@ -37,51 +42,43 @@ interface BookingModalProps {
     isAdmin?: boolean;
     withMap?: boolean; // If false - no table selection was made, table is null
     bookingToEdit?: Booking;
+    initialGuestCount?: number;
+    // Pre-selected date and time, e.g. from a free cell on the timeline
+    initialStart?: Date;
 }
 
-const formatLocalDate = (date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
-const formatPhoneNumber = (value: string): string => {
-    const digits = value.replace(/\D/g, '');
-    const limitedDigits = digits.slice(0, 11);
-    const normalizedDigits = limitedDigits.startsWith('8')
-        ? '7' + limitedDigits.slice(1)
-        : limitedDigits;
-
-    if (normalizedDigits.length === 0) return '';
-    if (normalizedDigits.length <= 1) return `+${normalizedDigits}`;
-    if (normalizedDigits.length <= 4) return `+${normalizedDigits[0]} (${normalizedDigits.slice(1)}`;
-    if (normalizedDigits.length <= 7) return `+${normalizedDigits[0]} (${normalizedDigits.slice(1, 4)}) ${normalizedDigits.slice(4)}`;
-    if (normalizedDigits.length <= 9) return `+${normalizedDigits[0]} (${normalizedDigits.slice(1, 4)}) ${normalizedDigits.slice(4, 7)}-${normalizedDigits.slice(7)}`;
-    return `+${normalizedDigits[0]} (${normalizedDigits.slice(1, 4)}) ${normalizedDigits.slice(4, 7)}-${normalizedDigits.slice(7, 9)}-${normalizedDigits.slice(9, 11)}`;
-};
-
-const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClose, isAdmin = false, withMap = true, bookingToEdit }) => {
-    const { addBooking, getRestaurant, updateBookingDetails, loadBookings } = useData();
+const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClose, isAdmin = false, withMap = true, bookingToEdit, initialGuestCount, initialStart }) => {
+    const { addBooking, addBookingSeries, updateBookingSeries, getRestaurant, updateBookingDetails, loadBookings } = useData();
     const { t, language } = useTranslation();
     const { currentUser } = useApp();
     const restaurant = getRestaurant(restaurantId);
 
-    const [guestName, setGuestName] = useState(bookingToEdit?.guestName || '');
-    const [guestPhone, setGuestPhone] = useState(bookingToEdit?.guestPhone || '');
+    // Signed-in guests don't retype their details
+    const signedInGuest = !isAdmin && currentUser?.role === 'GUEST' ? currentUser : null;
+    const [guestName, setGuestName] = useState(bookingToEdit?.guestName || signedInGuest?.name || '');
+    const [guestPhone, setGuestPhone] = useState(bookingToEdit?.guestPhone || (signedInGuest?.phone ? formatPhoneNumber(signedInGuest.phone) : ''));
 
     const [duration, setDuration] = useState<number>(bookingToEdit?.duration || (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60));
     const [loading, setLoading] = useState(false);
-    const [guestCount, setGuestCount] = useState<number>(bookingToEdit?.guestCount || 2);
+    const [guestCount, setGuestCount] = useState<number>(bookingToEdit?.guestCount || initialGuestCount || 2);
     const [guestComment, setGuestComment] = useState(bookingToEdit?.guestComment || '');
+    const [tags, setTags] = useState<BookingTag[]>(bookingToEdit?.tags || []);
     const [assignedTo, setAssignedTo] = useState(bookingToEdit?.assignedTo || currentUser?.managerName || 'Admin');
     const [isSuccess, setIsSuccess] = useState(false);
+    const [showWaitlist, setShowWaitlist] = useState(false);
+    const [showPayment, setShowPayment] = useState(false);
+    // Kept so a failed booking request can be retried without charging the guest twice
+    const [paidIntentId, setPaidIntentId] = useState<string | null>(null);
+    const [repeat, setRepeat] = useState(false);
+    const [seriesPlan, setSeriesPlan] = useState<SeriesPlan | null>(null);
+    const [applyToSeries, setApplyToSeries] = useState(false);
 
     // Multi-table selection for admin
     const [selectedTableIds, setSelectedTableIds] = useState<string[]>(table ? [table.id] : []);
 
-    const [bookingDate, setBookingDate] = useState(bookingToEdit ? formatLocalDate(new Date(bookingToEdit.dateTime)) : formatLocalDate(new Date()));
-    const [bookingTime, setBookingTime] = useState(bookingToEdit ? new Date(bookingToEdit.dateTime).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }) : '');
+    const initialDateTime = bookingToEdit ? new Date(bookingToEdit.dateTime) : initialStart;
+    const [bookingDate, setBookingDate] = useState(formatLocalDate(initialDateTime || new Date()));
+    const [bookingTime, setBookingTime] = useState(initialDateTime ? initialDateTime.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }) : '');
     const [error, setError] = useState('');
 
     const [currentTableId, setCurrentTableId] = useState<string>(table?.id || bookingToEdit?.tableId || '');
@@ -121,187 +118,52 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
         setGuestPhone(formatted);
     };
 
-    const getScheduleForDay = (dayIndex: number) => {
-        if (restaurant?.schedule && restaurant.schedule[dayIndex]) {
-            return restaurant.schedule[dayIndex];
-        }
-        return {
-            start: restaurant?.workStarts || '10:00',
-            end: restaurant?.workEnds || '23:00'
-        };
-    };
+    const availability = useMemo(() => restaurant ? availabilityInput(restaurant) : null, [restaurant]);
 
-    // Generate slots only for guests WITH map (specific table picked). For no-map guests, use free time input.
+    // Slots for guests WITH map: only times when the picked table itself is free
     const availableSlots = useMemo(() => {
-        if (isAdmin || !withMap || !table) return [];
-
-        const slots: string[] = [];
-        const now = new Date();
-        const [year, month, day] = bookingDate.split('-').map(Number);
-        const selectedDate = new Date(year, month - 1, day);
-        const isToday = selectedDate.toDateString() === now.toDateString();
-
-        const todayIndex = selectedDate.getDay();
-        const yesterdayIndex = (todayIndex + 6) % 7;
+        if (isAdmin || !withMap || !table || !availability) return [];
+        return getTableSlots(availability, table.id, selectedDateObj, duration);
+    }, [availability, selectedDateObj, table?.id, duration, isAdmin, withMap]);
 
-        const todaySchedule = getScheduleForDay(todayIndex);
-        const yesterdaySchedule = getScheduleForDay(yesterdayIndex);
-
-        const yStartMins = parseTime(yesterdaySchedule.start);
-        const yEndMins = parseTime(yesterdaySchedule.end);
-
-        const tStartMins = parseTime(todaySchedule.start);
-        const tEndMins = parseTime(todaySchedule.end);
-
-        const slotTimesToGenerate: number[] = [];
-
-        // 1. Spillover from yesterday
-        if (yEndMins <= yStartMins) {
-            const spilloverEnd = yEndMins - (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60);
-            for (let time = 0; time <= spilloverEnd; time += 30) {
-                slotTimesToGenerate.push(time);
-            }
-        }
-
-        // 2. Today's shift
-        const endForToday = (tEndMins <= tStartMins) ? (24 * 60 - (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60)) : (tEndMins - (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60));
-        for (let time = tStartMins; time <= endForToday; time += 30) {
-            slotTimesToGenerate.push(time);
-        }
-
-        const currentMins = now.getHours() * 60 + now.getMinutes();
-        const minBookingMins = isToday ? currentMins + 60 : 0;
-
-        const relevantBookings = restaurant?.bookings.filter(b => {
-            if (b.tableId !== table.id) return false;
-            if (b.status !== BookingStatus.CONFIRMED && b.status !== BookingStatus.OCCUPIED && b.status !== BookingStatus.PENDING) return false;
-            const bDate = new Date(b.dateTime);
-            return bDate.getFullYear() === selectedDate.getFullYear() &&
-                bDate.getMonth() === selectedDate.getMonth() &&
-                bDate.getDate() === selectedDate.getDate();
-        }) || [];
-
-        const bookingMinsList = relevantBookings.map(b => {
-            const bDate = new Date(b.dateTime);
-            return {
-                start: bDate.getHours() * 60 + bDate.getMinutes(),
-                end: bDate.getHours() * 60 + bDate.getMinutes() + (b.duration || 60)
-            };
-        });
-
-        for (const time of slotTimesToGenerate) {
-            if (isToday && time < minBookingMins) continue;
-            if (selectedDate < new Date(now.getFullYear(), now.getMonth(), now.getDate())) continue;
-
-            const isSpillover = time < tStartMins;
-
-            const hasConflict = bookingMinsList.some(b => {
-                const isBmSpillover = b.start < tStartMins;
-                if (isBmSpillover !== isSpillover) return false; // Only compare within the same "shift" (today vs yesterday spillover)
-
-                // Check for overlap with existing booking
-                // A new booking from 'time' with 'duration' conflicts if it overlaps with an existing booking 'b'
-                // Conflict if: (start1 < end2) && (end1 > start2)
-                return (time < b.end) && (time + (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60) > b.start);
-            });
-            if (hasConflict) continue;
-
-            const h = Math.floor(time / 60) % 24;
-            const m = time % 60;
-            const timeString = `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
-            if (!slots.includes(timeString)) {
-                slots.push(timeString);
-            }
-        }
-
-        slots.sort((a, b) => parseTime(a) - parseTime(b));
-
-        return slots;
-    }, [bookingDate, restaurant, table?.id, isAdmin, withMap]);
-
-    // For no-map guest booking: generate time slots from restaurant schedule (no table-specific blocking)
+    // For no-map guest booking: times when some table can still seat the party
     const noMapSlots = useMemo(() => {
-        if (isAdmin || withMap) return [];
-
-        const slots: string[] = [];
-        const now = new Date();
-        const [year, month, day] = bookingDate.split('-').map(Number);
-        const selectedDate = new Date(year, month - 1, day);
-        const isToday = selectedDate.toDateString() === now.toDateString();
-
-        const todayIndex = selectedDate.getDay();
-        const yesterdayIndex = (todayIndex + 6) % 7;
-        const todaySchedule = getScheduleForDay(todayIndex);
-        const yesterdaySchedule = getScheduleForDay(yesterdayIndex);
-
-        const yStartMins = parseTime(yesterdaySchedule.start);
-        const yEndMins = parseTime(yesterdaySchedule.end);
-        const tStartMins = parseTime(todaySchedule.start);
-        const tEndMins = parseTime(todaySchedule.end);
-
-        const slotTimesToGenerate: number[] = [];
-
-        if (yEndMins <= yStartMins) {
-            const spilloverEnd = yEndMins - (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60);
-            for (let time = 0; time <= spilloverEnd; time += 30) {
-                slotTimesToGenerate.push(time);
-            }
-        }
-
-        const endForToday = (tEndMins <= tStartMins) ? (24 * 60 - (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60)) : (tEndMins - (restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60));
-        for (let time = tStartMins; time <= endForToday; time += 30) {
-            slotTimesToGenerate.push(time);
-        }
-
-        const currentMins = now.getHours() * 60 + now.getMinutes();
-        const minBookingMins = isToday ? currentMins + 60 : 0;
-
-        const relevantBookings = restaurant?.bookings.filter(b => {
-            const bDate = new Date(b.dateTime);
-            return bDate.getFullYear() === selectedDate.getFullYear() &&
-                bDate.getMonth() === selectedDate.getMonth() &&
-                bDate.getDate() === selectedDate.getDate();
-        }) || [];
-
-        const bookingMinsList = relevantBookings.map(b => {
-            const bDate = new Date(b.dateTime);
-            return {
-                start: bDate.getHours() * 60 + bDate.getMinutes(),
-                end: bDate.getHours() * 60 + bDate.getMinutes() + (b.duration || 60)
-            };
-        });
-
-        const totalTables = (restaurant?.layout || []).filter(l => l.type === 'table').length || 1;
-        const effectiveRestriction = restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60;
-
-        for (const time of slotTimesToGenerate) {
-            if (isToday && time < minBookingMins) continue;
-            if (selectedDate < new Date(now.getFullYear(), now.getMonth(), now.getDate())) continue;
-
-            const isSpillover = time < tStartMins;
-
-            // Count how many bookings overlap with this potential slot
-            let overlapCount = 0;
-            bookingMinsList.forEach(b => {
-                const isBmSpillover = b.start < tStartMins;
-                if (isBmSpillover !== isSpillover) return;
-
-                const hasOverlap = (time < b.end) && (time + effectiveRestriction > b.start);
-                if (hasOverlap) overlapCount++;
-            });
+        if (isAdmin || withMap || !availability) return [];
+        return getPartySlots(availability, guestCount, selectedDateObj, duration);
+    }, [availability, selectedDateObj, guestCount, duration, isAdmin, withMap]);
 
-            // If overlapCount is equal or greater than total tables, this slot is fully booked
-            if (overlapCount >= totalTables) continue;
-
-            const h = Math.floor(time / 60) % 24;
-            const m = time % 60;
-            const timeString = `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
-            if (!slots.includes(timeString)) slots.push(timeString);
-        }
-
-        slots.sort((a, b) => parseTime(a) - parseTime(b));
-        return slots;
-    }, [bookingDate, restaurant, isAdmin, withMap]);
+    const selectedStart = useMemo(() => {
+        if (!bookingTime) return null;
+        const start = new Date(selectedDateObj);
+        const [h, m] = bookingTime.split(':').map(Number);
+        start.setHours(h, m, 0, 0);
+        return start;
+    }, [selectedDateObj, bookingTime]);
+
+    // Admins may still double up a table, but they should see which ones are taken at that time
+    const busyTableIds = useMemo(() => {
+        if (!isAdmin || !availability || !selectedStart) return new Set<string>();
+        return new Set(allTables
+            .filter(tbl => !isTableFree(availability, tbl.id, selectedStart, duration, bookingToEdit?.id))
+            .map(tbl => tbl.id));
+    }, [isAdmin, availability, selectedStart, allTables, duration, bookingToEdit?.id]);
+
+    const suggestion = useMemo(() => {
+        if (!isAdmin || bookingToEdit || !availability || !selectedStart) return null;
+        return suggestTables(availability, guestCount, selectedStart, duration);
+    }, [isAdmin, bookingToEdit, availability, selectedStart, guestCount, duration]);
+
+    // Guests only: walk-ins and phone bookings taken by staff are never charged here
+    const depositQuote = useMemo(() => {
+        if (isAdmin || bookingToEdit || !selectedStart) return null;
+        return calculateDeposit(restaurant?.depositPolicy, selectedStart, guestCount);
+    }, [isAdmin, bookingToEdit, selectedStart, restaurant?.depositPolicy, guestCount]);
+
+    // A payment covers the slot and party it was taken for; changing either asks for a new one
+    const selectedStartTime = selectedStart?.getTime();
+    useEffect(() => {
+        setPaidIntentId(null);
+    }, [selectedStartTime, guestCount, depositQuote?.amount]);
 
     useEffect(() => {
         if (isAdmin) {
@@ -330,14 +192,14 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
 
     const visualBookings = table ? restaurant?.bookings
         .filter(booking =>
-            booking.tableId === table.id &&
+            bookingTableIds(booking).includes(table.id) &&
             (booking.status === BookingStatus.PENDING || booking.status === BookingStatus.CONFIRMED) &&
             new Date(booking.dateTime).getTime() >= Date.now()
         )
         .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime()) || [] : [];
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    const handleSubmit = async (e?: React.FormEvent, paymentIntentId = paidIntentId) => {
+        e?.preventDefault();
         if (loading) return;
         setError('');
         setLoading(true);
@@ -371,6 +233,12 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
             return;
         }
 
+        if (depositQuote && !paymentIntentId) {
+            setShowPayment(true);
+            setLoading(false);
+            return;
+        }
+
         const [h, m] = bookingTime.split(':').map(Number);
         const dateTime = new Date(bookingDate);
         dateTime.setHours(h, m, 0, 0);
@@ -392,9 +260,11 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                 tableId: primaryTableId,
                 tableLabel: primaryTableLabel,
                 guestComment,
+                tags,
                 isAdmin,
                 duration,
-                assignedTo: isAdmin ? assignedTo : undefined
+                assignedTo: isAdmin ? assignedTo : undefined,
+                paymentIntentId: paymentIntentId || undefined
             };
 
             // Add multi-table data for admin bookings
@@ -403,10 +273,37 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                 payload.tableLabels = selectedTableIds.map(id => allTables.find(t => t.id === id)?.label || '');
             }
 
-            if (bookingToEdit) {
-                await updateBookingDetails(bookingToEdit.id, payload);
+            if (bookingToEdit?.seriesId && applyToSeries) {
+                await updateBookingSeries(bookingToEdit.seriesId, {
+                    guestName: payload.guestName,
+                    guestPhone: payload.guestPhone,
+                    guestCount,
+                    guestComment,
+                    tags,
+                    duration,
+                    assignedTo: payload.assignedTo,
+                    tableId: payload.tableId,
+                    tableLabel: payload.tableLabel,
+                    tableIds: payload.tableIds,
+                    tableLabels: payload.tableLabels,
+                    time: bookingTime
+                });
+                alert(t('bookingSeries.updated'));
+                onClose();
+            } else if (bookingToEdit) {
+                // A rejected edit is rolled back and reported by DataContext; keep the form open
+                if (!await updateBookingDetails(bookingToEdit.id, payload)) return;
                 alert('Изменения сохранены!');
                 onClose();
+            } else if (isAdmin && repeat) {
+                const dates = seriesPlan?.checks.filter(c => !c.conflict).map(c => c.dateTime) || [];
+                if (!seriesPlan || dates.length === 0) {
+                    setError(seriesPlan ? t('bookingSeries.nothingToBook') : t('bookingSeries.checking'));
+                    return;
+                }
+                await addBookingSeries(restaurantId, payload, seriesPlan.rule, dates);
+                alert(t('bookingSeries.created', { count: dates.length }));
+                onClose();
             } else {
                 await addBooking(restaurantId, payload);
                 if (isAdmin) {
@@ -425,6 +322,48 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
 
     const activeSlots = withMap ? availableSlots : noMapSlots;
 
+    if (showWaitlist) {
+        return (
+            <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 transition-opacity duration-300 p-2 sm:p-4">
+                <div className="bg-brand-secondary rounded-lg shadow-2xl p-6 w-full max-w-lg m-auto max-h-[90vh] overflow-y-auto">
+                    <h2 className="text-xl md:text-2xl font-bold text-brand-primary mb-4">{t('waitlist.title')}</h2>
+                    <WaitlistJoinForm
+                        restaurantId={restaurantId}
+                        initialDate={bookingDate}
+                        initialGuestCount={guestCount}
+                        initialName={guestName}
+                        initialPhone={guestPhone}
+                        onClose={onClose}
+                    />
+                </div>
+            </div>
+        );
+    }
+
+    if (showPayment && depositQuote && selectedStart) {
+        return (
+            <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 transition-opacity duration-300 p-2 sm:p-4">
+                <div className="bg-brand-secondary rounded-lg shadow-2xl p-6 w-full max-w-lg m-auto max-h-[90vh] overflow-y-auto">
+                    <h2 className="text-xl md:text-2xl font-bold text-brand-primary mb-4">{t('deposit.title')}</h2>
+                    <DepositPaymentStep
+                        restaurantId={restaurantId}
+                        quote={depositQuote}
+                        cancellationPolicy={getCancellationPolicy(restaurant)}
+                        dateTime={selectedStart}
+                        guestCount={guestCount}
+                        guestPhone={guestPhone}
+                        onPaid={intentId => {
+                            setPaidIntentId(intentId);
+                            setShowPayment(false);
+                            handleSubmit(undefined, intentId);
+                        }}
+                        onBack={() => setShowPayment(false)}
+                    />
+                </div>
+            </div>
+        );
+    }
+
     if (isSuccess) {
         return (
             <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 transition-opacity duration-300 p-2 sm:p-4">
@@ -434,6 +373,9 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                     </div>
                     <h2 className="text-2xl font-bold text-brand-primary mb-2">{t('bookingModal.successTitle')}</h2>
                     <p className="text-gray-400 mb-6">{t('bookingModal.successMessage')}</p>
+                    {paidIntentId && depositQuote && (
+                        <p className="text-brand-green text-sm font-semibold -mt-3 mb-6">{t('deposit.paidNote', { amount: formatMoney(depositQuote.amount) })}</p>
+                    )}
 
                     {(() => {
                         const ageText = language === 'kz' && restaurant?.age_restriction_kz && restaurant.age_restriction_kz.trim() !== '' ? restaurant.age_restriction_kz : restaurant?.age_restriction;
@@ -464,7 +406,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                     <h2 className="text-xl md:text-2xl font-bold text-brand-primary">
                         {bookingToEdit ? t('bookingModal.editTitle') : (
                             isAdmin
-                                ? selectedTableIds.length > 1
+                                ? selectedTableIds.length > 1 || (selectedTableIds.length === 1 && selectedTableIds[0] !== table?.id)
                                     ? <>{t('bookingModal.seatGuestsTable')} <span className="text-brand-blue">{selectedTableIds.map(id => allTables.find(t => t.id === id)?.label || '').join(', ')}</span></>
                                     : table ? <>{t('bookingModal.seatGuestsTable')} <span className="text-brand-blue">{table.label}</span></> : t('bookingModal.seatGuests')
                                 : table ? <>{t('bookingModal.bookTableWith')} <span className="text-brand-blue">{table.label}</span></> : t('bookingModal.bookTable')
@@ -510,18 +452,21 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                     {isAdmin && !bookingToEdit && allTables.length > 1 && (
                         <div className="bg-brand-accent/40 border border-brand-accent px-3 py-2 rounded-md">
                             <label className="text-xs text-brand-primary block mb-2 font-bold">{t('bookingModal.addExtraTables')}</label>
+                            <TableSuggestionChip suggestion={suggestion} tables={allTables} selectedTableIds={selectedTableIds} onAccept={setSelectedTableIds} />
                             <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto p-1">
                                 {allTables.map(tbl => {
                                     const isSelected = selectedTableIds.includes(tbl.id);
+                                    const isBusy = busyTableIds.has(tbl.id);
                                     return (
                                         <button
                                             key={tbl.id}
                                             type="button"
                                             onClick={() => toggleExtraTable(tbl.id)}
+                                            title={isBusy ? t('bookingModal.tableBusyAtTime') : undefined}
                                             className={`px-2 py-1 text-xs rounded-md font-semibold border transition-colors ${isSelected
                                                 ? 'bg-brand-blue border-brand-blue text-white'
                                                 : 'bg-brand-primary border-gray-600 text-gray-300 hover:border-gray-400'
-                                                }`}
+                                                } ${isBusy ? 'opacity-50 line-through' : ''}`}
                                         >
                                             {t('bookingModal.tableCapacity', { label: String(tbl.label), seats: String(tbl.seats) })}
                                         </button>
@@ -617,6 +562,11 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                             />
                         </div>
 
+                        <div>
+                            <label className="text-xs text-gray-500 block mb-1">{t('bookingTags.title')}</label>
+                            <BookingTagPicker value={tags} onChange={setTags} />
+                        </div>
+
                         {isAdmin && (
                             <div>
                                 <label className="text-xs text-brand-blue block mb-2 font-bold">
@@ -659,9 +609,47 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                                     )}
                                 </select>
                             )}
+                            {!isAdmin && activeSlots.length === 0 && (
+                                <button
+                                    type="button"
+                                    onClick={() => setShowWaitlist(true)}
+                                    className="mt-2 text-sm font-semibold text-brand-blue hover:underline"
+                                >
+                                    {t('waitlist.joinPrompt')}
+                                </button>
+                            )}
                         </div>
                     </div>
 
+                    {isAdmin && !bookingToEdit && restaurant && (
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                                <input type="checkbox" checked={repeat} onChange={e => setRepeat(e.target.checked)} className="accent-brand-blue" />
+                                {t('bookingSeries.repeat')}
+                            </label>
+                            {repeat && (
+                                <BookingSeriesPlanner
+                                    restaurant={restaurant}
+                                    start={selectedStart}
+                                    duration={duration}
+                                    tableIds={selectedTableIds}
+                                    guestCount={guestCount}
+                                    onPlanChange={setSeriesPlan}
+                                />
+                            )}
+                        </div>
+                    )}
+
+                    {bookingToEdit?.seriesId && (
+                        <label className="flex items-start gap-2 text-sm text-gray-300 cursor-pointer bg-brand-accent p-3 rounded-md border border-gray-600">
+                            <input type="checkbox" checked={applyToSeries} onChange={e => setApplyToSeries(e.target.checked)} className="accent-brand-blue mt-0.5" />
+                            <span>
+                                {t('bookingSeries.applyToSeries')}
+                                <span className="block text-xs text-gray-500">{t('bookingSeries.applyToSeriesHint')}</span>
+                            </span>
+                        </label>
+                    )}
+
                     {!isAdmin && (() => {
                         const ageText = language === 'kz' && restaurant?.age_restriction_kz && restaurant.age_restriction_kz.trim() !== '' ? restaurant.age_restriction_kz : restaurant?.age_restriction;
                         return ageText && ageText.trim() !== '' ? (
@@ -676,14 +664,21 @@ const BookingModal: React.FC<BookingModalProps> = ({ table, restaurantId, onClos
                         ) : null;
                     })()}
 
+                    {depositQuote && (
+                        <div className="flex justify-between items-center bg-brand-accent p-3 rounded-md border border-gray-600 text-sm">
+                            <span className="text-gray-400">{paidIntentId ? t('deposit.alreadyPaid') : t('deposit.nextStep')}</span>
+                            <span className="font-bold text-brand-primary">{formatMoney(depositQuote.amount)}</span>
+                        </div>
+                    )}
+
                     <div className="pt-4 flex gap-3">
                         <button type="button" onClick={onClose} className="flex-1 py-3 rounded-md bg-gray-600 text-white text-sm font-semibold hover:bg-gray-700 transition-colors">{t('common.cancel')}</button>
                         <button
                             type="submit"
-                            disabled={(!isAdmin && activeSlots.length === 0) || loading}
+                            disabled={(!isAdmin && activeSlots.length === 0) || (isAdmin && repeat && !seriesPlan) || loading}
                             className="flex-1 py-3 rounded-md bg-brand-blue text-white font-bold text-sm shadow-md hover:brightness-90 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all"
                         >
-                            {bookingToEdit ? t('bookingModal.saveChanges') : (isAdmin ? t('bookingModal.takeTable') : t('bookingModal.bookTable'))}
+                            {bookingToEdit ? t('bookingModal.saveChanges') : (isAdmin ? (repeat ? t('bookingSeries.createSeries') : t('bookingModal.takeTable')) : depositQuote && !paidIntentId ? t('deposit.continueToPayment') : t('bookingModal.bookTable'))}
                         </button>
                     </div>
                 </form>
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { RecurrenceFrequency, RecurrenceRule, Restaurant } from '../types';
+import { api, isAbortError } from '../services/api';
+import { useTranslation } from '../context/I18nContext';
+import { availabilityInput } from '../utils/availability';
+import { formatLocalDate } from '../utils/helpers';
+import { MAX_SERIES_OCCURRENCES, OccurrenceCheck, checkOccurrences, expandRecurrence } from '../utils/recurrence';
+
+export interface SeriesPlan {
+    rule: RecurrenceRule;
+    checks: OccurrenceCheck[];
+}
+
+interface BookingSeriesPlannerProps {
+    restaurant: Restaurant;
+    start: Date | null;
+    duration: number;
+    tableIds: string[];
+    guestCount: number;
+    // null while the occurrences are being checked
+    onPlanChange: (plan: SeriesPlan | null) => void;
+}
+
+const inputClass = 'w-full bg-brand-accent p-2 rounded-md border border-gray-600 text-gray-200 text-sm focus:border-brand-blue outline-none transition-all';
+
+const BookingSeriesPlanner: React.FC<BookingSeriesPlannerProps> = ({ restaurant, start, duration, tableIds, guestCount, onPlanChange }) => {
+    const { t } = useTranslation();
+    const [rule, setRule] = useState<RecurrenceRule>({ frequency: 'weekly', interval: 1, count: 8 });
+    const [checks, setChecks] = useState<OccurrenceCheck[] | null>(null);
+    const [checkError, setCheckError] = useState('');
+
+    const tableKey = tableIds.join(',');
+
+    // Bookings on screen only cover the selected day, so fetch the whole span of the series
+    useEffect(() => {
+        setChecks(null);
+        setCheckError('');
+        onPlanChange(null);
+        if (!start) return;
+
+        const dates = expandRecurrence(start, rule);
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const bookings = await api.restaurants.getBookingsRange(
+                    restaurant.id,
+                    `${formatLocalDate(dates[0])} 00:00:00`,
+                    `${formatLocalDate(dates[dates.length - 1])} 23:59:59`,
+                    { signal: controller.signal }
+                );
+                const result = checkOccurrences({ ...availabilityInput(restaurant), bookings }, dates, duration, tableIds, guestCount);
+                setChecks(result);
+                onPlanChange({ rule, checks: result });
+            } catch (error) {
+                if (isAbortError(error)) return;
+                console.error('Series availability check failed:', error);
+                setCheckError(t('bookingSeries.checkError'));
+            }
+        }, 300);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+        // Not keyed on `restaurant`: it changes on every live booking event, and the range fetch is fresh anyway
+    }, [restaurant.id, start?.getTime(), duration, tableKey, guestCount, rule]);
+
+    const setEnd = (mode: 'count' | 'until') => {
+        setRule(prev => mode === 'count'
+            ? { ...prev, until: undefined, count: prev.count || 8 }
+            : { ...prev, count: undefined, until: prev.until || (start ? formatLocalDate(new Date(start.getFullYear(), start.getMonth() + 2, start.getDate())) : undefined) });
+    };
+
+    const conflicts = checks?.filter(c => c.conflict).length || 0;
+
+    return (
+        <div className="space-y-3 bg-black/20 p-3 rounded-lg border border-gray-700/50">
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">{t('bookingSeries.frequency')}</label>
+                    <select value={rule.frequency} onChange={e => setRule(prev => ({ ...prev, frequency: e.target.value as RecurrenceFrequency }))} className={inputClass}>
+                        <option value="weekly">{t('bookingSeries.weekly')}</option>
+                        <option value="daily">{t('bookingSeries.daily')}</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">
+                        {rule.frequency === 'weekly' ? t('bookingSeries.everyWeeks') : t('bookingSeries.everyDays')}
+                    </label>
+                    <input type="number" min={1} value={rule.interval} onChange={e => setRule(prev => ({ ...prev, interval: Math.max(1, parseInt(e.target.value) || 1) }))} className={inputClass} />
+                </div>
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">{t('bookingSeries.ends')}</label>
+                    <select value={rule.until ? 'until' : 'count'} onChange={e => setEnd(e.target.value as 'count' | 'until')} className={inputClass}>
+                        <option value="count">{t('bookingSeries.afterCount')}</option>
+                        <option value="until">{t('bookingSeries.onDate')}</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">&nbsp;</label>
+                    {rule.until ? (
+                        <input type="date" value={rule.until} min={start ? formatLocalDate(start) : undefined} onChange={e => setRule(prev => ({ ...prev, until: e.target.value || prev.until }))} className={inputClass} />
+                    ) : (
+                        <input type="number" min={2} max={MAX_SERIES_OCCURRENCES} value={rule.count || ''} onChange={e => setRule(prev => ({ ...prev, count: Math.min(MAX_SERIES_OCCURRENCES, Math.max(2, parseInt(e.target.value) || 2)) }))} className={inputClass} />
+                    )}
+                </div>
+            </div>
+
+            {!start ? (
+                <p className="text-xs text-gray-500">{t('bookingSeries.pickTime')}</p>
+            ) : checkError ? (
+                <p className="text-xs text-red-400">{checkError}</p>
+            ) : !checks ? (
+                <p className="text-xs text-gray-500">{t('bookingSeries.checking')}</p>
+            ) : (
+                <div className="space-y-2">
+                    <p className={`text-xs font-semibold ${conflicts > 0 ? 'text-brand-yellow' : 'text-brand-green'}`}>
+                        {conflicts > 0
+                            ? t('bookingSeries.summaryWithConflicts', { total: checks.length, conflicts })
+                            : t('bookingSeries.summary', { total: checks.length })}
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto space-y-1 pr-1">
+                        {checks.map(check => (
+                            <li key={check.dateTime.getTime()} className={`flex justify-between text-xs px-2 py-1 rounded ${check.conflict ? 'bg-brand-red/10 text-brand-red' : 'bg-white/5 text-gray-300'}`}>
+                                <span className={check.conflict ? 'line-through' : ''}>{check.dateTime.toLocaleString('ru-RU', { weekday: 'short', day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}</span>
+                                {check.conflict && <span>{t(`bookingSeries.conflicts.${check.conflict}`)}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BookingSeriesPlanner;
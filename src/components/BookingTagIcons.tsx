@@ -0,0 +1,28 @@
+import React from 'react';
+import { BookingTag } from '../types';
+import { useTranslation } from '../context/I18nContext';
+import { BOOKING_TAG_ICONS, sortBookingTags } from '../utils/bookingTags';
+
+interface BookingTagIconsProps {
+    tags?: BookingTag[];
+    className?: string;
+}
+
+// Compact icon row for cards and the floor map; names are in the tooltip
+const BookingTagIcons: React.FC<BookingTagIconsProps> = ({ tags, className = '' }) => {
+    const { t } = useTranslation();
+    const sorted = sortBookingTags(tags);
+    if (sorted.length === 0) return null;
+
+    return (
+        <span className={`inline-flex flex-wrap gap-0.5 leading-none ${className}`}>
+            {sorted.map(tag => (
+                <span key={tag} title={t(`bookingTags.tags.${tag}`)} aria-label={t(`bookingTags.tags.${tag}`)}>
+                    {BOOKING_TAG_ICONS[tag]}
+                </span>
+            ))}
+        </span>
+    );
+};
+
+export default BookingTagIcons;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { BookingTag } from '../types';
+import { useTranslation } from '../context/I18nContext';
+import { BOOKING_TAG_GROUPS, BOOKING_TAG_ICONS, toggleBookingTag } from '../utils/bookingTags';
+
+interface BookingTagPickerProps {
+    value: BookingTag[];
+    onChange: (tags: BookingTag[]) => void;
+}
+
+const BookingTagPicker: React.FC<BookingTagPickerProps> = ({ value, onChange }) => {
+    const { t } = useTranslation();
+
+    return (
+        <div className="space-y-2">
+            {BOOKING_TAG_GROUPS.map(group => (
+                <div key={group.category}>
+                    <p className="text-[11px] text-gray-500 mb-1">{t(`bookingTags.categories.${group.category}`)}</p>
+                    <div className="flex flex-wrap gap-1.5">
+                        {group.tags.map(tag => {
+                            const active = value.includes(tag);
+                            return (
+                                <button
+                                    key={tag}
+                                    type="button"
+                                    onClick={() => onChange(toggleBookingTag(value, tag))}
+                                    className={`px-2.5 py-1 rounded-full text-xs font-semibold border transition-colors ${active ? 'bg-brand-blue border-brand-blue text-white' : 'bg-brand-accent border-gray-600 text-gray-300 hover:border-gray-400'}`}
+                                >
+                                    {BOOKING_TAG_ICONS[tag]} {t(`bookingTags.tags.${tag}`)}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default BookingTagPicker;
@@ -0,0 +1,246 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Booking, BookingStatus, Restaurant, TableElement } from '../types';
+import { useData } from '../context/DataContext';
+import { useTranslation } from '../context/I18nContext';
+import { SLOT_STEP_MINUTES, activeEvents, availabilityInput, bookingTableIds, eventTableIds, formatTime, getShiftWindows, getTables, isTableFree } from '../utils/availability';
+
+interface BookingTimelineProps {
+    restaurant: Restaurant;
+    day: Date;
+    onCreateBooking: (table: TableElement, start: Date) => void;
+    onEditBooking: (booking: Booking) => void;
+}
+
+const MINUTE_MS = 60000;
+const PX_PER_MINUTE = 2;
+const ROW_HEIGHT = 44;
+const LABEL_WIDTH = 96;
+// Drags snap to this, finer than the booking slots so hosts can nudge a seating
+const SNAP_MINUTES = 15;
+
+const STATUS_BARS: Partial<Record<BookingStatus, string>> = {
+    [BookingStatus.PENDING]: 'bg-brand-yellow/70 border-brand-yellow text-black',
+    [BookingStatus.CONFIRMED]: 'bg-brand-blue/80 border-blue-300 text-white',
+    [BookingStatus.OCCUPIED]: 'bg-brand-green/80 border-green-300 text-white',
+    [BookingStatus.COMPLETED]: 'bg-gray-500/60 border-gray-400 text-gray-100'
+};
+
+// Only these can be dragged; pending requests go through the request card, finished ones are history
+const MOVABLE: BookingStatus[] = [BookingStatus.CONFIRMED];
+const RESIZABLE: BookingStatus[] = [BookingStatus.CONFIRMED, BookingStatus.OCCUPIED];
+
+interface DragState {
+    booking: Booking;
+    mode: 'move' | 'resize';
+    rowIndex: number;
+    originX: number;
+    originY: number;
+    deltaMinutes: number;
+    deltaRows: number;
+}
+
+const snap = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+const BookingTimeline: React.FC<BookingTimelineProps> = ({ restaurant, day, onCreateBooking, onEditBooking }) => {
+    const { updateBookingDetails } = useData();
+    const { t } = useTranslation();
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const dragRef = useRef<DragState | null>(null);
+
+    const input = useMemo(() => availabilityInput(restaurant), [restaurant]);
+    const fallbackDuration = input.defaultDuration;
+
+    const tables = useMemo(() => {
+        const floorOrder = (restaurant.floors || []).map(f => f.id);
+        return getTables(restaurant).sort((a, b) =>
+            floorOrder.indexOf(a.floorId || '') - floorOrder.indexOf(b.floorId || '') ||
+            a.label.localeCompare(b.label, 'ru', { numeric: true }));
+    }, [restaurant]);
+
+    // The evening spans every opening window that touches the day, including a shift running past midnight
+    const range = useMemo(() => {
+        const windows = getShiftWindows(input, day);
+        const start = Math.min(...windows.map(w => w.start));
+        const end = Math.max(...windows.map(w => w.end));
+        return { start, end, minutes: Math.round((end - start) / MINUTE_MS) };
+    }, [input, day]);
+
+    const slots = useMemo(() => {
+        const list: Date[] = [];
+        for (let t = range.start; t < range.end; t += SLOT_STEP_MINUTES * MINUTE_MS) list.push(new Date(t));
+        return list;
+    }, [range]);
+
+    const bookings = useMemo(() => restaurant.bookings.filter(b => {
+        if (!STATUS_BARS[b.status]) return false;
+        const start = new Date(b.dateTime).getTime();
+        const end = start + (b.duration || fallbackDuration) * MINUTE_MS;
+        return start < range.end && end > range.start;
+    }), [restaurant.bookings, range, fallbackDuration]);
+
+    const events = useMemo(() => activeEvents(restaurant.events, range), [restaurant.events, range]);
+
+    const xOf = (time: number) => ((time - range.start) / MINUTE_MS) * PX_PER_MINUTE;
+    const width = range.minutes * PX_PER_MINUTE;
+    const now = Date.now();
+
+    const startDrag = (e: React.PointerEvent, booking: Booking, rowIndex: number, mode: DragState['mode']) => {
+        e.stopPropagation();
+        if (mode === 'move' && !MOVABLE.includes(booking.status)) mode = 'resize';
+        if (mode === 'resize' && !RESIZABLE.includes(booking.status)) {
+            onEditBooking(booking);
+            return;
+        }
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        const state = { booking, mode, rowIndex, originX: e.clientX, originY: e.clientY, deltaMinutes: 0, deltaRows: 0 };
+        dragRef.current = state;
+        setDrag(state);
+    };
+
+    const moveDrag = (e: React.PointerEvent) => {
+        const current = dragRef.current;
+        if (!current) return;
+        const deltaMinutes = snap((e.clientX - current.originX) / PX_PER_MINUTE);
+        // Multi-table parties keep their tables; only the time moves
+        const canChangeRow = current.mode === 'move' && bookingTableIds(current.booking).length <= 1;
+        const rawRows = canChangeRow ? Math.round((e.clientY - current.originY) / ROW_HEIGHT) : 0;
+        const deltaRows = Math.max(-current.rowIndex, Math.min(tables.length - 1 - current.rowIndex, rawRows));
+        if (deltaMinutes === current.deltaMinutes && deltaRows === current.deltaRows) return;
+        const next = { ...current, deltaMinutes, deltaRows };
+        dragRef.current = next;
+        setDrag(next);
+    };
+
+    const endDrag = async () => {
+        const current = dragRef.current;
+        dragRef.current = null;
+        setDrag(null);
+        if (!current) return;
+
+        const { booking, mode, deltaMinutes, deltaRows } = current;
+        if (deltaMinutes === 0 && deltaRows === 0) {
+            onEditBooking(booking);
+            return;
+        }
+
+        const duration = booking.duration || fallbackDuration;
+        const start = new Date(booking.dateTime);
+        let newStart = start;
+        let newDuration = duration;
+        let newTableIds = bookingTableIds(booking);
+        if (mode === 'move') {
+            newStart = new Date(start.getTime() + deltaMinutes * MINUTE_MS);
+            if (deltaRows !== 0) newTableIds = [tables[current.rowIndex + deltaRows].id];
+        } else {
+            newDuration = Math.max(SNAP_MINUTES, duration + deltaMinutes);
+        }
+
+        const busy = newTableIds.some(id => !isTableFree(input, id, newStart, newDuration, booking.id));
+        if (busy && !window.confirm(t('timeline.overlapConfirm'))) return;
+
+        const labels = newTableIds.map(id => tables.find(tbl => tbl.id === id)?.label || '');
+        // A rejected change puts the bar back and shows a toast from DataContext
+        await updateBookingDetails(booking.id, {
+            dateTime: newStart,
+            timezoneOffset: new Date().getTimezoneOffset(),
+            duration: newDuration,
+            tableId: newTableIds[0] || null,
+            tableLabel: labels[0] || null,
+            tableIds: newTableIds,
+            tableLabels: labels
+        });
+    };
+
+    const handleEmptyClick = (e: React.MouseEvent<HTMLDivElement>, table: TableElement) => {
+        const offset = e.clientX - e.currentTarget.getBoundingClientRect().left;
+        const minutes = Math.floor(offset / PX_PER_MINUTE / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+        onCreateBooking(table, new Date(range.start + minutes * MINUTE_MS));
+    };
+
+    if (tables.length === 0) {
+        return <p className="text-gray-500 text-center py-8">{t('timeline.noTables')}</p>;
+    }
+
+    return (
+        <div className="bg-brand-primary rounded-xl border border-brand-accent/30 overflow-x-auto select-none">
+            <div style={{ width: LABEL_WIDTH + width }} className="relative">
+                {/* Time header */}
+                <div className="flex sticky top-0 z-20 bg-brand-secondary border-b border-brand-accent/30">
+                    <div style={{ width: LABEL_WIDTH }} className="shrink-0 sticky left-0 z-30 bg-brand-secondary" />
+                    {slots.map(slot => (
+                        <div key={slot.getTime()} style={{ width: SLOT_STEP_MINUTES * PX_PER_MINUTE }} className="shrink-0 text-[10px] text-gray-400 py-1 pl-1 border-l border-white/10">
+                            {formatTime(slot)}
+                        </div>
+                    ))}
+                </div>
+
+                {tables.map((table, rowIndex) => {
+                    const rowBookings = bookings.filter(b => bookingTableIds(b).includes(table.id));
+                    const rowEvents = events.filter(ev => eventTableIds(ev, restaurant.layout).includes(table.id));
+                    const isDropTarget = drag?.mode === 'move' && drag.deltaRows !== 0 && drag.rowIndex + drag.deltaRows === rowIndex;
+                    return (
+                        <div key={table.id} className={`flex border-b border-white/5 ${isDropTarget ? 'bg-brand-blue/10' : ''}`} style={{ height: ROW_HEIGHT }}>
+                            <div style={{ width: LABEL_WIDTH }} className="shrink-0 sticky left-0 z-10 bg-brand-primary border-r border-brand-accent/30 px-2 flex flex-col justify-center">
+                                <span className="text-sm font-bold text-white truncate">{table.label}</span>
+                                <span className="text-[10px] text-gray-500">{t('timeline.seats', { count: table.seats })}</span>
+                            </div>
+                            <div className="relative cursor-cell" style={{ width }} onClick={e => handleEmptyClick(e, table)}>
+                                {slots.map(slot => (
+                                    <div key={slot.getTime()} className="absolute top-0 bottom-0 border-l border-white/5" style={{ left: xOf(slot.getTime()) }} />
+                                ))}
+
+                                {/* The event holds the table, so a click here must not start a booking */}
+                                {rowEvents.map(ev => (
+                                    <div
+                                        key={ev.id}
+                                        onClick={e => e.stopPropagation()}
+                                        title={ev.name}
+                                        className="absolute top-1 bottom-1 rounded bg-purple-700/40 border border-dashed border-purple-400/60 text-[10px] text-purple-200 px-1 overflow-hidden whitespace-nowrap cursor-not-allowed"
+                                        style={{ left: Math.max(0, xOf(ev.startsAt.getTime())), width: xOf(Math.min(ev.endsAt.getTime(), range.end)) - Math.max(0, xOf(ev.startsAt.getTime())) }}
+                                    >
+                                        🎉 {ev.name}
+                                    </div>
+                                ))}
+
+                                {rowBookings.map(booking => {
+                                    const dragging = drag?.booking.id === booking.id ? drag : null;
+                                    const start = new Date(booking.dateTime).getTime() + (dragging?.mode === 'move' ? dragging.deltaMinutes * MINUTE_MS : 0);
+                                    const duration = (booking.duration || fallbackDuration) + (dragging?.mode === 'resize' ? dragging.deltaMinutes : 0);
+                                    const left = xOf(start);
+                                    const barWidth = Math.max(SNAP_MINUTES, duration) * PX_PER_MINUTE;
+                                    return (
+                                        <div
+                                            key={booking.id}
+                                            onClick={e => e.stopPropagation()}
+                                            onPointerDown={e => startDrag(e, booking, rowIndex, 'move')}
+                                            onPointerMove={moveDrag}
+                                            onPointerUp={endDrag}
+                                            onPointerCancel={() => { dragRef.current = null; setDrag(null); }}
+                                            className={`absolute top-1 bottom-1 rounded-md border text-[11px] font-semibold px-1.5 flex items-center overflow-hidden whitespace-nowrap shadow ${STATUS_BARS[booking.status]} ${MOVABLE.includes(booking.status) ? 'cursor-grab' : 'cursor-pointer'} ${dragging ? 'opacity-80 ring-2 ring-white z-10' : ''}`}
+                                            style={{ left, width: barWidth, transform: dragging?.deltaRows ? `translateY(${dragging.deltaRows * ROW_HEIGHT}px)` : undefined }}
+                                            title={`${booking.guestName} · ${booking.guestCount} · ${formatTime(new Date(start))}–${formatTime(new Date(start + duration * MINUTE_MS))}`}
+                                        >
+                                            <span className="truncate">{formatTime(new Date(start))} {booking.guestName} ({booking.guestCount})</span>
+                                            {RESIZABLE.includes(booking.status) && (
+                                                <span
+                                                    onPointerDown={e => startDrag(e, booking, rowIndex, 'resize')}
+                                                    className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white/30 hover:bg-white/60"
+                                                />
+                                            )}
+                                        </div>
+                                    );
+                                })}
+
+                                {now > range.start && now < range.end && (
+                                    <div className="absolute top-0 bottom-0 w-0.5 bg-brand-red z-10 pointer-events-none" style={{ left: xOf(now) }} />
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default BookingTimeline;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { CancellationPolicy, CancellationReason } from '../types';
+import { useTranslation } from '../context/I18nContext';
+
+interface CancellationPolicyEditorProps {
+    policy: CancellationPolicy;
+    onChange: (policy: CancellationPolicy) => void;
+}
+
+const inputClass = 'w-full bg-brand-primary border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:border-brand-blue outline-none transition-colors';
+
+const NUMBER_FIELDS: { key: 'freeCancelHours' | 'lateCancelPenaltyPercent' | 'noShowAfterMinutes' | 'confirmWithinMinutes'; max?: number }[] = [
+    { key: 'freeCancelHours' },
+    { key: 'lateCancelPenaltyPercent', max: 100 },
+    { key: 'noShowAfterMinutes' },
+    { key: 'confirmWithinMinutes' }
+];
+
+const CancellationPolicyEditor: React.FC<CancellationPolicyEditorProps> = ({ policy, onChange }) => {
+    const { t } = useTranslation();
+
+    const updateReason = (index: number, changes: Partial<CancellationReason>) => {
+        onChange({ ...policy, reasons: policy.reasons.map((r, i) => i === index ? { ...r, ...changes } : r) });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {NUMBER_FIELDS.map(({ key, max }) => (
+                    <div key={key}>
+                        <label className="block text-sm font-medium text-gray-400 mb-1">{t(`cancellationPolicy.fields.${key}`)}</label>
+                        <input
+                            type="number"
+                            min={0}
+                            max={max}
+                            value={policy[key]}
+                            onChange={e => {
+                                const value = Math.max(0, parseInt(e.target.value) || 0);
+                                onChange({ ...policy, [key]: max !== undefined ? Math.min(max, value) : value });
+                            }}
+                            className={inputClass}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">{t('cancellationPolicy.fields.reasons')}</label>
+                <p className="text-xs text-gray-500 mb-2">{t('cancellationPolicy.reasonsHint')}</p>
+                <div className="space-y-2">
+                    {policy.reasons.map((reason, index) => (
+                        <div key={index} className="flex gap-2">
+                            <input type="text" value={reason.ru} placeholder="RU" onChange={e => updateReason(index, { ru: e.target.value })} className={inputClass} />
+                            <input type="text" value={reason.kz} placeholder="KZ" onChange={e => updateReason(index, { kz: e.target.value })} className={inputClass} />
+                            <button
+                                type="button"
+                                onClick={() => onChange({ ...policy, reasons: policy.reasons.filter((_, i) => i !== index) })}
+                                className="px-3 rounded-lg text-xs font-bold bg-brand-red/20 text-brand-red hover:bg-brand-red/30"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    onClick={() => onChange({ ...policy, reasons: [...policy.reasons, { ru: '', kz: '' }] })}
+                    className="mt-2 px-4 py-2 rounded-lg text-sm font-semibold border border-dashed border-gray-500 text-gray-300 hover:border-brand-blue hover:text-brand-blue transition-colors"
+                >
+                    + {t('cancellationPolicy.addReason')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CancellationPolicyEditor;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { CancellationPolicy } from '../types';
+import { useTranslation } from '../context/I18nContext';
+import { freeCancellationDeadline } from '../utils/cancellationPolicy';
+
+interface CancellationPolicySummaryProps {
+    policy: CancellationPolicy;
+    start: Date;
+    // Spell out what happens to a paid deposit
+    withDeposit?: boolean;
+    className?: string;
+}
+
+// The venue's rules in plain words, for the booking they apply to
+const CancellationPolicySummary: React.FC<CancellationPolicySummaryProps> = ({ policy, start, withDeposit = false, className }) => {
+    const { t } = useTranslation();
+    const freeUntil = freeCancellationDeadline(policy, start);
+    const isFreeNow = freeUntil.getTime() > Date.now();
+
+    return (
+        <div className={className}>
+            <p>
+                {isFreeNow
+                    ? t('cancellationPolicy.freeUntil', { date: freeUntil.toLocaleString('ru-RU', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' }) })
+                    : t('cancellationPolicy.freePeriodOver', { hours: policy.freeCancelHours })}
+            </p>
+            {withDeposit && (
+                <p>
+                    {policy.lateCancelPenaltyPercent > 0
+                        ? t('cancellationPolicy.latePenalty', { percent: policy.lateCancelPenaltyPercent })
+                        : t('cancellationPolicy.lateNoPenalty')}
+                </p>
+            )}
+            <p>
+                {withDeposit
+                    ? t('cancellationPolicy.noShowRuleDeposit', { minutes: policy.noShowAfterMinutes })
+                    : t('cancellationPolicy.noShowRule', { minutes: policy.noShowAfterMinutes })}
+            </p>
+        </div>
+    );
+};
+
+export default CancellationPolicySummary;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Booking, DepositStatus } from '../types';
+import { useTranslation } from '../context/I18nContext';
+import { formatMoney } from '../utils/deposit';
+
+const STATUS_CLASSES: Record<DepositStatus, string> = {
+    paid: 'bg-brand-green/20 text-brand-green',
+    refunded: 'bg-gray-600/40 text-gray-300',
+    partially_refunded: 'bg-brand-yellow/20 text-brand-yellow',
+    retained: 'bg-brand-yellow/20 text-brand-yellow'
+};
+
+// Nothing for bookings made without a prepayment
+const DepositBadge: React.FC<{ booking: Pick<Booking, 'depositAmount' | 'depositStatus'> }> = ({ booking }) => {
+    const { t } = useTranslation();
+    if (!booking.depositAmount || !booking.depositStatus) return null;
+
+    return (
+        <span className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_CLASSES[booking.depositStatus]}`}>
+            {t(`deposit.status.${booking.depositStatus}`, { amount: formatMoney(booking.depositAmount) })}
+        </span>
+    );
+};
+
+export default DepositBadge;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { getPaymentProvider } from '../services/payments';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+import { DepositQuote, formatMoney } from '../utils/deposit';
+import { CancellationPolicy } from '../types';
+import CancellationPolicySummary from './CancellationPolicySummary';
+
+interface DepositPaymentStepProps {
+    restaurantId: string;
+    quote: DepositQuote;
+    cancellationPolicy: CancellationPolicy;
+    dateTime: Date;
+    guestCount: number;
+    guestPhone: string;
+    onPaid: (paymentIntentId: string) => void;
+    onBack: () => void;
+}
+
+// Between the booking form and the booking itself: the booking is only created once this succeeds
+const DepositPaymentStep: React.FC<DepositPaymentStepProps> = ({ restaurantId, quote, cancellationPolicy, dateTime, guestCount, guestPhone, onPaid, onBack }) => {
+    const { t } = useTranslation();
+    const [paying, setPaying] = useState(false);
+    const [error, setError] = useState('');
+
+    const handlePay = async () => {
+        if (paying) return;
+        setError('');
+        setPaying(true);
+        try {
+            const intent = await api.payments.createIntent(restaurantId, {
+                amount: quote.amount,
+                dateTime: dateTime.toISOString(),
+                guestCount,
+                guestPhone
+            });
+            const provider = getPaymentProvider(intent.provider);
+            if (!provider) throw new Error(`Unknown payment provider: ${intent.provider}`);
+
+            const result = await provider.checkout(intent);
+            if (result.status !== 'succeeded' || !result.providerReference) {
+                setError(result.status === 'cancelled' ? t('deposit.paymentCancelled') : t('deposit.paymentDeclined'));
+                return;
+            }
+            await api.payments.confirm(intent.id, result.providerReference);
+            onPaid(intent.id);
+        } catch (err) {
+            console.error('Deposit payment failed:', err);
+            setError(describeApiError(err, t, t('deposit.paymentError')));
+        } finally {
+            setPaying(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-brand-accent p-4 rounded-lg border border-gray-600">
+                <p className="text-sm text-gray-400">{t('deposit.required')}</p>
+                <p className="text-3xl font-black text-brand-primary mt-1">{formatMoney(quote.amount)}</p>
+                {quote.rule.mode === 'per_person' && (
+                    <p className="text-xs text-gray-400 mt-1">{t('deposit.perPersonBreakdown', { amount: formatMoney(quote.rule.amount), count: guestCount })}</p>
+                )}
+            </div>
+            <CancellationPolicySummary policy={cancellationPolicy} start={dateTime} withDeposit className="text-xs text-gray-400 space-y-1" />
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            <div className="flex gap-3">
+                <button type="button" onClick={onBack} disabled={paying} className="flex-1 py-3 rounded-md bg-gray-600 text-white text-sm font-semibold hover:bg-gray-700 transition-colors disabled:opacity-50">
+                    {t('deposit.back')}
+                </button>
+                <button type="button" onClick={handlePay} disabled={paying} className="flex-1 py-3 rounded-md bg-brand-blue text-white text-sm font-semibold hover:bg-blue-600 transition-colors disabled:opacity-50">
+                    {paying ? t('deposit.paying') : t('deposit.pay', { amount: formatMoney(quote.amount) })}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default DepositPaymentStep;
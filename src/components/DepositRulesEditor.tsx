@@ -0,0 +1,116 @@
+import React from 'react';
+import { DepositMode, DepositPolicy, DepositRule } from '../types';
+import { useTranslation } from '../context/I18nContext';
+
+interface DepositRulesEditorProps {
+    policy: DepositPolicy;
+    onChange: (policy: DepositPolicy) => void;
+}
+
+// Monday first, values as Date.getDay()
+const WEEK = [1, 2, 3, 4, 5, 6, 0];
+// 5 January 2025 was a Sunday, so day d of that week has getDay() === d
+const weekdayLabel = (day: number, locale: string) =>
+    new Intl.DateTimeFormat(locale, { weekday: 'short' }).format(new Date(2025, 0, 5 + day));
+
+const inputClass = 'w-full bg-brand-primary border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:border-brand-blue outline-none transition-colors';
+
+const DepositRulesEditor: React.FC<DepositRulesEditorProps> = ({ policy, onChange }) => {
+    const { t, language } = useTranslation();
+    const locale = language === 'kz' ? 'kk-KZ' : 'ru-RU';
+
+    const updateRule = (id: string, changes: Partial<DepositRule>) => {
+        onChange({ ...policy, rules: policy.rules.map(r => r.id === id ? { ...r, ...changes } : r) });
+    };
+
+    const addRule = () => {
+        const rule: DepositRule = { id: `rule-${Date.now()}`, mode: 'per_person', amount: 5000 };
+        onChange({ ...policy, rules: [...policy.rules, rule] });
+    };
+
+    const removeRule = (id: string) => {
+        onChange({ ...policy, rules: policy.rules.filter(r => r.id !== id) });
+    };
+
+    const moveRule = (index: number, offset: number) => {
+        const rules = [...policy.rules];
+        const [rule] = rules.splice(index, 1);
+        rules.splice(index + offset, 0, rule);
+        onChange({ ...policy, rules });
+    };
+
+    const toggleWeekday = (rule: DepositRule, day: number) => {
+        const weekdays = rule.weekdays || [];
+        updateRule(rule.id, { weekdays: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day] });
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-xs text-gray-500">{t('deposit.rulesHint')}</p>
+
+            {policy.rules.map((rule, index) => (
+                <div key={rule.id} className="p-4 bg-black/20 rounded-xl border border-gray-700/50 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-bold text-white">{t('deposit.ruleTitle', { n: index + 1 })}</span>
+                        <div className="flex gap-1">
+                            <button type="button" disabled={index === 0} onClick={() => moveRule(index, -1)} className="px-2 py-1 text-xs rounded bg-gray-700 text-white disabled:opacity-30">↑</button>
+                            <button type="button" disabled={index === policy.rules.length - 1} onClick={() => moveRule(index, 1)} className="px-2 py-1 text-xs rounded bg-gray-700 text-white disabled:opacity-30">↓</button>
+                            <button type="button" onClick={() => removeRule(rule.id)} className="px-2 py-1 text-xs rounded bg-brand-red/20 text-brand-red hover:bg-brand-red/30">{t('deposit.removeRule')}</button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('deposit.mode')}</label>
+                            <select value={rule.mode} onChange={e => updateRule(rule.id, { mode: e.target.value as DepositMode })} className={inputClass}>
+                                <option value="per_person">{t('deposit.modes.per_person')}</option>
+                                <option value="flat">{t('deposit.modes.flat')}</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('deposit.amount')}</label>
+                            <input type="number" min={0} step={500} value={rule.amount} onChange={e => updateRule(rule.id, { amount: Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('deposit.fromTime')}</label>
+                            <input type="time" value={rule.fromTime || ''} onChange={e => updateRule(rule.id, { fromTime: e.target.value || undefined })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('deposit.toTime')}</label>
+                            <input type="time" value={rule.toTime || ''} onChange={e => updateRule(rule.id, { toTime: e.target.value || undefined })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('deposit.minGuests')}</label>
+                            <input type="number" min={0} value={rule.minGuests || ''} onChange={e => updateRule(rule.id, { minGuests: parseInt(e.target.value) || undefined })} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">{t('deposit.weekdays')}</label>
+                        <div className="flex flex-wrap gap-1">
+                            {WEEK.map(day => {
+                                const active = rule.weekdays?.includes(day);
+                                return (
+                                    <button
+                                        key={day}
+                                        type="button"
+                                        onClick={() => toggleWeekday(rule, day)}
+                                        className={`px-2.5 py-1 rounded-md text-xs font-semibold capitalize transition-colors ${active ? 'bg-brand-blue text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                    >
+                                        {weekdayLabel(day, locale)}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            <button type="button" onClick={addRule} className="px-4 py-2 rounded-lg text-sm font-semibold border border-dashed border-gray-500 text-gray-300 hover:border-brand-blue hover:text-brand-blue transition-colors">
+                + {t('deposit.addRule')}
+            </button>
+        </div>
+    );
+};
+
+export default DepositRulesEditor;
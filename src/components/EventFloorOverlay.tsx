@@ -0,0 +1,44 @@
+import React from 'react';
+import { Restaurant } from '../types';
+import { useTranslation } from '../context/I18nContext';
+import { eventTouchesFloor, eventsLaterToday, formatEventRange, isEventUnderway } from '../utils/events';
+
+interface EventFloorOverlayProps {
+    restaurant: Restaurant;
+    floorId: string;
+    // Staff see the event's name and headcount; guests only learn that the space is closed
+    showDetails?: boolean;
+}
+
+// Sits on top of the floor map, outside the pan/zoom layer, and never takes pointer events
+const EventFloorOverlay: React.FC<EventFloorOverlayProps> = ({ restaurant, floorId, showDetails = false }) => {
+    const { t } = useTranslation();
+    const events = eventsLaterToday(restaurant.events).filter(e => eventTouchesFloor(e, floorId, restaurant.layout));
+    if (events.length === 0) return null;
+
+    const closingNow = events.find(e => isEventUnderway(e) && (!floorId || e.floorIds.includes(floorId)));
+    const title = (name: string) => showDetails ? name : t('events.privateEvent');
+
+    return (
+        <>
+            {closingNow && (
+                <div className="absolute inset-0 z-[5] bg-purple-950/50 backdrop-blur-[1px] flex items-center justify-center pointer-events-none">
+                    <div className="text-center px-6 py-4 rounded-xl bg-black/50 border border-purple-400/40">
+                        <p className="text-lg font-bold text-purple-200">🎉 {title(closingNow.name)}</p>
+                        <p className="text-sm text-purple-300">{t('events.floorClosedUntil', { time: formatEventRange(closingNow) })}</p>
+                    </div>
+                </div>
+            )}
+            <div className="absolute top-3 left-3 z-10 space-y-1 pointer-events-none max-w-[70%]">
+                {events.filter(e => e !== closingNow).map(event => (
+                    <div key={event.id} className="px-3 py-1.5 rounded-lg bg-purple-900/80 border border-purple-400/40 text-xs text-purple-100 shadow-lg truncate">
+                        🎉 {title(event.name)} · {formatEventRange(event)}
+                        {showDetails && ` · ${t('events.headcountShort', { count: event.headcount })}`}
+                    </div>
+                ))}
+            </div>
+        </>
+    );
+};
+
+export default EventFloorOverlay;
@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EventBooking, Restaurant } from '../types';
+import { EventBookingPayload } from '../services/api';
+import { useData } from '../context/DataContext';
+import { useTranslation } from '../context/I18nContext';
+import { useToast } from '../context/ToastContext';
+import { describeApiError } from '../utils/apiErrors';
+import { eventTableIds, getTables } from '../utils/availability';
+import { formatLocalDate, formatPhoneNumber } from '../utils/helpers';
+import { formatEventRange } from '../utils/events';
+
+interface EventForm {
+    name: string;
+    date: string;
+    fromTime: string;
+    toTime: string;
+    floorIds: string[];
+    tableIds: string[];
+    headcount: number;
+    contactName: string;
+    contactPhone: string;
+    menuPackage: string;
+    notes: string;
+}
+
+const emptyForm = (): EventForm => ({
+    name: '',
+    date: formatLocalDate(new Date()),
+    fromTime: '18:00',
+    toTime: '23:00',
+    floorIds: [],
+    tableIds: [],
+    headcount: 20,
+    contactName: '',
+    contactPhone: '',
+    menuPackage: '',
+    notes: ''
+});
+
+const toForm = (event: EventBooking): EventForm => ({
+    name: event.name,
+    date: formatLocalDate(event.startsAt),
+    fromTime: event.startsAt.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }),
+    toTime: event.endsAt.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }),
+    floorIds: event.floorIds,
+    tableIds: event.tableIds,
+    headcount: event.headcount,
+    contactName: event.contactName || '',
+    contactPhone: event.contactPhone || '',
+    menuPackage: event.menuPackage || '',
+    notes: event.notes || ''
+});
+
+// An end time at or before the start means the event runs past midnight
+const toRange = (form: EventForm): { startsAt: Date; endsAt: Date } => {
+    const [year, month, day] = form.date.split('-').map(Number);
+    const [fh, fm] = form.fromTime.split(':').map(Number);
+    const [th, tm] = form.toTime.split(':').map(Number);
+    const startsAt = new Date(year, month - 1, day, fh, fm);
+    const endsAt = new Date(year, month - 1, day, th, tm);
+    if (endsAt <= startsAt) endsAt.setDate(endsAt.getDate() + 1);
+    return { startsAt, endsAt };
+};
+
+const inputClass = 'w-full bg-brand-primary border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:border-brand-blue outline-none transition-colors';
+
+const EventManager: React.FC<{ restaurant: Restaurant }> = ({ restaurant }) => {
+    const { saveEvent, cancelEvent, loadEvents } = useData();
+    const { t } = useTranslation();
+    const { showToast } = useToast();
+    const [form, setForm] = useState<EventForm | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        loadEvents(restaurant.id);
+    }, [restaurant.id, loadEvents]);
+
+    const events = useMemo(() => (restaurant.events || [])
+        .filter(e => e.status === 'confirmed')
+        .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime()), [restaurant.events]);
+
+    const tables = getTables(restaurant);
+    const floors = restaurant.floors || [];
+
+    const openForm = (event?: EventBooking) => {
+        setEditingId(event?.id || null);
+        setForm(event ? toForm(event) : emptyForm());
+    };
+
+    const update = (changes: Partial<EventForm>) => setForm(prev => prev ? { ...prev, ...changes } : prev);
+
+    const toggle = (list: string[], id: string) => list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form || saving) return;
+        if (!form.name.trim()) {
+            showToast(t('events.nameRequired'), 'error');
+            return;
+        }
+        if (form.floorIds.length === 0 && form.tableIds.length === 0) {
+            showToast(t('events.scopeRequired'), 'error');
+            return;
+        }
+
+        const { startsAt, endsAt } = toRange(form);
+        const payload: EventBookingPayload = {
+            name: form.name.trim(),
+            startsAt: startsAt.toISOString(),
+            endsAt: endsAt.toISOString(),
+            floorIds: form.floorIds,
+            tableIds: form.tableIds,
+            headcount: form.headcount,
+            contactName: form.contactName.trim() || undefined,
+            contactPhone: form.contactPhone || undefined,
+            menuPackage: form.menuPackage.trim() || undefined,
+            notes: form.notes.trim() || undefined
+        };
+
+        setSaving(true);
+        try {
+            await saveEvent(restaurant.id, payload, editingId || undefined);
+            showToast(t('events.saved'), 'success');
+            setForm(null);
+        } catch (error) {
+            console.error('Save event error:', error);
+            showToast(describeApiError(error, t, t('events.saveError')), 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCancel = async (event: EventBooking) => {
+        if (!window.confirm(t('events.cancelConfirm', { name: event.name }))) return;
+        try {
+            await cancelEvent(event);
+            showToast(t('events.cancelled'), 'success');
+        } catch (error) {
+            console.error('Cancel event error:', error);
+            showToast(describeApiError(error, t), 'error');
+        }
+    };
+
+    const scopeLabel = (event: EventBooking) => {
+        const floorNames = floors.filter(f => event.floorIds.includes(f.id)).map(f => f.name);
+        const tableLabels = tables.filter(tbl => event.tableIds.includes(tbl.id)).map(tbl => tbl.label);
+        return [...floorNames, ...(tableLabels.length ? [t('events.tablesList', { labels: tableLabels.join(', ') })] : [])].join(' · ');
+    };
+
+    return (
+        <div className="space-y-6 animate-fadeIn">
+            <div className="flex justify-between items-center bg-brand-primary p-4 rounded-xl border border-brand-accent/30 shadow-lg">
+                <div>
+                    <h2 className="text-xl font-bold text-white">{t('events.title')}</h2>
+                    <p className="text-sm text-gray-400">{t('events.subtitle')}</p>
+                </div>
+                {!form && (
+                    <button onClick={() => openForm()} className="bg-brand-blue text-white px-4 py-2 rounded-lg text-sm font-bold hover:brightness-110 transition-all">
+                        + {t('events.add')}
+                    </button>
+                )}
+            </div>
+
+            {form && (
+                <form onSubmit={handleSave} className="bg-brand-secondary p-4 rounded-xl border border-brand-accent/30 space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div className="sm:col-span-2">
+                            <label className="block text-xs text-gray-400 mb-1">{t('events.name')}</label>
+                            <input type="text" value={form.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('events.date')}</label>
+                            <input type="date" value={form.date} onChange={e => update({ date: e.target.value })} className={inputClass} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="block text-xs text-gray-400 mb-1">{t('events.from')}</label>
+                                <input type="time" value={form.fromTime} onChange={e => update({ fromTime: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-400 mb-1">{t('events.to')}</label>
+                                <input type="time" value={form.toTime} onChange={e => update({ toTime: e.target.value })} className={inputClass} />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('events.headcount')}</label>
+                            <input type="number" min={1} value={form.headcount} onChange={e => update({ headcount: Math.max(1, parseInt(e.target.value) || 1) })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('events.menuPackage')}</label>
+                            <input type="text" value={form.menuPackage} onChange={e => update({ menuPackage: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('events.contactName')}</label>
+                            <input type="text" value={form.contactName} onChange={e => update({ contactName: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('events.contactPhone')}</label>
+                            <input type="tel" value={form.contactPhone} placeholder="+7 (___) ___-__-__" onChange={e => update({ contactPhone: formatPhoneNumber(e.target.value) })} className={inputClass} />
+                        </div>
+                    </div>
+
+                    {floors.length > 0 && (
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">{t('events.floors')}</label>
+                            <div className="flex flex-wrap gap-2">
+                                {floors.map(f => (
+                                    <button
+                                        key={f.id}
+                                        type="button"
+                                        onClick={() => update({ floorIds: toggle(form.floorIds, f.id) })}
+                                        className={`px-3 py-1.5 rounded-lg text-sm font-semibold border transition-colors ${form.floorIds.includes(f.id) ? 'bg-purple-600 border-purple-500 text-white' : 'bg-brand-primary border-gray-600 text-gray-300 hover:border-gray-400'}`}
+                                    >
+                                        {f.name}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">{t('events.extraTables')}</label>
+                        <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto p-1">
+                            {tables.map(tbl => {
+                                const viaFloor = !!tbl.floorId && form.floorIds.includes(tbl.floorId);
+                                const selected = viaFloor || form.tableIds.includes(tbl.id);
+                                return (
+                                    <button
+                                        key={tbl.id}
+                                        type="button"
+                                        disabled={viaFloor}
+                                        onClick={() => update({ tableIds: toggle(form.tableIds, tbl.id) })}
+                                        className={`px-2 py-1 text-xs rounded-md font-semibold border transition-colors disabled:opacity-60 ${selected ? 'bg-purple-600 border-purple-500 text-white' : 'bg-brand-primary border-gray-600 text-gray-300 hover:border-gray-400'}`}
+                                    >
+                                        {tbl.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">{t('events.notes')}</label>
+                        <textarea value={form.notes} rows={2} onChange={e => update({ notes: e.target.value })} className={`${inputClass} resize-none`} />
+                    </div>
+
+                    <div className="flex gap-3">
+                        <button type="button" onClick={() => setForm(null)} className="flex-1 py-2.5 rounded-lg bg-gray-600 text-white text-sm font-semibold hover:bg-gray-700 transition-colors">
+                            {t('common.cancel')}
+                        </button>
+                        <button type="submit" disabled={saving} className="flex-1 py-2.5 rounded-lg bg-brand-blue text-white text-sm font-bold hover:brightness-110 disabled:opacity-50 transition-all">
+                            {saving ? t('common.saving') : t('common.save')}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {events.length > 0 ? events.map(event => (
+                    <div key={event.id} className="p-4 rounded-xl border border-purple-400/30 bg-purple-500/10 space-y-2">
+                        <div className="flex justify-between items-start gap-2">
+                            <div>
+                                <h4 className="font-bold text-lg text-purple-200">🎉 {event.name}</h4>
+                                <p className="text-sm text-white">
+                                    {event.startsAt.toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric' })} · {formatEventRange(event)}
+                                </p>
+                            </div>
+                            <span className="bg-purple-500/20 text-purple-200 px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap">
+                                {t('events.headcountShort', { count: event.headcount })}
+                            </span>
+                        </div>
+                        <p className="text-xs text-gray-300">
+                            {scopeLabel(event)} · {t('events.tablesHeld', { count: eventTableIds(event, restaurant.layout).length })}
+                        </p>
+                        {(event.contactName || event.contactPhone) && (
+                            <p className="text-xs text-gray-300">👤 {[event.contactName, event.contactPhone].filter(Boolean).join(', ')}</p>
+                        )}
+                        {event.menuPackage && <p className="text-xs text-gray-300">🍽 {event.menuPackage}</p>}
+                        {event.notes && <p className="text-xs text-gray-400 italic">"{event.notes}"</p>}
+                        <div className="flex gap-2 pt-2 border-t border-white/5">
+                            <button onClick={() => openForm(event)} className="flex-1 py-2 rounded-lg bg-white/10 text-white text-xs font-bold hover:bg-white/20 transition-colors">
+                                {t('events.edit')}
+                            </button>
+                            <button onClick={() => handleCancel(event)} className="px-4 py-2 bg-brand-red/10 text-brand-red border border-brand-red/30 rounded-lg text-xs font-bold hover:bg-brand-red hover:text-white transition-all">
+                                {t('common.cancel')}
+                            </button>
+                        </div>
+                    </div>
+                )) : (
+                    <p className="text-gray-500 text-center py-8 md:col-span-2">{t('events.empty')}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EventManager;
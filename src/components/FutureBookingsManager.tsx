@@ -1,11 +1,20 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useData } from '../context/DataContext';
 import { useTranslation } from '../context/I18nContext';
-import { Booking, BookingStatus } from '../types';
+import { useToast } from '../context/ToastContext';
+import { Booking, BookingStatus, TableElement } from '../types';
+import DepositBadge from './DepositBadge';
+import BookingTagIcons from './BookingTagIcons';
+import BookingTimeline from './BookingTimeline';
+import BookingHistoryModal from './BookingHistoryModal';
+import { getCancellationPolicy, isNoShow } from '../utils/cancellationPolicy';
+import { describeApiError } from '../utils/apiErrors';
 
 interface FutureBookingsManagerProps {
     restaurantId: string;
     onEditBooking?: (booking: Booking) => void;
+    // Click on a free spot of the timeline
+    onCreateBooking?: (table: TableElement, start: Date) => void;
 }
 
 const STATUS_ORDER: Record<string, number> = {
@@ -24,10 +33,13 @@ const STATUS_STYLES: Record<string, { bg: string; text: string; border: string;
     [BookingStatus.CANCELLED]: { bg: 'bg-red-500/15', text: 'text-red-400', border: 'border-red-500/30', label: 'cancelled' },
 };
 
-const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restaurantId, onEditBooking }) => {
-    const { getRestaurant, updateBookingStatus, loadBookings } = useData();
+const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restaurantId, onEditBooking, onCreateBooking }) => {
+    const { getRestaurant, updateBookingStatus, releaseTable, cancelBookingSeries, loadBookings } = useData();
     const { t } = useTranslation();
+    const { showToast } = useToast();
     const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+    const [layout, setLayout] = useState<'cards' | 'timeline'>('cards');
+    const [historyBooking, setHistoryBooking] = useState<Booking | null>(null);
 
     const restaurant = getRestaurant(restaurantId);
 
@@ -75,6 +87,31 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
         });
     };
 
+    const handleCancelSeries = async (seriesId: string) => {
+        if (!window.confirm(t('bookingSeries.cancelSeriesConfirm'))) return;
+        try {
+            await cancelBookingSeries(seriesId, t('admin.cancelledByAdmin'));
+            showToast(t('bookingSeries.seriesCancelled'), 'success');
+        } catch (error) {
+            console.error('Cancel series error:', error);
+            showToast(describeApiError(error, t), 'error');
+        }
+    };
+
+    const handleReleaseTable = async (booking: Booking) => {
+        try {
+            await releaseTable(booking);
+        } catch (error) {
+            console.error('Release table error:', error);
+            showToast(describeApiError(error, t), 'error');
+        }
+    };
+
+    const selectedDay = useMemo(() => {
+        const [year, month, day] = selectedDate.split('-').map(Number);
+        return new Date(year, month - 1, day);
+    }, [selectedDate]);
+
     if (!restaurant) return null;
 
     const isActionable = (status: string) =>
@@ -95,14 +132,35 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
                         onChange={(e) => setSelectedDate(e.target.value)}
                         className="bg-brand-accent text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:border-brand-blue outline-none transition-all w-full"
                     />
+                    <div className="flex bg-brand-secondary p-1 rounded-lg border border-brand-accent shrink-0">
+                        {(['cards', 'timeline'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setLayout(mode)}
+                                className={`px-3 py-1 text-xs font-semibold rounded-md whitespace-nowrap transition-all ${layout === mode ? 'bg-brand-blue text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'}`}
+                            >
+                                {t(`timeline.${mode}`)}
+                            </button>
+                        ))}
+                    </div>
                 </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {layout === 'timeline' && (
+                <BookingTimeline
+                    restaurant={restaurant}
+                    day={selectedDay}
+                    onCreateBooking={(table, start) => onCreateBooking?.(table, start)}
+                    onEditBooking={booking => onEditBooking?.(booking)}
+                />
+            )}
+
+            <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 ${layout === 'timeline' ? 'hidden' : ''}`}>
                 {filteredBookings.length > 0 ? (
                     filteredBookings.map(booking => {
                         const style = STATUS_STYLES[booking.status] || STATUS_STYLES[BookingStatus.DECLINED];
                         const isPast = booking.status === BookingStatus.CONFIRMED && new Date(booking.dateTime) < new Date();
+                        const noShow = isNoShow(getCancellationPolicy(restaurant), booking);
                         return (
                             <div key={booking.id} className={`flex flex-col justify-between gap-4 p-4 rounded-xl border transition-all hover:shadow-xl ${style.bg} ${style.border} group`}>
                                 <div className="space-y-3">
@@ -112,6 +170,15 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
                                                 <h4 className="font-bold text-lg text-brand-blue group-hover:text-brand-blue transition-colors">
                                                     {booking.guestName}
                                                 </h4>
+                                                <button
+                                                    onClick={() => setHistoryBooking(booking)}
+                                                    className="text-gray-400 hover:text-brand-blue transition-colors p-1"
+                                                    title={t('bookingHistory.title')}
+                                                >
+                                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                                                    </svg>
+                                                </button>
                                                 {onEditBooking && isActionable(booking.status) && (
                                                     <button
                                                         onClick={() => onEditBooking(booking)}
@@ -126,6 +193,7 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
                                                 )}
                                             </div>
                                             <p className="text-brand-blue font-mono font-medium">{booking.guestPhone}</p>
+                                            <BookingTagIcons tags={booking.tags} className="mt-1 text-base" />
                                         </div>
                                         <div className="flex flex-col items-end gap-1">
                                             <div className="bg-brand-blue/10 text-brand-blue px-3 py-1 rounded-full text-xs font-bold border border-brand-blue/20">
@@ -134,6 +202,12 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
                                             <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${style.text} ${style.bg} border ${style.border}`}>
                                                 {t(`futureBookings.status.${style.label}`)}
                                             </span>
+                                            <DepositBadge booking={booking} />
+                                            {booking.seriesId && (
+                                                <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-purple-500/20 text-purple-300 border border-purple-400/30">
+                                                    🔁 {t('bookingSeries.badge')}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
 
@@ -168,7 +242,7 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
 
                                     {isPast && (
                                         <div className="py-1 px-2 bg-brand-red text-white text-[10px] font-bold rounded inline-block animate-pulse uppercase">
-                                            {t('admin.late')}
+                                            {noShow ? t('cancellationPolicy.noShow') : t('admin.late')}
                                         </div>
                                     )}
 
@@ -197,7 +271,7 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
                                         )}
                                         {booking.status === BookingStatus.OCCUPIED && (
                                             <button
-                                                onClick={() => updateBookingStatus(booking.id, BookingStatus.COMPLETED)}
+                                                onClick={() => handleReleaseTable(booking)}
                                                 className="flex-1 bg-brand-blue text-white py-2.5 rounded-lg text-sm font-bold hover:brightness-110 active:scale-95 transition-all shadow-lg"
                                             >
                                                 {t('admin.freeTable')}
@@ -213,6 +287,15 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
                                         >
                                             {t('common.cancel')}
                                         </button>
+                                        {booking.seriesId && (
+                                            <button
+                                                onClick={() => handleCancelSeries(booking.seriesId!)}
+                                                className="px-3 py-2.5 bg-brand-red/10 text-brand-red border border-brand-red/30 rounded-lg text-xs font-bold hover:bg-brand-red hover:text-white transition-all"
+                                                title={t('bookingSeries.cancelSeriesConfirm')}
+                                            >
+                                                {t('bookingSeries.cancelSeries')}
+                                            </button>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -227,6 +310,10 @@ const FutureBookingsManager: React.FC<FutureBookingsManagerProps> = ({ restauran
                     </div>
                 )}
             </div>
+
+            {historyBooking && (
+                <BookingHistoryModal bookingId={historyBooking.id} guestName={historyBooking.guestName} onClose={() => setHistoryBooking(null)} />
+            )}
         </div>
     );
 };
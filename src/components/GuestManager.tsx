@@ -1,66 +1,86 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Guest, BookingStatus } from '../types';
-import { api } from '../services/api';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Guest, GuestHistoryEntry, GuestStats, BookingStatus, BookingTag } from '../types';
+import { api, isAbortError } from '../services/api';
 import { useTranslation } from '../context/I18nContext';
+import BookingTagIcons from './BookingTagIcons';
+import BookingTagPicker from './BookingTagPicker';
+import BookingHistoryModal from './BookingHistoryModal';
 
 const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
     const { t } = useTranslation();
     const [searchPhone, setSearchPhone] = useState('');
     const [guests, setGuests] = useState<Guest[]>([]);
     const [selectedGuest, setSelectedGuest] = useState<Guest | null>(null);
-    const [history, setHistory] = useState<any[]>([]);
-    const [stats, setStats] = useState<any>(null);
+    const [history, setHistory] = useState<GuestHistoryEntry[]>([]);
+    const [historyBookingId, setHistoryBookingId] = useState<string | null>(null);
+    const [stats, setStats] = useState<GuestStats | null>(null);
     const [internalComment, setInternalComment] = useState('');
+    const [tags, setTags] = useState<BookingTag[]>([]);
     const [loading, setLoading] = useState(false);
     const [saving, setSaving] = useState(false);
 
-    const handleSearch = useCallback(async (phone: string) => {
+    // Only the latest history request matters when the admin clicks through guests quickly
+    const historyRequest = useRef<AbortController | null>(null);
+
+    const handleSearch = useCallback(async (phone: string, signal: AbortSignal) => {
         setLoading(true);
         try {
-            const data = await api.guests.search(phone, restaurantId);
+            const data = await api.guests.search(phone, restaurantId, { signal });
             setGuests(data);
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Search guests error:', error);
         } finally {
-            setLoading(false);
+            if (!signal.aborted) setLoading(false);
         }
     }, []);
 
     useEffect(() => {
+        const controller = new AbortController();
         const timer = setTimeout(() => {
-            handleSearch(searchPhone);
+            handleSearch(searchPhone, controller.signal);
         }, 300);
-        return () => clearTimeout(timer);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
     }, [searchPhone, handleSearch]);
 
+    useEffect(() => () => historyRequest.current?.abort(), []);
+
     const selectGuest = async (guest: Guest) => {
         if (!guest || !guest.phone) return;
+        historyRequest.current?.abort();
+        const controller = new AbortController();
+        historyRequest.current = controller;
         setSelectedGuest(guest);
         setInternalComment(guest.internalComment || '');
+        setTags(guest.tags || []);
         setLoading(true);
         try {
-            const { history, stats } = await api.guests.getHistory(guest.phone, restaurantId);
+            const { history, stats } = await api.guests.getHistory(guest.phone, restaurantId, { signal: controller.signal });
             setHistory(history);
             setStats(stats);
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Get guest history error:', error);
         } finally {
-            setLoading(false);
+            if (!controller.signal.aborted) setLoading(false);
         }
     };
 
-    const handleSaveComment = async () => {
+    const saveGuest = async (changes: { internalComment?: string, tags?: BookingTag[] }, savedMessage: string) => {
         if (!selectedGuest) return;
         setSaving(true);
         try {
             const updated = await api.guests.update(selectedGuest.phone, restaurantId, {
-                internalComment,
+                ...changes,
                 name: selectedGuest.name,
                 email: selectedGuest.email
             });
             setSelectedGuest(updated);
             setGuests(prev => prev.map(g => g.phone === updated.phone ? updated : g));
-            alert(t('guestManager.commentSaved'));
+            alert(savedMessage);
         } catch (error) {
             console.error('Update guest error:', error);
             alert(t('guestManager.saveError'));
@@ -122,6 +142,7 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                                 >
                                     <div className="font-bold text-gray-400">{guest.name}</div>
                                     <div className="text-sm text-gray-500">{guest.phone}</div>
+                                    <BookingTagIcons tags={guest.tags} className="mt-1" />
                                     {guest.internalComment && (
                                         <div className="text-xs text-brand-blue mt-1 truncate italic">"{guest.internalComment}"</div>
                                     )}
@@ -157,7 +178,7 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                                 </div>
                                 <div className="bg-brand-accent/50 p-3 sm:p-4 rounded-xl border border-brand-accent/30 text-center min-w-[120px] sm:min-w-[150px] w-full sm:w-auto">
                                     <div className="text-sm text-gray-500 mb-1">{t('guestManager.totalBookings')}</div>
-                                    <div className="text-4xl font-bold text-gray-400">{stats?.total_bookings || 0}</div>
+                                    <div className="text-4xl font-bold text-gray-400">{stats?.totalBookings || 0}</div>
                                 </div>
                             </div>
 
@@ -173,11 +194,11 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                                 </div>
                                 <div className="bg-brand-accent/20 p-4 rounded-lg border border-brand-accent/10">
                                     <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">{t('guestManager.cancelledByAdmin')}</div>
-                                    <div className="text-2xl font-bold text-orange-400">{stats?.cancelled_by_admin || 0}</div>
+                                    <div className="text-2xl font-bold text-orange-400">{stats?.cancelledByAdmin || 0}</div>
                                 </div>
                                 <div className="bg-brand-accent/20 p-4 rounded-lg border border-brand-accent/10">
                                     <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">{t('guestManager.cancelledByGuest')}</div>
-                                    <div className="text-2xl font-bold text-brand-red">{stats?.cancelled_by_guest || 0}</div>
+                                    <div className="text-2xl font-bold text-brand-red">{stats?.cancelledByGuest || 0}</div>
                                 </div>
                             </div>
 
@@ -197,7 +218,7 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                                         className="w-full bg-brand-accent/30 p-4 rounded-xl border border-brand-accent/50 text-gray-400 placeholder-gray-500 focus:border-brand-blue outline-none transition-all resize-none min-h-[100px]"
                                     />
                                     <button
-                                        onClick={handleSaveComment}
+                                        onClick={() => saveGuest({ internalComment }, t('guestManager.commentSaved'))}
                                         disabled={saving || internalComment === (selectedGuest.internalComment || '')}
                                         className="absolute bottom-3 right-3 bg-brand-blue text-white px-4 py-2 rounded-lg text-sm font-bold shadow-lg hover:brightness-110 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                                     >
@@ -206,6 +227,20 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                                 </div>
                             </div>
 
+                            {/* Preferences */}
+                            <div className="space-y-3">
+                                <h3 className="text-lg font-semibold text-gray-400">{t('bookingTags.profileTitle')}</h3>
+                                <p className="text-xs text-gray-500">{t('bookingTags.profileHint')}</p>
+                                <BookingTagPicker value={tags} onChange={setTags} />
+                                <button
+                                    onClick={() => saveGuest({ tags }, t('bookingTags.profileSaved'))}
+                                    disabled={saving || [...tags].sort().join() === [...(selectedGuest.tags || [])].sort().join()}
+                                    className="bg-brand-blue text-white px-4 py-2 rounded-lg text-sm font-bold shadow-lg hover:brightness-110 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                                >
+                                    {saving ? t('common.saving') : t('common.save')}
+                                </button>
+                            </div>
+
                             {/* Booking History */}
                             <div className="space-y-4">
                                 <h3 className="text-lg font-semibold text-gray-400">{t('guestManager.bookingHistory')}</h3>
@@ -218,6 +253,7 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                                                     {b.restaurantName} • {t('guestManager.tableLabelAdmin')} {b.tableLabel || t('admin.tableNotAssigned')}
                                                     {b.assignedTo && <span className="ml-2 text-brand-blue">• {b.assignedTo}</span>}
                                                 </div>
+                                                <BookingTagIcons tags={b.tags} />
                                                 {(b.status === BookingStatus.CANCELLED || b.status === BookingStatus.DECLINED) && b.cancelReason && (
                                                     <div className="text-[10px] text-gray-400 bg-gray-400/10 px-2 py-1 rounded mt-2 inline-block border border-gray-400/20 italic">
                                                         {t('guestManager.reasonLabel')} {b.cancelReason || b.declineReason}{b.cancelComment ? ` (${b.cancelComment})` : ''}
@@ -229,8 +265,16 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                                                     </div>
                                                 )}
                                             </div>
-                                            <div className={`text-sm font-bold uppercase tracking-wider ${getStatusColor(b.status)}`}>
-                                                {b.status}
+                                            <div className="flex sm:flex-col items-center sm:items-end gap-3 sm:gap-1">
+                                                <div className={`text-sm font-bold uppercase tracking-wider ${getStatusColor(b.status)}`}>
+                                                    {b.status}
+                                                </div>
+                                                <button
+                                                    onClick={() => setHistoryBookingId(b.id)}
+                                                    className="text-xs text-gray-500 hover:text-brand-blue transition-colors"
+                                                >
+                                                    {t('bookingHistory.show')}
+                                                </button>
                                             </div>
                                         </div>
                                     )) : (
@@ -251,6 +295,10 @@ const GuestManager: React.FC<{ restaurantId: string }> = ({ restaurantId }) => {
                     )}
                 </div>
             </div>
+
+            {historyBookingId && (
+                <BookingHistoryModal bookingId={historyBookingId} guestName={selectedGuest?.name} onClose={() => setHistoryBookingId(null)} />
+            )}
         </div>
     );
 };
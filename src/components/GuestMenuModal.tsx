@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { useTranslation } from '../context/I18nContext';
-import { api } from '../services/api';
+import { api, isAbortError } from '../services/api';
 import { Dish } from '../types';
 
 interface Props {
@@ -79,9 +79,10 @@ const GuestMenuModal: React.FC<Props> = ({ restaurantId, onClose }) => {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
+        const controller = new AbortController();
         const fetchMenu = async () => {
             try {
-                const data = await api.menu.list(restaurantId);
+                const data = await api.menu.list(restaurantId, { signal: controller.signal });
                 const available = data.filter(d => d.isAvailable);
                 setDishes(available);
                 if (available.length > 0) {
@@ -89,12 +90,14 @@ const GuestMenuModal: React.FC<Props> = ({ restaurantId, onClose }) => {
                     setActiveCategory(firstCat);
                 }
             } catch (err) {
+                if (isAbortError(err)) return;
                 console.error('Failed to fetch menu', err);
             } finally {
-                setLoading(false);
+                if (!controller.signal.aborted) setLoading(false);
             }
         };
         fetchMenu();
+        return () => controller.abort();
     }, [restaurantId]);
 
     const categorizedDishes = useMemo(() => {
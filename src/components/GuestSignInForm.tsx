@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { useApp } from '../context/AppContext';
+import { useToast } from '../context/ToastContext';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+import { formatPhoneNumber } from '../utils/helpers';
+
+interface GuestSignInFormProps {
+    onSignedIn: () => void;
+    onClose?: () => void;
+}
+
+// Two steps: phone number, then the one-time code sent to it
+const GuestSignInForm: React.FC<GuestSignInFormProps> = ({ onSignedIn, onClose }) => {
+    const { t } = useTranslation();
+    const { showToast } = useToast();
+    const { loginGuest } = useApp();
+    const [phone, setPhone] = useState('');
+    const [code, setCode] = useState('');
+    const [isCodeSent, setIsCodeSent] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const requestCode = async () => {
+        if (loading) return;
+        setError('');
+        if (phone.replace(/\D/g, '').length !== 11) {
+            setError(t('guestAuth.invalidPhone'));
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const { devCode } = await api.auth.requestGuestCode(phone);
+            setIsCodeSent(true);
+            setCode('');
+            if (devCode) showToast(t('guestAuth.devCode', { code: devCode }), 'info');
+        } catch (err) {
+            console.error('Failed to request sign-in code:', err);
+            setError(describeApiError(err, t, t('guestAuth.sendError')));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isCodeSent) {
+            await requestCode();
+            return;
+        }
+        if (loading) return;
+        setError('');
+        setLoading(true);
+        const user = await loginGuest(phone, code.trim());
+        setLoading(false);
+        if (!user) {
+            setError(t('guestAuth.wrongCode'));
+            return;
+        }
+        onSignedIn();
+    };
+
+    const inputClass = 'w-full bg-brand-accent p-3 rounded-md border border-gray-600 text-gray-200 text-sm focus:border-brand-blue focus:ring-1 focus:ring-brand-blue outline-none transition-all';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <p className="text-sm text-gray-400">{isCodeSent ? t('guestAuth.codeSent', { phone }) : t('guestAuth.intro')}</p>
+            {isCodeSent ? (
+                <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={e => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    placeholder={t('guestAuth.codePlaceholder')}
+                    className={`${inputClass} tracking-[0.5em] text-center text-lg`}
+                    autoFocus
+                />
+            ) : (
+                <input
+                    type="tel"
+                    value={phone}
+                    onChange={e => setPhone(formatPhoneNumber(e.target.value))}
+                    placeholder="+7 (___) ___-__-__"
+                    className={inputClass}
+                    autoFocus
+                />
+            )}
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            {isCodeSent && (
+                <div className="flex justify-between text-xs">
+                    <button type="button" onClick={() => setIsCodeSent(false)} className="text-gray-400 hover:text-white">{t('guestAuth.changePhone')}</button>
+                    <button type="button" onClick={requestCode} disabled={loading} className="text-brand-blue hover:underline disabled:opacity-50">{t('guestAuth.resend')}</button>
+                </div>
+            )}
+            <div className="pt-2 flex gap-3">
+                {onClose && (
+                    <button type="button" onClick={onClose} className="flex-1 py-3 rounded-md bg-gray-600 text-white text-sm font-semibold hover:bg-gray-700 transition-colors">{t('common.cancel')}</button>
+                )}
+                <button
+                    type="submit"
+                    disabled={loading || (isCodeSent && code.length < 4)}
+                    className="flex-1 py-3 rounded-md bg-brand-blue text-white text-sm font-semibold hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                    {loading ? t('common.loading') : isCodeSent ? t('guestAuth.signIn') : t('guestAuth.sendCode')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default GuestSignInForm;
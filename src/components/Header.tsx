@@ -1,8 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
 import { useData } from '../context/DataContext';
 import { useTranslation } from '../context/I18nContext';
+import { isStaff } from '../utils/permissions';
+import RestaurantSwitcher from './RestaurantSwitcher';
+import GuestSignInForm from './GuestSignInForm';
 
 const Header: React.FC = () => {
     const { currentUser, selectedRestaurantId, logout, deselectRestaurant } = useApp();
@@ -10,7 +13,9 @@ const Header: React.FC = () => {
     const { t, language, setLanguage } = useTranslation();
     const navigate = useNavigate();
     const restaurant = selectedRestaurantId ? getRestaurant(selectedRestaurantId) : null;
-    const isStaffUser = currentUser?.role === 'ADMIN' || currentUser?.role === 'OWNER';
+    const isStaffUser = isStaff(currentUser);
+    const isSignedInGuest = currentUser?.role === 'GUEST' && !!currentUser.phone;
+    const [showSignIn, setShowSignIn] = useState(false);
 
     const handleLogout = () => {
         logout();
@@ -62,7 +67,9 @@ const Header: React.FC = () => {
                     {language}
                 </button>
 
-                {restaurant && (
+                {restaurant && isStaffUser && currentUser.restaurantIds.length > 1 ? (
+                    <RestaurantSwitcher />
+                ) : restaurant && (
                     <button
                         onClick={handleChangeRestaurant}
                         className="flex items-center px-3 py-1.5 text-xs md:text-sm font-semibold bg-transparent border border-[#4A4A4A] text-[#FAF9F6] rounded-md hover:border-[#E07A5F] hover:text-[#E07A5F] transition-all duration-300"
@@ -75,7 +82,16 @@ const Header: React.FC = () => {
                     </button>
                 )}
 
-                {isStaffUser ? (
+                {isSignedInGuest && (
+                    <button
+                        onClick={() => navigate('/my-bookings')}
+                        className="flex items-center px-3 py-1.5 text-xs md:text-sm font-semibold bg-transparent border border-[#4A4A4A] text-[#FAF9F6] rounded-md hover:border-[#E07A5F] hover:text-[#E07A5F] transition-all duration-300"
+                    >
+                        {t('myBookings.title')}
+                    </button>
+                )}
+
+                {isStaffUser || isSignedInGuest ? (
                     <button
                         onClick={handleLogout}
                         className="flex items-center px-3 py-1.5 text-xs md:text-sm font-semibold bg-transparent border border-[#4A4A4A] text-[#FAF9F6] rounded-md hover:border-red-400 hover:text-red-400 transition-all duration-300"
@@ -98,7 +114,25 @@ const Header: React.FC = () => {
                         <span className="ml-2 hidden sm:inline">{t('login.loginAsGuest')}</span>
                     </button>
                 )}
+
+                {!currentUser?.phone && !isStaffUser && (
+                    <button
+                        onClick={() => setShowSignIn(true)}
+                        className="flex items-center px-3 py-1.5 text-xs md:text-sm font-semibold bg-[#E07A5F] border border-[#E07A5F] text-white rounded-md hover:bg-transparent hover:text-[#E07A5F] transition-all duration-300"
+                    >
+                        {t('guestAuth.signInButton')}
+                    </button>
+                )}
             </div>
+
+            {showSignIn && (
+                <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-2 sm:p-4">
+                    <div className="bg-brand-secondary rounded-lg shadow-2xl p-6 w-full max-w-md m-auto">
+                        <h2 className="text-xl font-bold text-brand-primary mb-4">{t('guestAuth.title')}</h2>
+                        <GuestSignInForm onSignedIn={() => setShowSignIn(false)} onClose={() => setShowSignIn(false)} />
+                    </div>
+                </div>
+            )}
         </header>
     );
 };
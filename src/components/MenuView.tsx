@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { api } from '../services/api';
+import { api, isAbortError } from '../services/api';
 import { Dish } from '../types';
 import { useTranslation } from '../context/I18nContext';
 
@@ -29,20 +29,23 @@ export const MenuView: React.FC<MenuViewProps> = ({ restaurantId }) => {
 
     const categories = ['Закуски', 'Салаты', 'Супы', 'Горячее', 'Десерты', 'Напитки', 'Разное'];
 
-    const loadMenu = async () => {
+    const loadMenu = async (signal?: AbortSignal) => {
         setIsLoading(true);
         try {
-            const data = await api.menu.list(restaurantId);
+            const data = await api.menu.list(restaurantId, { signal });
             setDishes(data);
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Failed to load menu:', error);
         } finally {
-            setIsLoading(false);
+            if (!signal?.aborted) setIsLoading(false);
         }
     };
 
     useEffect(() => {
-        loadMenu();
+        const controller = new AbortController();
+        loadMenu(controller.signal);
+        return () => controller.abort();
     }, [restaurantId]);
 
     const openCreateModal = () => {
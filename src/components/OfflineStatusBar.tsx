@@ -0,0 +1,73 @@
+import React from 'react';
+import { useData } from '../context/DataContext';
+import { useTranslation } from '../context/I18nContext';
+import { MutationConflict } from '../services/mutationQueue';
+
+const CONFLICT_LABELS: Record<MutationConflict['mutation']['kind'], string> = {
+    status: 'offline.conflictStatus',
+    details: 'offline.conflictDetails',
+    create: 'offline.conflictCreate'
+};
+
+// Connection state of the admin console: offline banner, queued changes and
+// changes the server rejected on replay, each resolvable by the admin.
+const OfflineStatusBar: React.FC = () => {
+    const { isOnline, snapshotSavedAt, pendingMutationCount, mutationConflicts, dismissConflict, retryConflict, restaurants } = useData();
+    const { t } = useTranslation();
+
+    const guestNameFor = ({ mutation }: MutationConflict) => {
+        if (mutation.kind === 'create') return mutation.payload.guestName;
+        return restaurants.flatMap(r => r.bookings).find(b => b.id === mutation.bookingId)?.guestName || '';
+    };
+
+    const showBanner = !isOnline || !!snapshotSavedAt || pendingMutationCount > 0;
+    if (!showBanner && mutationConflicts.length === 0) return null;
+
+    return (
+        <div className="space-y-3">
+            {showBanner && (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 rounded-lg px-4 py-2 text-sm">
+                    {!isOnline && <span className="font-semibold">{t('offline.banner')}</span>}
+                    {snapshotSavedAt && (
+                        <span>{t('offline.snapshot', { time: snapshotSavedAt.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }) })}</span>
+                    )}
+                    {pendingMutationCount > 0 && (
+                        <span className="font-bold">{t('offline.pending', { count: pendingMutationCount })}</span>
+                    )}
+                </div>
+            )}
+
+            {mutationConflicts.length > 0 && (
+                <div className="bg-brand-red/10 border border-brand-red/30 rounded-lg p-4 space-y-3">
+                    <h3 className="font-bold text-brand-red">{t('offline.conflictsTitle')}</h3>
+                    {mutationConflicts.map(conflict => (
+                        <div key={conflict.id} className="flex flex-wrap items-center justify-between gap-3 bg-brand-primary/60 rounded-md px-3 py-2">
+                            <div className="text-sm min-w-0">
+                                <p className="text-white font-semibold">
+                                    {t(CONFLICT_LABELS[conflict.mutation.kind])}{guestNameFor(conflict) && ` — ${guestNameFor(conflict)}`}
+                                </p>
+                                <p className="text-gray-400 text-xs">{conflict.message}</p>
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                <button
+                                    onClick={() => dismissConflict(conflict.id)}
+                                    className="px-3 py-1.5 rounded text-xs font-bold bg-brand-accent/40 text-gray-100 hover:bg-brand-accent/60 transition-colors"
+                                >
+                                    {t('offline.keepServer')}
+                                </button>
+                                <button
+                                    onClick={() => retryConflict(conflict.id)}
+                                    className="px-3 py-1.5 rounded text-xs font-bold bg-brand-blue text-white hover:brightness-110 transition-all"
+                                >
+                                    {t('offline.retry')}
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OfflineStatusBar;
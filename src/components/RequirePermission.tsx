@@ -0,0 +1,24 @@
+import React, { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { UserRole } from '../types';
+import { Permission, hasPermission } from '../utils/permissions';
+import ForbiddenView from '../views/ForbiddenView';
+
+interface RequirePermissionProps {
+    role: UserRole | null | undefined;
+    permission: Permission;
+    // True while the session behind `role` is still being validated
+    isPending?: boolean;
+    // Where to send someone who is not signed in at all
+    loginPath: string;
+    children: ReactNode;
+}
+
+const RequirePermission: React.FC<RequirePermissionProps> = ({ role, permission, isPending = false, loginPath, children }) => {
+    if (isPending) return null;
+    if (!role) return <Navigate to={loginPath} replace />;
+    if (!hasPermission(role, permission)) return <ForbiddenView />;
+    return <>{children}</>;
+};
+
+export default RequirePermission;
@@ -1,7 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useData } from '../context/DataContext';
 import { useTranslation } from '../context/I18nContext';
-import { Restaurant } from '../types';
+import { RestaurantSettingsPayload } from '../services/api';
+import { DepositPolicy, Restaurant } from '../types';
+import DepositRulesEditor from './DepositRulesEditor';
+import CancellationPolicyEditor from './CancellationPolicyEditor';
+import { DEFAULT_CANCELLATION_POLICY } from '../utils/cancellationPolicy';
+
+const EMPTY_DEPOSIT_POLICY: DepositPolicy = { rules: [] };
 
 interface RestaurantSettingsProps {
     restaurant: Restaurant;
@@ -13,7 +19,7 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurant }) =
     const [isSaving, setIsSaving] = useState(false);
     const [success, setSuccess] = useState(false);
 
-    const [form, setForm] = useState({
+    const [form, setForm] = useState<RestaurantSettingsPayload>({
         name: restaurant.name || '',
         logoUrl: restaurant.logoUrl || '',
         photoUrl: restaurant.photoUrl || '',
@@ -23,7 +29,9 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurant }) =
         ageRestriction: restaurant.age_restriction || '',
         ageRestrictionKz: restaurant.age_restriction_kz || '',
         deposit: restaurant.deposit || '',
-        depositKz: restaurant.deposit_kz || ''
+        depositKz: restaurant.deposit_kz || '',
+        depositPolicy: restaurant.depositPolicy || EMPTY_DEPOSIT_POLICY,
+        cancellationPolicy: restaurant.cancellationPolicy || DEFAULT_CANCELLATION_POLICY
     });
 
     useEffect(() => {
@@ -37,7 +45,9 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurant }) =
             ageRestriction: restaurant.age_restriction || '',
             ageRestrictionKz: restaurant.age_restriction_kz || '',
             deposit: restaurant.deposit || '',
-            depositKz: restaurant.deposit_kz || ''
+            depositKz: restaurant.deposit_kz || '',
+            depositPolicy: restaurant.depositPolicy || EMPTY_DEPOSIT_POLICY,
+            cancellationPolicy: restaurant.cancellationPolicy || DEFAULT_CANCELLATION_POLICY
         });
     }, [restaurant]);
 
@@ -46,7 +56,11 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurant }) =
         setIsSaving(true);
         setSuccess(false);
         try {
-            await updateRestaurantSettings(restaurant.id, form as any);
+            // Blank rows left in the editor aren't offered to guests
+            const reasons = form.cancellationPolicy.reasons
+                .map(r => ({ ru: r.ru.trim(), kz: r.kz.trim() }))
+                .filter(r => r.ru);
+            await updateRestaurantSettings(restaurant.id, { ...form, cancellationPolicy: { ...form.cancellationPolicy, reasons } });
             setSuccess(true);
             setTimeout(() => setSuccess(false), 3000);
         } catch (err) {
@@ -191,6 +205,28 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurant }) =
                     </div>
                 </div>
 
+                <hr className="border-gray-700/50" />
+
+                {/* Prepayment Section */}
+                <div>
+                    <h3 className="text-lg font-bold text-white mb-4">{t('deposit.settingsTitle')}</h3>
+                    <DepositRulesEditor
+                        policy={form.depositPolicy}
+                        onChange={depositPolicy => setForm({...form, depositPolicy})}
+                    />
+                </div>
+
+                <hr className="border-gray-700/50" />
+
+                {/* Cancellation Section */}
+                <div>
+                    <h3 className="text-lg font-bold text-white mb-4">{t('cancellationPolicy.settingsTitle')}</h3>
+                    <CancellationPolicyEditor
+                        policy={form.cancellationPolicy}
+                        onChange={cancellationPolicy => setForm({...form, cancellationPolicy})}
+                    />
+                </div>
+
                 <div className="flex justify-end pt-4">
                     <button 
                         type="submit" 
@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useApp } from '../context/AppContext';
+import { useData } from '../context/DataContext';
+import { useTranslation } from '../context/I18nContext';
+import { BookingStatus, Restaurant } from '../types';
+
+const pendingCount = (restaurant: Restaurant | undefined) =>
+    restaurant ? restaurant.bookings.filter(b => b.status === BookingStatus.PENDING).length : 0;
+
+const PendingBadge: React.FC<{ count: number }> = ({ count }) => {
+    if (count === 0) return null;
+    return (
+        <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-[#E07A5F] text-white text-[11px] font-bold flex items-center justify-center">
+            {count}
+        </span>
+    );
+};
+
+// Lets staff with several venues jump between them without going back to the list.
+// Tracks every venue of the account so DataContext keeps their bookings live for the badges.
+const RestaurantSwitcher: React.FC = () => {
+    const { currentUser, selectedRestaurantId, deselectRestaurant } = useApp();
+    const { getRestaurant, trackRestaurants } = useData();
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const restaurantIds = currentUser?.restaurantIds || [];
+    const restaurantIdsKey = restaurantIds.join(',');
+
+    useEffect(() => trackRestaurants(restaurantIdsKey.split(',').filter(Boolean)), [restaurantIdsKey, trackRestaurants]);
+    const otherPending = restaurantIds
+        .filter(id => id !== selectedRestaurantId)
+        .reduce((sum, id) => sum + pendingCount(getRestaurant(id)), 0);
+
+    const handleSelect = (restaurantId: string) => {
+        setIsOpen(false);
+        if (restaurantId !== selectedRestaurantId) {
+            navigate(`/restaurant/${restaurantId}`);
+        }
+    };
+
+    const handleShowAll = () => {
+        setIsOpen(false);
+        deselectRestaurant();
+        navigate('/');
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="flex items-center gap-2 px-3 py-1.5 text-xs md:text-sm font-semibold bg-transparent border border-[#4A4A4A] text-[#FAF9F6] rounded-md hover:border-[#E07A5F] hover:text-[#E07A5F] transition-all duration-300"
+                title={t('app.switchRestaurant')}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0v-4m0 4h5m0 0v-4m0 4H8m2-8l4-4 4 4m0 0l-4 4-4-4z" />
+                </svg>
+                <span className="hidden lg:inline">{t('app.switchRestaurant')}</span>
+                <PendingBadge count={otherPending} />
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-64 bg-[#1A1A1A] border border-[#2A2A2A] rounded-md shadow-xl py-1 z-50">
+                    {restaurantIds.map(id => {
+                        const restaurant = getRestaurant(id);
+                        const isCurrent = id === selectedRestaurantId;
+                        return (
+                            <button
+                                key={id}
+                                onClick={() => handleSelect(id)}
+                                className={`w-full flex items-center justify-between gap-2 px-4 py-2 text-sm text-left transition-colors ${isCurrent ? 'text-[#E07A5F] font-bold' : 'text-[#FAF9F6] hover:bg-[#2A2A2A]'}`}
+                            >
+                                <span className="truncate">{restaurant?.name || id}</span>
+                                <PendingBadge count={pendingCount(restaurant)} />
+                            </button>
+                        );
+                    })}
+                    <div className="border-t border-[#2A2A2A] my-1" />
+                    <button
+                        onClick={handleShowAll}
+                        className="w-full px-4 py-2 text-sm text-left text-[#A3A3A3] hover:bg-[#2A2A2A] hover:text-[#FAF9F6] transition-colors"
+                    >
+                        {t('app.allRestaurants')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RestaurantSwitcher;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Restaurant, TableElement, TableStateOverrideKind } from '../types';
+import { useData } from '../context/DataContext';
+import { useToast } from '../context/ToastContext';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+import { formatTime } from '../utils/availability';
+import { CLEANING_MINUTES, MANUAL_TABLE_STATES, TABLE_STATE_ICONS, getTableSnapshot } from '../utils/tableStates';
+
+interface TableStateDialogProps {
+    table: TableElement;
+    restaurant: Restaurant;
+    onClose: () => void;
+    // Opens the booking form for this table regardless of its state
+    onOpenBooking: () => void;
+}
+
+const inputClass = 'w-full bg-brand-accent p-2 rounded-md border border-gray-600 text-gray-200 text-sm focus:border-brand-blue outline-none transition-all';
+
+// "HH:MM" later than now; a time already past today means tomorrow
+const nextOccurrence = (time: string): Date => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const moment = new Date();
+    moment.setHours(hours, minutes, 0, 0);
+    if (moment.getTime() <= Date.now()) moment.setDate(moment.getDate() + 1);
+    return moment;
+};
+
+const TableStateDialog: React.FC<TableStateDialogProps> = ({ table, restaurant, onClose, onOpenBooking }) => {
+    const { setTableState, clearTableState } = useData();
+    const { showToast } = useToast();
+    const { t } = useTranslation();
+    const { override } = getTableSnapshot(restaurant, table.id);
+
+    const [state, setState] = useState<TableStateOverrideKind>('cleaning');
+    const [note, setNote] = useState('');
+    const [until, setUntil] = useState(formatTime(new Date(Date.now() + CLEANING_MINUTES * 60000)));
+    const [saving, setSaving] = useState(false);
+
+    const pickState = (next: TableStateOverrideKind) => {
+        setState(next);
+        // Cleaning is short by nature; blocks and holds usually last until someone lifts them
+        setUntil(next === 'cleaning' ? formatTime(new Date(Date.now() + CLEANING_MINUTES * 60000)) : '');
+    };
+
+    const run = async (action: () => Promise<void>, successMessage: string) => {
+        setSaving(true);
+        try {
+            await action();
+            showToast(successMessage, 'success');
+            onClose();
+        } catch (error) {
+            console.error('Failed to change table state:', error);
+            showToast(describeApiError(error, t), 'error');
+            setSaving(false);
+        }
+    };
+
+    const handleSave = () => run(
+        () => setTableState(restaurant.id, table.id, {
+            state,
+            until: until ? nextOccurrence(until).toISOString() : null,
+            note: note.trim() || undefined
+        }),
+        t('tableStates.saved', { table: table.label, state: t(`tableStates.states.${state}`) })
+    );
+
+    const handleClear = () => run(
+        () => clearTableState(restaurant.id, table.id),
+        t('tableStates.cleared', { table: table.label })
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 transition-opacity duration-300 p-2 sm:p-4" onClick={onClose}>
+            <div className="bg-brand-secondary rounded-xl shadow-2xl p-6 w-full max-w-sm m-auto border border-brand-accent/50" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold text-brand-primary mb-4">{t('tableStates.title', { table: table.label })}</h2>
+
+                {override ? (
+                    <div className="space-y-2">
+                        <p className="text-lg font-bold text-gray-200">
+                            {TABLE_STATE_ICONS[override.state]} {t(`tableStates.states.${override.state}`)}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                            {override.until ? t('tableStates.until', { time: formatTime(override.until) }) : t('tableStates.untilCleared')}
+                            {override.setBy && ` · ${override.setBy}`}
+                        </p>
+                        {override.note && <p className="text-sm italic text-gray-300">"{override.note}"</p>}
+                        <button
+                            onClick={handleClear}
+                            disabled={saving}
+                            className="w-full mt-2 bg-brand-green text-white py-2.5 rounded-lg text-sm font-bold hover:brightness-110 transition-all disabled:opacity-50"
+                        >
+                            {t('tableStates.markFree')}
+                        </button>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="grid grid-cols-3 gap-2">
+                            {MANUAL_TABLE_STATES.map(kind => (
+                                <button
+                                    key={kind}
+                                    onClick={() => pickState(kind)}
+                                    className={`py-2 rounded-lg text-xs font-bold border transition-all ${state === kind ? 'bg-brand-blue text-white border-brand-blue' : 'bg-brand-accent text-gray-300 border-gray-600 hover:border-brand-blue'}`}
+                                >
+                                    <span className="block text-lg">{TABLE_STATE_ICONS[kind]}</span>
+                                    {t(`tableStates.states.${kind}`)}
+                                </button>
+                            ))}
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500 block mb-1">{t('tableStates.untilLabel')}</label>
+                            <input type="time" value={until} onChange={e => setUntil(e.target.value)} className={inputClass} />
+                        </div>
+                        <input
+                            type="text"
+                            value={note}
+                            onChange={e => setNote(e.target.value)}
+                            placeholder={state === 'held' ? t('tableStates.heldNotePlaceholder') : t('tableStates.notePlaceholder')}
+                            className={inputClass}
+                        />
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="w-full bg-brand-blue text-white py-2.5 rounded-lg text-sm font-bold hover:brightness-110 transition-all disabled:opacity-50"
+                        >
+                            {t('tableStates.apply')}
+                        </button>
+                    </div>
+                )}
+
+                <div className="flex justify-between items-center mt-5 pt-3 border-t border-brand-accent/30">
+                    <button onClick={onOpenBooking} disabled={saving} className="text-sm text-brand-blue hover:underline disabled:opacity-50">
+                        {t('walkIn.fullBooking')}
+                    </button>
+                    <button onClick={onClose} className="text-sm text-gray-400 hover:text-gray-200">
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TableStateDialog;
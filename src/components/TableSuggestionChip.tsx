@@ -0,0 +1,42 @@
+import React from 'react';
+import { TableElement } from '../types';
+import { TableSuggestion } from '../utils/tableOptimizer';
+import { useTranslation } from '../context/I18nContext';
+
+interface TableSuggestionChipProps {
+    suggestion: TableSuggestion | null;
+    tables: TableElement[];
+    selectedTableIds: string[];
+    onAccept: (tableIds: string[]) => void;
+}
+
+// One-tap "seat them here" above the manual table picker
+const TableSuggestionChip: React.FC<TableSuggestionChipProps> = ({ suggestion, tables, selectedTableIds, onAccept }) => {
+    const { t } = useTranslation();
+
+    if (!suggestion) {
+        return <p className="text-[11px] text-gray-400 mb-2">{t('tableSuggestion.none')}</p>;
+    }
+
+    const labels = suggestion.tableIds.map(id => tables.find(tbl => tbl.id === id)?.label || '').join(' + ');
+    const isApplied = suggestion.tableIds.length === selectedTableIds.length
+        && suggestion.tableIds.every(id => selectedTableIds.includes(id));
+
+    return (
+        <div className="flex items-center justify-between gap-2 mb-2 px-2 py-1.5 rounded-md bg-brand-blue/10 border border-brand-blue/40">
+            <span className="text-xs text-brand-blue font-medium">
+                {t('tableSuggestion.title', { labels, seats: suggestion.seats })}
+            </span>
+            <button
+                type="button"
+                onClick={() => onAccept(suggestion.tableIds)}
+                disabled={isApplied}
+                className="shrink-0 px-2 py-1 text-xs rounded-md font-semibold bg-brand-blue text-white disabled:opacity-50 disabled:cursor-default"
+            >
+                {isApplied ? t('tableSuggestion.applied') : t('tableSuggestion.accept')}
+            </button>
+        </div>
+    );
+};
+
+export default TableSuggestionChip;
@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { StaffMember, StaffRole } from '../types';
+import { api, isAbortError } from '../services/api';
+import { useApp } from '../context/AppContext';
+import { useData } from '../context/DataContext';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+
+// Owners hand out these roles; ownership itself is not transferable from the app
+const ASSIGNABLE_ROLES: StaffRole[] = ['HOST', 'ADMIN', 'MANAGER'];
+
+const TeamManager: React.FC = () => {
+    const { t } = useTranslation();
+    const { currentUser } = useApp();
+    const { getRestaurant } = useData();
+    const ownedRestaurantIds = currentUser?.restaurantIds || [];
+
+    const [staff, setStaff] = useState<StaffMember[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Modal state — editingMember is null when inviting someone new
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+
+    // Form state
+    const [email, setEmail] = useState('');
+    const [managerName, setManagerName] = useState('');
+    const [role, setRole] = useState<StaffRole>('ADMIN');
+    const [restaurantIds, setRestaurantIds] = useState<string[]>([]);
+
+    const loadStaff = useCallback(async (signal?: AbortSignal) => {
+        setIsLoading(true);
+        try {
+            const data = await api.staff.list({ signal });
+            setStaff(data.filter(member => member.role !== 'OWNER'));
+        } catch (error) {
+            if (isAbortError(error)) return;
+            console.error('Failed to load staff:', error);
+            alert(describeApiError(error, t, t('team.loadError')));
+        } finally {
+            if (!signal?.aborted) setIsLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadStaff(controller.signal);
+        return () => controller.abort();
+    }, []);
+
+    const openInviteModal = (restaurantId?: string) => {
+        setEditingMember(null);
+        setEmail('');
+        setManagerName('');
+        setRole('ADMIN');
+        setRestaurantIds(restaurantId ? [restaurantId] : []);
+        setIsModalOpen(true);
+    };
+
+    const openEditModal = (member: StaffMember) => {
+        setEditingMember(member);
+        setEmail(member.email);
+        setManagerName(member.managerName || '');
+        setRole(member.role);
+        setRestaurantIds(member.restaurantIds);
+        setIsModalOpen(true);
+    };
+
+    const toggleRestaurant = (restaurantId: string) => {
+        setRestaurantIds(prev => prev.includes(restaurantId)
+            ? prev.filter(id => id !== restaurantId)
+            : [...prev, restaurantId]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (restaurantIds.length === 0) {
+            alert(t('team.selectRestaurantError'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const payload = { managerName: managerName.trim() || undefined, role, restaurantIds };
+            if (editingMember) {
+                const updated = await api.staff.update(editingMember.id, payload);
+                setStaff(prev => prev.map(m => m.id === updated.id ? updated : m));
+            } else {
+                const invited = await api.staff.invite({ ...payload, email: email.trim() });
+                setStaff(prev => [...prev, invited]);
+            }
+            setIsModalOpen(false);
+        } catch (error) {
+            console.error('Failed to save staff member:', error);
+            alert(t('team.saveError'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleResetPassword = async (member: StaffMember) => {
+        if (!window.confirm(t('team.confirmReset', { email: member.email }))) return;
+
+        try {
+            await api.staff.resetPassword(member.id);
+            alert(t('team.resetSent'));
+        } catch (error) {
+            console.error('Failed to reset password:', error);
+            alert(t('team.resetError'));
+        }
+    };
+
+    const handleRevoke = async (member: StaffMember) => {
+        if (!window.confirm(t('team.confirmRevoke', { name: member.managerName || member.email }))) return;
+
+        try {
+            await api.staff.revoke(member.id);
+            setStaff(prev => prev.filter(m => m.id !== member.id));
+        } catch (error) {
+            console.error('Failed to revoke access:', error);
+            alert(t('team.revokeError'));
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-6 p-4 bg-brand-secondary/35 rounded-lg border border-brand-accent/20 min-h-[calc(100vh-140px)]">
+            <div className="flex justify-between items-center border-b border-brand-accent/30 pb-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-brand-primary tracking-wide">{t('team.title')}</h2>
+                    <p className="text-xs text-gray-400 mt-1">{t('team.subtitle')}</p>
+                </div>
+                <button
+                    onClick={() => openInviteModal()}
+                    className="bg-brand-blue hover:bg-blue-600 text-white font-semibold px-4 py-2.5 rounded-lg shadow-lg hover:shadow-blue-500/20 transition-all flex items-center gap-2 text-sm"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+                    </svg>
+                    {t('team.invite')}
+                </button>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center items-center py-20">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-brand-blue"></div>
+                </div>
+            ) : (
+                <div className="flex flex-col gap-8">
+                    {ownedRestaurantIds.map(restaurantId => {
+                        const members = staff.filter(m => m.restaurantIds.includes(restaurantId));
+                        return (
+                            <div key={restaurantId} className="flex flex-col gap-3">
+                                <h3 className="text-lg font-bold text-brand-accent border-b border-brand-accent/10 pb-1.5 pl-1 flex items-center gap-2">
+                                    <span className="inline-block w-2.5 h-2.5 rounded-full bg-brand-accent"></span>
+                                    {getRestaurant(restaurantId)?.name || restaurantId}
+                                    <span className="text-xs font-normal text-gray-400 bg-brand-primary/60 px-2 py-0.5 rounded-full ml-2">
+                                        {members.length}
+                                    </span>
+                                </h3>
+                                {members.length === 0 ? (
+                                    <button
+                                        onClick={() => openInviteModal(restaurantId)}
+                                        className="text-sm text-gray-400 py-4 rounded-xl border border-dashed border-brand-accent/30 hover:border-brand-blue/40 hover:text-gray-200 transition-colors"
+                                    >
+                                        {t('team.noStaff')}
+                                    </button>
+                                ) : (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                                        {members.map(member => (
+                                            <div key={member.id} className="bg-brand-primary/80 rounded-xl border border-brand-accent/20 p-4 flex flex-col gap-3">
+                                                <div className="flex justify-between items-start gap-2">
+                                                    <div className="min-w-0">
+                                                        <p className="font-bold text-white truncate">{member.managerName || member.email}</p>
+                                                        {member.managerName && <p className="text-xs text-gray-400 truncate">{member.email}</p>}
+                                                    </div>
+                                                    <span className="text-[10px] font-bold uppercase tracking-wider bg-brand-blue/20 text-brand-blue px-2 py-1 rounded whitespace-nowrap">
+                                                        {t(`team.roles.${member.role}`)}
+                                                    </span>
+                                                </div>
+                                                <p className="text-[11px] text-gray-400">
+                                                    {member.status === 'invited'
+                                                        ? t('team.invited')
+                                                        : member.lastLoginAt && t('team.lastLogin', { date: member.lastLoginAt.toLocaleDateString('ru-RU') })}
+                                                </p>
+                                                <div className="flex gap-2 border-t border-brand-accent/10 pt-3 mt-auto">
+                                                    <button
+                                                        onClick={() => openEditModal(member)}
+                                                        className="flex-1 bg-brand-accent/40 hover:bg-brand-accent/60 text-gray-100 hover:text-white border border-brand-accent/20 font-medium py-1.5 rounded text-xs transition-colors"
+                                                    >
+                                                        {t('team.edit')}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleResetPassword(member)}
+                                                        className="flex-1 bg-brand-accent/40 hover:bg-brand-accent/60 text-gray-100 hover:text-white border border-brand-accent/20 font-medium py-1.5 rounded text-xs transition-colors"
+                                                    >
+                                                        {t('team.resetPassword')}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleRevoke(member)}
+                                                        className="bg-brand-red/10 hover:bg-brand-red/20 text-brand-red border border-brand-red/30 hover:border-brand-red/50 px-2 py-1.5 rounded text-xs transition-all"
+                                                        title={t('team.revoke')}
+                                                    >
+                                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                                                        </svg>
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* INVITE / EDIT MODAL */}
+            {isModalOpen && (
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+                    <div className="bg-brand-primary border border-brand-accent/40 rounded-2xl w-full max-w-lg overflow-hidden shadow-2xl flex flex-col">
+                        <div className="flex justify-between items-center p-4 border-b border-brand-accent/20 bg-brand-secondary/40">
+                            <h3 className="font-bold text-white text-lg">
+                                {editingMember ? t('team.editTitle') : t('team.inviteTitle')}
+                            </h3>
+                            <button
+                                onClick={() => setIsModalOpen(false)}
+                                className="text-gray-400 hover:text-white text-xl transition-colors"
+                            >
+                                &times;
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto max-h-[80vh]">
+                            <div>
+                                <label className="block text-xs text-gray-400 mb-1">{t('team.email')} *</label>
+                                <input
+                                    type="email"
+                                    required
+                                    disabled={!!editingMember}
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    className="w-full bg-[#1a1c23] border border-brand-accent/30 rounded-lg p-2.5 text-white text-sm focus:border-brand-blue focus:outline-none disabled:opacity-60"
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-xs text-gray-400 mb-1">{t('team.managerName')}</label>
+                                    <input
+                                        type="text"
+                                        value={managerName}
+                                        onChange={(e) => setManagerName(e.target.value)}
+                                        className="w-full bg-[#1a1c23] border border-brand-accent/30 rounded-lg p-2.5 text-white text-sm focus:border-brand-blue focus:outline-none"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-400 mb-1">{t('team.role')}</label>
+                                    <select
+                                        value={role}
+                                        onChange={(e) => setRole(e.target.value as StaffRole)}
+                                        className="w-full bg-[#1a1c23] border border-brand-accent/30 rounded-lg p-2.5 text-white text-sm focus:border-brand-blue focus:outline-none"
+                                    >
+                                        {ASSIGNABLE_ROLES.map(r => (
+                                            <option key={r} value={r}>{t(`team.roles.${r}`)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs text-gray-400 mb-1">{t('team.restaurants')}</label>
+                                <div className="flex flex-col gap-2 border border-brand-accent/20 p-3 rounded-lg bg-brand-secondary/20">
+                                    {ownedRestaurantIds.map(restaurantId => (
+                                        <label key={restaurantId} className="flex items-center gap-2 text-sm text-white cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={restaurantIds.includes(restaurantId)}
+                                                onChange={() => toggleRestaurant(restaurantId)}
+                                                className="accent-brand-blue"
+                                            />
+                                            {getRestaurant(restaurantId)?.name || restaurantId}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="flex gap-3 pt-2">
+                                <button
+                                    type="button"
+                                    onClick={() => setIsModalOpen(false)}
+                                    className="flex-1 bg-brand-accent/40 hover:bg-brand-accent/60 text-gray-100 font-medium py-2.5 rounded-lg text-sm transition-colors"
+                                >
+                                    {t('common.cancel')}
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isSubmitting}
+                                    className="flex-1 bg-brand-blue hover:bg-blue-600 text-white font-semibold py-2.5 rounded-lg text-sm transition-colors disabled:opacity-60"
+                                >
+                                    {isSubmitting ? t('common.saving') : editingMember ? t('common.save') : t('team.sendInvite')}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TeamManager;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { subscribeToPush } from '../services/pushService';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+import { formatPhoneNumber } from '../utils/helpers';
+
+interface WaitlistJoinFormProps {
+    restaurantId: string;
+    initialDate: string; // YYYY-MM-DD
+    initialGuestCount?: number;
+    initialName?: string;
+    initialPhone?: string;
+    onClose: () => void;
+}
+
+// Shown to guests instead of a dead end when nothing is free on the day they want
+const WaitlistJoinForm: React.FC<WaitlistJoinFormProps> = ({ restaurantId, initialDate, initialGuestCount = 2, initialName = '', initialPhone = '', onClose }) => {
+    const { t } = useTranslation();
+    const [guestName, setGuestName] = useState(initialName);
+    const [guestPhone, setGuestPhone] = useState(initialPhone);
+    const [guestCount, setGuestCount] = useState(initialGuestCount);
+    const [date, setDate] = useState(initialDate);
+    const [windowStart, setWindowStart] = useState('18:00');
+    const [windowEnd, setWindowEnd] = useState('21:00');
+    const [wantsPush, setWantsPush] = useState(true);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [isJoined, setIsJoined] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (loading) return;
+        setError('');
+
+        if (!guestName.trim() || guestPhone.replace(/\D/g, '').length !== 11) {
+            setError(t('waitlist.fillNameAndPhone'));
+            return;
+        }
+
+        setLoading(true);
+        try {
+            // Without a push subscription the server falls back to an SMS to the phone number
+            const hasPush = wantsPush && await subscribeToPush('GUEST', restaurantId, guestPhone);
+            await api.waitlist.join(restaurantId, {
+                guestName: guestName.trim(),
+                guestPhone,
+                guestCount,
+                date,
+                windowStart,
+                windowEnd,
+                notifyBy: hasPush ? 'push' : 'sms'
+            });
+            setIsJoined(true);
+        } catch (err) {
+            console.error('Failed to join waitlist:', err);
+            setError(describeApiError(err, t, t('waitlist.joinError')));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (isJoined) {
+        return (
+            <div className="text-center py-4">
+                <h3 className="text-xl font-bold text-brand-primary mb-2">{t('waitlist.joinedTitle')}</h3>
+                <p className="text-gray-400 mb-6">{t('waitlist.joinedMessage')}</p>
+                <button onClick={onClose} className="w-full bg-brand-blue hover:bg-blue-600 text-white font-bold py-3 rounded-lg transition-all">
+                    {t('bookingModal.successOkButton')}
+                </button>
+            </div>
+        );
+    }
+
+    const inputClass = 'w-full bg-brand-accent p-3 rounded-md border border-gray-600 text-gray-200 text-sm focus:border-brand-blue focus:ring-1 focus:ring-brand-blue outline-none transition-all';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <p className="text-sm text-gray-400">{t('waitlist.intro')}</p>
+            <input type="text" value={guestName} onChange={e => setGuestName(e.target.value)} placeholder={t('bookingModal.guestName')} className={inputClass} />
+            <input type="tel" value={guestPhone} onChange={e => setGuestPhone(formatPhoneNumber(e.target.value))} placeholder="+7 (___) ___-__-__" className={inputClass} />
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">{t('waitlist.date')}</label>
+                    <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">{t('waitlist.guests')}</label>
+                    <input type="number" min={1} value={guestCount} onChange={e => setGuestCount(Math.max(1, parseInt(e.target.value) || 1))} className={inputClass} />
+                </div>
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">{t('waitlist.from')}</label>
+                    <input type="time" value={windowStart} onChange={e => setWindowStart(e.target.value)} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="text-xs text-gray-500 block mb-1">{t('waitlist.to')}</label>
+                    <input type="time" value={windowEnd} onChange={e => setWindowEnd(e.target.value)} className={inputClass} required />
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={wantsPush} onChange={e => setWantsPush(e.target.checked)} />
+                {t('waitlist.notifyPush')}
+            </label>
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            <div className="pt-2 flex gap-3">
+                <button type="button" onClick={onClose} className="flex-1 py-3 rounded-md bg-gray-600 text-white text-sm font-semibold hover:bg-gray-700 transition-colors">{t('common.cancel')}</button>
+                <button type="submit" disabled={loading} className="flex-1 py-3 rounded-md bg-brand-blue text-white text-sm font-semibold hover:bg-blue-600 transition-colors disabled:opacity-50">
+                    {loading ? t('common.loading') : t('waitlist.join')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default WaitlistJoinForm;
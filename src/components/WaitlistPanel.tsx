@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Restaurant, WaitlistEntry } from '../types';
+import { api, isAbortError } from '../services/api';
+import { useToast } from '../context/ToastContext';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+
+const REFRESH_MS = 30000;
+
+// Waiting guests for this venue. Freed slots are offered where the booking is declined or
+// cancelled (see DataContext); this panel only shows the queue and its open offers.
+const WaitlistPanel: React.FC<{ restaurant: Restaurant }> = ({ restaurant }) => {
+    const { t } = useTranslation();
+    const { showToast } = useToast();
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+    const loadEntries = useCallback(async (signal?: AbortSignal) => {
+        try {
+            setEntries(await api.waitlist.list(restaurant.id, { signal }));
+        } catch (error) {
+            if (isAbortError(error)) return;
+            console.error('Failed to load waitlist:', error);
+        }
+    }, [restaurant.id]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadEntries(controller.signal);
+        const interval = setInterval(() => {
+            if (navigator.onLine) loadEntries();
+        }, REFRESH_MS);
+        return () => {
+            controller.abort();
+            clearInterval(interval);
+        };
+    }, [loadEntries]);
+
+    const handleRemove = async (entry: WaitlistEntry) => {
+        if (!window.confirm(t('waitlist.confirmRemove', { name: entry.guestName }))) return;
+        try {
+            await api.waitlist.remove(entry.id);
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+        } catch (error) {
+            console.error('Failed to remove waitlist entry:', error);
+            showToast(describeApiError(error, t), 'error');
+        }
+    };
+
+    const visible = entries.filter(e => e.status === 'waiting' || e.status === 'offered');
+
+    return (
+        <div className="mt-6">
+            <h2 className="text-lg font-bold mb-3 text-brand-primary flex items-center gap-2">
+                {t('waitlist.adminTitle')}
+                <span className="bg-brand-blue/20 text-brand-blue px-2 py-0.5 rounded-full text-xs">{visible.length}</span>
+            </h2>
+            {visible.length === 0 ? (
+                <p className="text-gray-500 text-sm text-center py-4">{t('waitlist.empty')}</p>
+            ) : (
+                <div className="space-y-2 max-h-[40vh] overflow-y-auto pr-2">
+                    {visible.map(entry => (
+                        <div key={entry.id} className="bg-brand-accent/60 p-3 rounded-lg border border-brand-accent/50 text-sm">
+                            <div className="flex justify-between items-start gap-2">
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-white truncate">{entry.guestName} ({entry.guestCount} {t('admin.guestsText')})</p>
+                                    <p className="text-brand-blue font-bold">{entry.guestPhone}</p>
+                                    <p className="text-xs text-brand-yellow">
+                                        {new Date(`${entry.date}T00:00:00`).toLocaleDateString('ru-RU')}, {entry.windowStart}–{entry.windowEnd}
+                                    </p>
+                                </div>
+                                <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${entry.status === 'offered' ? 'bg-brand-green/20 text-brand-green' : 'bg-gray-600/40 text-gray-300'}`}>
+                                    {t(`waitlist.status.${entry.status}`)}
+                                </span>
+                            </div>
+                            {entry.status === 'offered' && entry.offeredDateTime && (
+                                <p className="text-xs text-gray-300 mt-1">
+                                    {t('waitlist.offeredSlot', {
+                                        time: entry.offeredDateTime.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }),
+                                        channel: t(`waitlist.channel.${entry.notifyBy}`)
+                                    })}
+                                </p>
+                            )}
+                            <div className="flex justify-end mt-2">
+                                <button
+                                    onClick={() => handleRemove(entry)}
+                                    className="px-2 py-1 rounded text-xs font-bold bg-brand-red/20 text-brand-red hover:bg-brand-red/30 transition-colors"
+                                >
+                                    {t('waitlist.remove')}
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WaitlistPanel;
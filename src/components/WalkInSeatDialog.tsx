@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Restaurant, TableElement } from '../types';
+import { useData } from '../context/DataContext';
+import { useApp } from '../context/AppContext';
+import { useToast } from '../context/ToastContext';
+import { useTranslation } from '../context/I18nContext';
+import { defaultDuration } from '../utils/availability';
+import { describeApiError } from '../utils/apiErrors';
+
+interface WalkInSeatDialogProps {
+    table: TableElement;
+    restaurant: Restaurant;
+    onClose: () => void;
+    // Falls back to the full booking form for this table
+    onOpenBooking: () => void;
+    // Marks the table as cleaning, blocked or held instead
+    onChangeState: () => void;
+}
+
+// A couple of extra chairs can always be pulled up to a table
+const EXTRA_CHAIRS = 2;
+
+const WalkInSeatDialog: React.FC<WalkInSeatDialogProps> = ({ table, restaurant, onClose, onOpenBooking, onChangeState }) => {
+    const { addBooking } = useData();
+    const { currentUser } = useApp();
+    const { showToast } = useToast();
+    const { t } = useTranslation();
+    const [seating, setSeating] = useState<number | null>(null);
+
+    const duration = defaultDuration(restaurant);
+    const sizes = Array.from({ length: (table.seats || 2) + EXTRA_CHAIRS }, (_, i) => i + 1);
+
+    const seat = async (guestCount: number) => {
+        setSeating(guestCount);
+        try {
+            await addBooking(restaurant.id, {
+                guestName: t('walkIn.guestName'),
+                guestPhone: '',
+                guestCount,
+                dateTime: new Date(),
+                duration,
+                tableId: table.id,
+                tableLabel: table.label,
+                tableIds: [table.id],
+                tableLabels: [table.label],
+                isAdmin: true,
+                assignedTo: currentUser?.managerName || 'Admin',
+                walkIn: true
+            });
+            showToast(t('walkIn.seated', { table: table.label, count: guestCount }), 'success');
+            onClose();
+        } catch (error) {
+            console.error('Failed to seat walk-in:', error);
+            showToast(describeApiError(error, t), 'error');
+            setSeating(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 transition-opacity duration-300 p-2 sm:p-4" onClick={onClose}>
+            <div className="bg-brand-secondary rounded-xl shadow-2xl p-6 w-full max-w-sm m-auto border border-brand-accent/50" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold text-brand-primary">{t('walkIn.title', { table: table.label })}</h2>
+                <p className="text-xs text-gray-400 mt-1 mb-4">{t('walkIn.hint', { duration })}</p>
+
+                <p className="text-xs text-gray-500 mb-2">{t('walkIn.partySize')}</p>
+                <div className="grid grid-cols-4 gap-2">
+                    {sizes.map(size => (
+                        <button
+                            key={size}
+                            onClick={() => seat(size)}
+                            disabled={seating !== null}
+                            className={`py-3 rounded-lg text-lg font-bold transition-all disabled:opacity-50 ${size > (table.seats || 2)
+                                ? 'bg-brand-yellow/10 text-brand-yellow border border-brand-yellow/30 hover:bg-brand-yellow/20'
+                                : 'bg-brand-green/20 text-brand-green border border-brand-green/30 hover:bg-brand-green hover:text-white'}`}
+                        >
+                            {seating === size ? '…' : size}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex justify-between items-center mt-5 pt-3 border-t border-brand-accent/30">
+                    <div className="flex gap-4">
+                        <button onClick={onOpenBooking} disabled={seating !== null} className="text-sm text-brand-blue hover:underline disabled:opacity-50">
+                            {t('walkIn.fullBooking')}
+                        </button>
+                        <button onClick={onChangeState} disabled={seating !== null} className="text-sm text-gray-400 hover:text-brand-blue disabled:opacity-50">
+                            {t('tableStates.change')}
+                        </button>
+                    </div>
+                    <button onClick={onClose} className="text-sm text-gray-400 hover:text-gray-200">
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WalkInSeatDialog;
@@ -1,10 +1,13 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
 import { useData } from './DataContext';
+import { StaffRole } from '../types';
+import { isStaff } from '../utils/permissions';
+import { onSessionExpired } from '../services/session';
 
 export interface AnalyticsUser {
   id: string;
   email: string;
-  role: 'ADMIN' | 'OWNER';
+  role: StaffRole;
   restaurantId: string;
   restaurantName: string;
   managerName?: string;
@@ -12,6 +15,7 @@ export interface AnalyticsUser {
 
 interface AnalyticsAuthContextType {
   analyticsUser: AnalyticsUser | null;
+  isRestoring: boolean;
   loginAnalytics: (email: string, password: string, restaurantId: string, role?: 'ADMIN' | 'OWNER') => Promise<AnalyticsUser | null>;
   logoutAnalytics: () => void;
 }
@@ -19,12 +23,49 @@ interface AnalyticsAuthContextType {
 const AnalyticsAuthContext = createContext<AnalyticsAuthContextType | undefined>(undefined);
 
 export const AnalyticsAuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { authenticateUser, getRestaurant } = useData();
+  const { authenticateUser, restoreSession, endSession, getRestaurant } = useData();
 
-  const [analyticsUser, setAnalyticsUser] = useState<AnalyticsUser | null>(() => {
-    const storedUser = localStorage.getItem('analyticsUser');
-    return storedUser ? JSON.parse(storedUser) : null;
-  });
+  const [analyticsUser, setAnalyticsUser] = useState<AnalyticsUser | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  // Only the chosen venue is remembered locally; identity and role come from the validated session
+  useEffect(() => {
+    localStorage.removeItem('analyticsUser');
+
+    const stored = localStorage.getItem('analyticsRestaurant');
+    if (!stored) {
+      setIsRestoring(false);
+      return;
+    }
+
+    let cancelled = false;
+    const { restaurantId, restaurantName } = JSON.parse(stored) as { restaurantId: string; restaurantName: string };
+    restoreSession('analytics').then(user => {
+      if (cancelled) return;
+      if (isStaff(user) && user.restaurantIds.includes(restaurantId)) {
+        setAnalyticsUser({
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          restaurantId,
+          restaurantName,
+          managerName: user.managerName
+        });
+      } else {
+        localStorage.removeItem('analyticsRestaurant');
+      }
+      setIsRestoring(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreSession]);
+
+  // Only the analytics session ending signs out of analytics; the console has its own listener in AppContext
+  useEffect(() => onSessionExpired(() => {
+    setAnalyticsUser(null);
+    localStorage.removeItem('analyticsRestaurant');
+  }, 'analytics'), []);
 
   const loginAnalytics = async (
     email: string,
@@ -36,21 +77,21 @@ export const AnalyticsAuthProvider: React.FC<{ children: ReactNode }> = ({ child
 
     const user = await authenticateUser(email, password, role, restaurantId, true);
 
-    if (user) {
+    if (isStaff(user)) {
       const restaurant = getRestaurant(restaurantId);
       const restaurantName = restaurant ? restaurant.name : 'Ресторан';
 
       const anaUser: AnalyticsUser = {
         id: user.id,
         email: user.email,
-        role: role,
+        role: user.role,
         restaurantId: restaurantId,
         restaurantName: restaurantName,
         managerName: user.managerName
       };
 
       setAnalyticsUser(anaUser);
-      localStorage.setItem('analyticsUser', JSON.stringify(anaUser));
+      localStorage.setItem('analyticsRestaurant', JSON.stringify({ restaurantId, restaurantName }));
       return anaUser;
     }
 
@@ -58,12 +99,13 @@ export const AnalyticsAuthProvider: React.FC<{ children: ReactNode }> = ({ child
   };
 
   const logoutAnalytics = () => {
+    endSession('analytics');
     setAnalyticsUser(null);
-    localStorage.removeItem('analyticsUser');
+    localStorage.removeItem('analyticsRestaurant');
   };
 
   return (
-    <AnalyticsAuthContext.Provider value={{ analyticsUser, loginAnalytics, logoutAnalytics }}>
+    <AnalyticsAuthContext.Provider value={{ analyticsUser, isRestoring, loginAnalytics, logoutAnalytics }}>
       {children}
     </AnalyticsAuthContext.Provider>
   );
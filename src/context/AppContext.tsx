@@ -1,11 +1,16 @@
-import React, { createContext, useState, useContext, ReactNode, useCallback } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
 import { UserRole, User } from '../types';
 import { useData } from './DataContext';
+import { onSessionExpired } from '../services/session';
+import { subscribeToPush } from '../services/pushService';
+import { canAccessRestaurant } from '../utils/permissions';
 
 interface AppContextType {
   currentUser: User | null;
+  isRestoringSession: boolean;
   selectedRestaurantId: string | null;
   login: (role: UserRole, email?: string, password?: string, restaurantId?: string) => Promise<User | null>;
+  loginGuest: (phone: string, code: string) => Promise<User | null>;
   logout: () => void;
   selectRestaurant: (restaurantId: string) => void;
   deselectRestaurant: () => void;
@@ -15,22 +20,45 @@ interface AppContextType {
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { authenticateUser } = useData();
-  /* Initialize from localStorage */
-  const [currentUser, setCurrentUser] = useState<User | null>(() => {
-    const storedUser = localStorage.getItem('currentUser');
-    return storedUser ? JSON.parse(storedUser) : null;
-  });
+  const { authenticateUser, authenticateGuest, restoreSession, endSession } = useData();
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
 
   const [selectedRestaurantId, setSelectedRestaurantId] = useState<string | null>(() => {
     return localStorage.getItem('selectedRestaurantId');
   });
 
+  useEffect(() => {
+    // Older builds kept the whole user object here; it is no longer trusted
+    localStorage.removeItem('currentUser');
+
+    let cancelled = false;
+    restoreSession().then(user => {
+      if (cancelled) return;
+      if (user) setCurrentUser(user);
+      // A remembered venue from another account (or one whose access was revoked) must not be reopened
+      const storedRestaurantId = localStorage.getItem('selectedRestaurantId');
+      if (storedRestaurantId && !canAccessRestaurant(user, storedRestaurantId)) {
+        setSelectedRestaurantId(null);
+        localStorage.removeItem('selectedRestaurantId');
+      }
+      setIsRestoringSession(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreSession]);
+
+  useEffect(() => onSessionExpired(() => {
+    setCurrentUser(null);
+    setSelectedRestaurantId(null);
+    localStorage.removeItem('selectedRestaurantId');
+  }), []);
+
   const login = async (role: UserRole, email?: string, password?: string, restaurantId?: string): Promise<User | null> => {
     if (role === 'GUEST') {
       const guestUser: User = { id: 'guest', email: '', role: 'GUEST', restaurantIds: [] };
       setCurrentUser(guestUser);
-      localStorage.setItem('currentUser', JSON.stringify(guestUser));
       return guestUser;
     }
 
@@ -40,7 +68,6 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     if (user) {
       setCurrentUser(user);
-      localStorage.setItem('currentUser', JSON.stringify(user));
 
       if (role === 'ADMIN' || role === 'OWNER') {
         const rId = user.restaurantIds.length === 1 ? user.restaurantIds[0] : null;
@@ -54,10 +81,19 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return null;
   };
 
+  const loginGuest = async (phone: string, code: string): Promise<User | null> => {
+    const user = await authenticateGuest(phone, code);
+    if (!user) return null;
+    setCurrentUser(user);
+    // Booking updates and waitlist offers reach this browser by the verified phone
+    subscribeToPush('GUEST', undefined, user.phone || phone);
+    return user;
+  };
+
   const logout = () => {
+    endSession();
     setCurrentUser(null);
     setSelectedRestaurantId(null);
-    localStorage.removeItem('currentUser');
     localStorage.removeItem('selectedRestaurantId');
   };
 
@@ -82,8 +118,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   return (
     <AppContext.Provider value={{
       currentUser,
+      isRestoringSession,
       selectedRestaurantId,
       login,
+      loginGuest,
       logout,
       selectRestaurant,
       deselectRestaurant,
@@ -100,4 +138,4 @@ export const useApp = (): AppContextType => {
     throw new Error('useApp must be used within an AppProvider');
   }
   return context;
-};
\ No newline at end of file
+};
\ No newline at end of file
@@ -1,159 +1,134 @@
-import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
-import { LayoutElement, Booking, BookingStatus, Restaurant, User, UserRole } from '../types';
-import { api } from '../services/api';
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
+import { LayoutElement, Booking, BookingStatus, EventBooking, RecurrenceRule, Restaurant, RestaurantAvailability, TableStateOverride, User, UserRole } from '../types';
+import { api, BookingCreatePayload, BookingDetailsPayload, BookingSeriesUpdatePayload, EventBookingPayload, PartyMovePayload, RestaurantSettingsPayload, TableStatePayload, ApiError, isTransientError } from '../services/api';
+import { AuthUserDto } from '../services/dto';
+import { getSessionTokens, setSessionTokens, clearSession, getCachedSessionUser, cacheSessionUser, SessionAudience } from '../services/session';
+import { subscribeToBookingEvents, BookingEvent, BookingStreamStatus } from '../services/bookingStream';
+import { MutationInput, enqueueMutation, listMutations, loadSnapshot, saveSnapshot } from '../services/offlineStore';
+import { MutationConflict, replayMutations, sendMutation } from '../services/mutationQueue';
+import { useToast } from './ToastContext';
+import { useTranslation } from './I18nContext';
+import { bookingTableIds, getTables } from '../utils/availability';
+import { CLEANING_MINUTES } from '../utils/tableStates';
+import { findWaitlistMatches } from '../utils/waitlist';
+
+type NewBooking = Omit<Booking, 'id' | 'restaurantId' | 'status' | 'createdAt' | 'declineReason'> & {
+  isAdmin?: boolean;
+  timezoneOffset?: number;
+  assignedTo?: string;
+  tableIds?: string[];
+  tableLabels?: string[];
+  paymentIntentId?: string;
+};
 
 interface DataContextType {
   restaurants: Restaurant[];
   isLoading: boolean;
+  // Why the last restaurants load failed; null once it succeeds
+  loadError: Error | null;
+  availability: Record<string, RestaurantAvailability>;
+  streamStatus: BookingStreamStatus;
+  isOnline: boolean;
+  // Set while the data on screen comes from the offline snapshot rather than the API
+  snapshotSavedAt: Date | null;
+  pendingMutationCount: number;
+  mutationConflicts: MutationConflict[];
+  dismissConflict: (id: number) => void;
+  retryConflict: (id: number) => Promise<void>;
   getRestaurant: (id: string) => Restaurant | undefined;
-  authenticateUser: (email: string, password: string, role: UserRole, restaurantId?: string) => Promise<User | undefined>;
-  getAdminRestaurants: (email: string) => Promise<{ id: string, name: string }[]>;
+  authenticateUser: (email: string, password: string, role: UserRole, restaurantId?: string, forAnalytics?: boolean) => Promise<User | undefined>;
+  // Phone sign-in for guests, after the one-time code was requested
+  authenticateGuest: (phone: string, code: string) => Promise<User | undefined>;
+  restoreSession: (audience?: SessionAudience) => Promise<User | undefined>;
+  endSession: (audience?: SessionAudience) => Promise<void>;
+  getAdminRestaurants: (email: string, forAnalytics?: boolean) => Promise<{ id: string, name: string }[]>;
   getOwnerRestaurants: (email: string) => Promise<{ id: string, name: string }[]>;
   addRestaurant: (name: string) => Promise<Restaurant | null>;
-  addBooking: (
-    restaurantId: string,
-    bookingData: Omit<Booking, 'id' | 'restaurantId' | 'status' | 'createdAt' | 'declineReason'> & {
-      isAdmin?: boolean;
-      timezoneOffset?: number;
-      assignedTo?: string;
-    }
-  ) => Promise<void>;
-  updateBookingStatus: (bookingId: string, status: BookingStatus, reason?: string, tableId?: string, tableLabel?: string, duration?: number, tableIds?: string[], tableLabels?: string[], assignedTo?: string) => Promise<void>;
-  updateBookingDetails: (bookingId: string, payload: any) => Promise<void>;
+  addBooking: (restaurantId: string, bookingData: NewBooking) => Promise<void>;
+  // Recurring bookings need a live connection; `dateTimes` are the visits left after the conflict check
+  addBookingSeries: (restaurantId: string, bookingData: NewBooking, rule: RecurrenceRule, dateTimes: Date[]) => Promise<void>;
+  updateBookingSeries: (seriesId: string, payload: BookingSeriesUpdatePayload) => Promise<void>;
+  cancelBookingSeries: (seriesId: string, reason?: string) => Promise<void>;
+  // Needs a live connection, since a swap has to land on both bookings at once
+  moveParty: (bookingId: string, payload: PartyMovePayload) => Promise<void>;
+  // Resolve to false when the change was rejected; it has been rolled back and a toast shown by then
+  updateBookingStatus: (bookingId: string, status: BookingStatus, reason?: string, tableId?: string, tableLabel?: string, duration?: number, tableIds?: string[], tableLabels?: string[], assignedTo?: string) => Promise<boolean>;
+  updateBookingDetails: (bookingId: string, payload: BookingDetailsPayload) => Promise<boolean>;
+  // Completes a seated booking and puts its tables into cleaning
+  releaseTable: (booking: Booking) => Promise<void>;
   updateLayout: (restaurantId: string, newLayout: LayoutElement[], floors?: any[]) => Promise<void>;
-  updateRestaurantSettings: (restaurantId: string, updates: { layout?: LayoutElement[], floors?: any[], bookingRestriction?: number, ageRestriction?: string }) => Promise<void>;
+  updateRestaurantSettings: (restaurantId: string, updates: RestaurantSettingsPayload) => Promise<void>;
   loadRestaurants: () => Promise<void>;
+  loadAvailability: () => Promise<void>;
   loadBookings: (restaurantId: string, date?: string) => Promise<void>;
+  loadEvents: (restaurantId: string) => Promise<void>;
+  // Creates the event, or updates it when `eventId` is given
+  saveEvent: (restaurantId: string, payload: EventBookingPayload, eventId?: string) => Promise<EventBooking>;
+  cancelEvent: (event: EventBooking) => Promise<void>;
+  loadTableStates: (restaurantId: string) => Promise<void>;
+  setTableState: (restaurantId: string, tableId: string, payload: TableStatePayload) => Promise<void>;
+  clearTableState: (restaurantId: string, tableId: string) => Promise<void>;
+  // Keeps today's bookings for these venues loaded and live; call the returned function to release
+  trackRestaurants: (restaurantIds: string[]) => () => void;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
-
+// A booking going from held to one of these gives its slot to the waitlist
+const HOLDING_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+const FREEING_STATUSES: BookingStatus[] = [BookingStatus.DECLINED, BookingStatus.CANCELLED];
+
+const withoutUndefined = <T extends object>(fields: T): Partial<T> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+const toCreatePayload = (bookingData: NewBooking): BookingCreatePayload => ({
+  ...bookingData,
+  dateTime: bookingData.dateTime.toISOString(),
+  timezoneOffset: bookingData.timezoneOffset,
+  tableId: bookingData.tableId || null,
+  tableLabel: bookingData.tableLabel || null,
+  isAdmin: bookingData.isAdmin || false,
+  assignedTo: bookingData.assignedTo || null,
+  tableIds: bookingData.tableIds || undefined,
+  tableLabels: bookingData.tableLabels || undefined,
+});
 
 export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [availability, setAvailability] = useState<Record<string, RestaurantAvailability>>({});
+  const [streamStatus, setStreamStatus] = useState<BookingStreamStatus>('connecting');
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [snapshotSavedAt, setSnapshotSavedAt] = useState<Date | null>(null);
+  const [pendingMutationCount, setPendingMutationCount] = useState(0);
+  const [mutationConflicts, setMutationConflicts] = useState<MutationConflict[]>([]);
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+
+  // Read synchronously when deciding whether a change has to wait in the offline queue
+  const pendingMutationCountRef = useRef(0);
+  const isReplayingRef = useRef(false);
+
+  // Mirrors state so mutation callbacks can snapshot a booking without being recreated on every change
+  const restaurantsRef = useRef(restaurants);
+  useEffect(() => {
+    restaurantsRef.current = restaurants;
+  }, [restaurants]);
 
-  const loadRestaurants = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const data = await api.restaurants.list();
-      const todayStr = new Date().toISOString().split('T')[0];
-
-      const restaurantsWithBookings = await Promise.all(
-        data.map(async (restaurant: any) => {
-          try {
-            const bookings = await api.restaurants.getBookings(restaurant.id, todayStr);
-
-            return {
-              id: restaurant.id,
-              name: restaurant.name,
-              with_map: restaurant.with_map,
-              photoUrl: restaurant.photo_url,
-              logoUrl: restaurant.logo_url,
-              address: restaurant.address,
-              workStarts: restaurant.work_starts,
-              workEnds: restaurant.work_ends,
-              schedule: restaurant.schedule,
-              bookingRestriction: restaurant.booking_restriction,
-              age_restriction: restaurant.age_restriction,
-              deposit: restaurant.deposit,
-              age_restriction_kz: restaurant.age_restriction_kz,
-              deposit_kz: restaurant.deposit_kz,
-              city: restaurant.city,
-              layout: restaurant.layout || [],
-              floors: restaurant.floors || [],
-              adminWorks: restaurant.admin_works,
-              menu: restaurant.menu,
-              bookings: bookings.map((b: any) => ({
-                id: b.id,
-                restaurantId: b.restaurant_id,
-                tableId: b.table_id,
-                tableLabel: b.table_label,
-                tableIds: b.tableIds,
-                tableLabels: b.tableLabels,
-                guestName: b.guest_name,
-                guestPhone: b.guest_phone,
-                guestEmail: b.guest_email,
-                guestCount: b.guest_count,
-                status: b.status,
-                declineReason: b.decline_reason,
-                cancelReason: b.cancel_reason,
-                cancelComment: b.cancel_comment,
-                cancelledBy: b.cancelled_by,
-                cancelledAt: b.cancelled_at ? new Date(b.cancelled_at) : undefined,
-                guestComment: b.guest_comment,
-                duration: b.duration,
-                assignedTo: b.assigned_to,
-                dateTime: new Date(b.date_time),
-                deadlineAt: b.deadline_at ? new Date(b.deadline_at) : undefined,
-                createdAt: new Date(b.created_at),
-                updatedAt: b.updated_at ? new Date(b.updated_at) : undefined
-              }))
-            };
-          } catch (e) {
-            console.error(`Failed to load bookings for restaurant ${restaurant.id}`, e);
-            // Return restaurant without bookings if fetching bookings fails, or handle differently
-            return {
-              id: restaurant.id,
-              name: restaurant.name,
-              layout: restaurant.layout || [],
-              workStarts: restaurant.work_starts,
-              workEnds: restaurant.work_ends,
-              schedule: restaurant.schedule,
-              bookingRestriction: restaurant.booking_restriction,
-              age_restriction: restaurant.age_restriction,
-              deposit: restaurant.deposit,
-              age_restriction_kz: restaurant.age_restriction_kz,
-              deposit_kz: restaurant.deposit_kz,
-              city: restaurant.city,
-              floors: restaurant.floors || [],
-              menu: restaurant.menu,
-              bookings: []
-            };
-          }
-        })
-      );
-
-      setRestaurants(restaurantsWithBookings);
-    } catch (error) {
-      console.error('Failed to load restaurants:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  // A double tap sending the same change gets the pending promise back
+  const inFlightMutations = useRef(new Map<string, Promise<boolean>>());
+  // The last change waiting or on its way per booking; a different one queues up behind it
+  const bookingMutationTails = useRef(new Map<string, Promise<boolean>>());
 
-  const mapBooking = (b: any) => ({
-    id: b.id,
-    restaurantId: b.restaurant_id,
-    tableId: b.table_id,
-    tableLabel: b.table_label,
-    tableIds: b.tableIds,
-    tableLabels: b.tableLabels,
-    guestName: b.guest_name,
-    guestPhone: b.guest_phone,
-    guestEmail: b.guest_email,
-    guestCount: b.guest_count,
-    status: b.status,
-    declineReason: b.decline_reason,
-    cancelReason: b.cancel_reason,
-    cancelComment: b.cancel_comment,
-    cancelledBy: b.cancelled_by,
-    cancelledAt: b.cancelled_at ? new Date(b.cancelled_at) : undefined,
-    guestComment: b.guest_comment,
-    duration: b.duration,
-    assignedTo: b.assigned_to,
-    dateTime: new Date(b.date_time),
-    deadlineAt: b.deadline_at ? new Date(b.deadline_at) : undefined,
-    createdAt: new Date(b.created_at),
-    updatedAt: b.updated_at ? new Date(b.updated_at) : undefined
-  });
+  const trackedCounts = useRef(new Map<string, number>());
+  // Stable key so the stream is only reopened when the set of tracked venues changes,
+  // not on every booking patch
+  const [trackedIdsKey, setTrackedIdsKey] = useState('');
 
   const loadBookings = useCallback(async (restaurantId: string, date?: string) => {
     try {
-      const bookings = await api.restaurants.getBookings(restaurantId, date);
-      const mapped = bookings.map(mapBooking);
-
+      const mapped = await api.restaurants.getBookings(restaurantId, date);
       setRestaurants(prev => prev.map(r => {
         if (r.id !== restaurantId) return r;
 
@@ -188,6 +163,123 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
+  const setRestaurantEvents = useCallback((restaurantId: string, update: (events: EventBooking[]) => EventBooking[]) => {
+    setRestaurants(prev => prev.map(r => r.id === restaurantId ? { ...r, events: update(r.events || []) } : r));
+  }, []);
+
+  const loadEvents = useCallback(async (restaurantId: string) => {
+    try {
+      const events = await api.events.list(restaurantId);
+      setRestaurantEvents(restaurantId, () => events);
+    } catch (error) {
+      console.error('Failed to load events:', error);
+    }
+  }, [setRestaurantEvents]);
+
+  const saveEvent = useCallback(async (restaurantId: string, payload: EventBookingPayload, eventId?: string) => {
+    const saved = eventId ? await api.events.update(eventId, payload) : await api.events.create(restaurantId, payload);
+    setRestaurantEvents(restaurantId, events => [...events.filter(e => e.id !== saved.id), saved]);
+    return saved;
+  }, [setRestaurantEvents]);
+
+  const cancelEvent = useCallback(async (event: EventBooking) => {
+    await api.events.cancel(event.id);
+    setRestaurantEvents(event.restaurantId, events => events.filter(e => e.id !== event.id));
+  }, [setRestaurantEvents]);
+
+  const setRestaurantTableStates = useCallback((restaurantId: string, update: (states: TableStateOverride[]) => TableStateOverride[]) => {
+    setRestaurants(prev => prev.map(r => r.id === restaurantId ? { ...r, tableStates: update(r.tableStates || []) } : r));
+  }, []);
+
+  const loadTableStates = useCallback(async (restaurantId: string) => {
+    try {
+      const states = await api.tableStates.list(restaurantId);
+      setRestaurantTableStates(restaurantId, () => states);
+    } catch (error) {
+      console.error('Failed to load table states:', error);
+    }
+  }, [setRestaurantTableStates]);
+
+  const setTableState = useCallback(async (restaurantId: string, tableId: string, payload: TableStatePayload) => {
+    const saved = await api.tableStates.set(restaurantId, tableId, payload);
+    setRestaurantTableStates(restaurantId, states => [...states.filter(s => s.tableId !== tableId), saved]);
+  }, [setRestaurantTableStates]);
+
+  const clearTableState = useCallback(async (restaurantId: string, tableId: string) => {
+    await api.tableStates.clear(restaurantId, tableId);
+    setRestaurantTableStates(restaurantId, states => states.filter(s => s.tableId !== tableId));
+  }, [setRestaurantTableStates]);
+
+  const loadRestaurants = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Metadata only — bookings are fetched per venue once something on screen tracks it
+      const data = await api.restaurants.list();
+      setRestaurants(prev => data.map(restaurant => ({
+        ...restaurant,
+        bookings: prev.find(r => r.id === restaurant.id)?.bookings || [],
+        events: prev.find(r => r.id === restaurant.id)?.events,
+        tableStates: prev.find(r => r.id === restaurant.id)?.tableStates
+      })));
+      setSnapshotSavedAt(null);
+      setLoadError(null);
+
+      // A venue tracked before the list arrived had nowhere to put its bookings
+      const todayStr = new Date().toISOString().split('T')[0];
+      trackedCounts.current.forEach((_, id) => {
+        loadBookings(id, todayStr);
+      });
+    } catch (error) {
+      console.error('Failed to load restaurants:', error);
+      setLoadError(error instanceof Error ? error : new Error(String(error)));
+      // No API — show the admin what we saw last instead of an empty console
+      try {
+        const snapshot = await loadSnapshot();
+        if (snapshot) {
+          setRestaurants(snapshot.restaurants);
+          setSnapshotSavedAt(snapshot.savedAt);
+        }
+      } catch (snapshotError) {
+        console.error('Failed to read offline snapshot:', snapshotError);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadBookings]);
+
+  const loadAvailability = useCallback(async () => {
+    try {
+      const summary = await api.restaurants.getAvailability();
+      setAvailability(Object.fromEntries(summary.map(a => [a.restaurantId, a])));
+    } catch (error) {
+      console.error('Failed to load availability:', error);
+    }
+  }, []);
+
+  // Reference-counted so the venue page and the staff switcher can both ask for the same
+  // restaurant; only tracked venues get their bookings loaded, streamed and polled
+  const trackRestaurants = useCallback((restaurantIds: string[]) => {
+    const todayStr = new Date().toISOString().split('T')[0];
+    restaurantIds.forEach(id => {
+      const count = trackedCounts.current.get(id) || 0;
+      trackedCounts.current.set(id, count + 1);
+      if (count === 0) loadBookings(id, todayStr);
+    });
+    setTrackedIdsKey([...trackedCounts.current.keys()].sort().join(','));
+
+    return () => {
+      restaurantIds.forEach(id => {
+        const count = (trackedCounts.current.get(id) || 0) - 1;
+        if (count > 0) {
+          trackedCounts.current.set(id, count);
+        } else {
+          trackedCounts.current.delete(id);
+        }
+      });
+      setTrackedIdsKey([...trackedCounts.current.keys()].sort().join(','));
+    };
+  }, [loadBookings]);
+
   const getAdminRestaurants = useCallback(async (email: string, forAnalytics?: boolean) => {
     try {
       return await api.auth.getAdminRestaurants(email, forAnalytics);
@@ -206,6 +298,31 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
+  const resolveUser = async (userData: AuthUserDto, audience: SessionAudience = 'app'): Promise<User> => {
+    const finalUser: User = {
+      id: userData.id,
+      email: userData.email,
+      role: userData.role,
+      restaurantIds: userData.restaurantIds?.length
+        ? userData.restaurantIds
+        : userData.restaurantId ? (userData.restaurantId === 'all' ? [] : [userData.restaurantId]) : [],
+      managerName: userData.managerName ?? undefined,
+      phone: userData.phone ?? undefined,
+      name: userData.name ?? undefined
+    };
+
+    if (userData.restaurantId === 'all') {
+      try {
+        const allRestaurants = await api.restaurants.list({ audience });
+        finalUser.restaurantIds = allRestaurants.map(r => r.id);
+      } catch (e) {
+        console.error('Failed to fetch restaurants for owner', e);
+      }
+    }
+
+    return finalUser;
+  };
+
   const authenticateUser = useCallback(async (
     email: string,
     password: string,
@@ -214,34 +331,61 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     forAnalytics?: boolean
   ): Promise<User | undefined> => {
     try {
-      let userData;
-      if (role === 'OWNER') {
-        userData = await api.auth.owner({ email, password, restaurantId });
-      } else {
-        userData = await api.auth.admin({ email, password, restaurantId, forAnalytics });
-      }
+      const session = role === 'OWNER'
+        ? await api.auth.owner({ email, password, restaurantId })
+        : await api.auth.admin({ email, password, restaurantId, forAnalytics });
+
+      // Analytics sign-in gets its own tokens so it never replaces the console's session
+      const audience: SessionAudience = forAnalytics ? 'analytics' : 'app';
+      setSessionTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken }, audience);
+      const user = await resolveUser(session.user, audience);
+      cacheSessionUser(user, audience);
+      return user;
+    } catch (error) {
+      console.error('Authentication failed:', error);
+      return undefined;
+    }
+  }, []);
 
-      const finalUser: User = {
-        id: userData.id,
-        email: userData.email,
-        role: userData.role as UserRole,
-        restaurantIds: userData.restaurantId ? (userData.restaurantId === 'all' ? [] : [userData.restaurantId]) : [],
-        managerName: userData.managerName
-      };
+  const authenticateGuest = useCallback(async (phone: string, code: string): Promise<User | undefined> => {
+    try {
+      const session = await api.auth.verifyGuestCode(phone, code);
+      setSessionTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+      const user = await resolveUser(session.user);
+      cacheSessionUser(user);
+      return user;
+    } catch (error) {
+      console.error('Guest authentication failed:', error);
+      return undefined;
+    }
+  }, []);
 
-      if (userData.restaurantId === 'all') {
-        try {
-          const allRestaurants = await api.restaurants.list();
-          finalUser.restaurantIds = allRestaurants.map(r => r.id);
-        } catch (e) {
-          console.error('Failed to fetch restaurants for owner', e);
-        }
+  // Validates the stored token with the server. Only a definite rejection signs the user out;
+  // when the server can't be reached the last confirmed user opens the offline console instead.
+  const restoreSession = useCallback(async (audience: SessionAudience = 'app'): Promise<User | undefined> => {
+    if (!getSessionTokens(audience)) return undefined;
+    try {
+      const user = await resolveUser(await api.auth.me({ audience }), audience);
+      cacheSessionUser(user, audience);
+      return user;
+    } catch (error) {
+      console.error('Failed to restore session:', error);
+      if (error instanceof ApiError && !isTransientError(error)) {
+        clearSession(audience);
+        return undefined;
       }
+      return getCachedSessionUser(audience) || undefined;
+    }
+  }, []);
 
-      return finalUser;
+  const endSession = useCallback(async (audience: SessionAudience = 'app') => {
+    const session = getSessionTokens(audience);
+    clearSession(audience);
+    if (!session) return;
+    try {
+      await api.auth.logout(session.refreshToken, { audience });
     } catch (error) {
-      console.error('Authentication failed:', error);
-      return undefined;
+      console.error('Logout request failed:', error);
     }
   }, []);
 
@@ -249,23 +393,27 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return restaurants.find(r => r.id === id);
   }, [restaurants]);
 
+  const syncPendingMutationCount = useCallback(async () => {
+    try {
+      pendingMutationCountRef.current = (await listMutations()).length;
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+      pendingMutationCountRef.current = 0;
+    }
+    setPendingMutationCount(pendingMutationCountRef.current);
+  }, []);
+
+  const queueMutation = useCallback(async (mutation: MutationInput) => {
+    await enqueueMutation(mutation);
+    pendingMutationCountRef.current += 1;
+    setPendingMutationCount(pendingMutationCountRef.current);
+    showToast(t('offline.queued'), 'info');
+  }, [showToast, t]);
+
   const addRestaurant = useCallback(async (name: string): Promise<Restaurant | null> => {
     try {
       const newRestaurant = await api.restaurants.create(name);
-
-      const restaurant: Restaurant = {
-        id: newRestaurant.id,
-        name: newRestaurant.name,
-        layout: newRestaurant.layout || [],
-        workStarts: (newRestaurant as any).work_starts,
-        workEnds: (newRestaurant as any).work_ends,
-        logoUrl: (newRestaurant as any).logo_url,
-        schedule: newRestaurant.schedule,
-        age_restriction: (newRestaurant as any).age_restriction,
-        city: (newRestaurant as any).city || 'Алмата',
-        menu: (newRestaurant as any).menu,
-        bookings: []
-      };
+      const restaurant: Restaurant = { ...newRestaurant, city: newRestaurant.city || 'Алмата' };
 
       setRestaurants(prev => [...prev, restaurant]);
       return restaurant;
@@ -275,40 +423,11 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
-  const updateRestaurantSettings = useCallback(async (restaurantId: string, updates: { 
-    layout?: LayoutElement[], 
-    floors?: any[], 
-    bookingRestriction?: number, 
-    ageRestriction?: string,
-    photoUrl?: string,
-    logoUrl?: string,
-    address?: string,
-    city?: string,
-    adminWorks?: any,
-    deposit?: string,
-    ageRestrictionKz?: string,
-    depositKz?: string,
-    menu?: boolean
-  }) => {
+  const updateRestaurantSettings = useCallback(async (restaurantId: string, updates: RestaurantSettingsPayload) => {
     try {
       const updatedRestaurant = await api.restaurants.updateSettings(restaurantId, updates);
-      setRestaurants(prev => prev.map(r => r.id === restaurantId ? {
-        ...r,
-        name: updatedRestaurant.name,
-        layout: updatedRestaurant.layout,
-        floors: updatedRestaurant.floors || [],
-        bookingRestriction: (updatedRestaurant as any).booking_restriction,
-        age_restriction: (updatedRestaurant as any).age_restriction,
-        photoUrl: (updatedRestaurant as any).photo_url,
-        logoUrl: (updatedRestaurant as any).logo_url,
-        address: (updatedRestaurant as any).address,
-        adminWorks: (updatedRestaurant as any).admin_works,
-        deposit: (updatedRestaurant as any).deposit,
-        age_restriction_kz: (updatedRestaurant as any).age_restriction_kz,
-        deposit_kz: (updatedRestaurant as any).deposit_kz,
-        city: (updatedRestaurant as any).city,
-        menu: (updatedRestaurant as any).menu
-      } : r));
+      // The settings endpoint returns the restaurant row only; keep the bookings we already hold
+      setRestaurants(prev => prev.map(r => r.id === restaurantId ? { ...updatedRestaurant, bookings: r.bookings, events: r.events, tableStates: r.tableStates } : r));
     } catch (error) {
       console.error('Failed to update restaurant settings:', error);
     }
@@ -318,144 +437,405 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return updateRestaurantSettings(restaurantId, { layout: newLayout, floors });
   }, [updateRestaurantSettings]);
 
-  const addBooking = useCallback(async (
-    restaurantId: string,
-    bookingData: Omit<Booking, 'id' | 'restaurantId' | 'status' | 'createdAt' | 'declineReason'> & {
-      isAdmin?: boolean;
-      timezoneOffset?: number;
-      assignedTo?: string;
-      tableIds?: string[];
-      tableLabels?: string[];
+  const addBooking = useCallback(async (restaurantId: string, bookingData: NewBooking) => {
+    const payload = toCreatePayload(bookingData);
+
+    // Admins keep taking walk-ins and phone bookings without a connection; guests need a live answer
+    const addOffline = async () => {
+      const { isAdmin, ...fields } = bookingData;
+      const tempId = `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      await queueMutation({ kind: 'create', restaurantId, tempId, payload });
+      const status = bookingData.walkIn ? BookingStatus.OCCUPIED : BookingStatus.CONFIRMED;
+      const booking: Booking = { ...fields, id: tempId, restaurantId, status, createdAt: new Date() };
+      setRestaurants(prev => prev.map(r =>
+        r.id === restaurantId
+          ? { ...r, bookings: [...r.bookings, booking] }
+          : r
+      ));
+    };
+
+    if (bookingData.isAdmin && (!navigator.onLine || pendingMutationCountRef.current > 0)) {
+      return addOffline();
     }
-  ) => {
-    const b = await api.restaurants.createBooking(restaurantId, {
-      ...bookingData,
-      dateTime: bookingData.dateTime.toISOString(),
-      timezoneOffset: bookingData.timezoneOffset,
-      tableId: bookingData.tableId || null,
-      tableLabel: bookingData.tableLabel || null,
-      isAdmin: bookingData.isAdmin || false,
-      assignedTo: bookingData.assignedTo || null,
-      tableIds: bookingData.tableIds || undefined,
-      tableLabels: bookingData.tableLabels || undefined,
-    });
+
+    let created: Booking;
+    try {
+      created = await api.restaurants.createBooking(restaurantId, payload);
+    } catch (error) {
+      if (bookingData.isAdmin && isTransientError(error)) return addOffline();
+      throw error;
+    }
+    // The create endpoint may not echo multi-table assignments back
+    const booking: Booking = {
+      ...created,
+      tableIds: bookingData.tableIds || created.tableIds,
+      tableLabels: bookingData.tableLabels || created.tableLabels
+    };
 
     setRestaurants(prev => prev.map(r =>
       r.id === restaurantId
-        ? {
-          ...r,
-          bookings: [...r.bookings, {
-            id: b.id,
-            restaurantId: b.restaurant_id,
-            tableId: b.table_id,
-            tableLabel: b.table_label,
-            tableIds: bookingData.tableIds || (b.table_id ? [b.table_id] : []),
-            tableLabels: bookingData.tableLabels || (b.table_label ? [b.table_label] : []),
-            guestName: b.guest_name,
-            guestPhone: b.guest_phone,
-            guestEmail: b.guest_email,
-            guestCount: b.guest_count,
-            status: b.status,
-            declineReason: b.decline_reason,
-            cancelReason: b.cancel_reason,
-            cancelComment: b.cancel_comment,
-            cancelledBy: b.cancelled_by,
-            cancelledAt: b.cancelled_at ? new Date(b.cancelled_at) : undefined,
-            guestComment: b.guest_comment,
-            assignedTo: b.assigned_to,
-            dateTime: new Date(b.date_time),
-            deadlineAt: b.deadline_at ? new Date(b.deadline_at) : undefined,
-            createdAt: new Date(b.created_at),
-            updatedAt: b.updated_at ? new Date(b.updated_at) : undefined
-          }]
-        }
+        ? { ...r, bookings: [...r.bookings, booking] }
         : r
     ));
-  }, [restaurants]);
+  }, [queueMutation]);
+
+  // Inserts new bookings and replaces known ones, each under its own restaurant
+  const upsertBookings = useCallback((bookings: Booking[]) => {
+    const incoming = new Map(bookings.map(b => [b.id, b]));
+    setRestaurants(prev => prev.map(r => {
+      const own = bookings.filter(b => b.restaurantId === r.id);
+      if (own.length === 0) return r;
+      return { ...r, bookings: [...r.bookings.filter(b => !incoming.has(b.id)), ...own] };
+    }));
+  }, []);
 
-  const updateBookingStatus = useCallback(async (bookingId: string, status: BookingStatus, declineReason?: string, tableId?: string, tableLabel?: string, duration?: number, tableIds?: string[], tableLabels?: string[], assignedTo?: string) => {
+  // Offered from the device that freed the slot, once the server has accepted the change, so it
+  // happens once however many tablets are open. Guests cancelling by link are handled server-side.
+  const offerFreedSlot = useCallback(async (freed: Booking) => {
+    if (!HOLDING_STATUSES.includes(freed.status) || new Date(freed.dateTime).getTime() <= Date.now()) return;
+    const restaurant = restaurantsRef.current.find(r => r.id === freed.restaurantId);
+    if (!restaurant) return;
     try {
-      const updatedBooking = await api.bookings.updateStatus(bookingId, status, declineReason, tableId, tableLabel, duration, tableIds, tableLabels, assignedTo);
-      setRestaurants(prev => prev.map(r => ({
-        ...r,
-        bookings: r.bookings.map(b => b.id === bookingId ? {
-          ...b,
-          status: updatedBooking.status,
-          declineReason: updatedBooking.decline_reason,
-          tableId: updatedBooking.table_id,
-          tableLabel: updatedBooking.table_label,
-          duration: updatedBooking.duration,
-          assignedTo: updatedBooking.assigned_to,
-          tableIds: updatedBooking.tableIds,
-          tableLabels: updatedBooking.tableLabels,
-          updatedAt: updatedBooking.updated_at ? new Date(updatedBooking.updated_at) : undefined
-        } : b)
-      })));
+      const [match] = findWaitlistMatches(await api.waitlist.list(restaurant.id), freed, getTables(restaurant));
+      if (!match) return;
+      await api.waitlist.offer(match.id, {
+        bookingId: freed.id,
+        dateTime: new Date(freed.dateTime).toISOString(),
+        tableIds: bookingTableIds(freed)
+      });
+      showToast(t('waitlist.offered', { name: match.guestName }), 'success');
     } catch (error) {
-      console.error('Failed to update booking status:', error);
-      throw error;
+      // Someone already offered this entry a slot
+      if (error instanceof ApiError && error.code === 'conflict') return;
+      console.error('Failed to offer waitlist slot:', error);
+      showToast(t('waitlist.offerFailed', { reason: error instanceof Error ? error.message : t('common.error') }), 'error');
+    }
+  }, [showToast, t]);
+
+  const addBookingSeries = useCallback(async (restaurantId: string, bookingData: NewBooking, rule: RecurrenceRule, dateTimes: Date[]) => {
+    upsertBookings(await api.restaurants.createBookingSeries(restaurantId, {
+      booking: toCreatePayload(bookingData),
+      rule,
+      dateTimes: dateTimes.map(d => d.toISOString())
+    }));
+  }, [upsertBookings]);
+
+  const updateBookingSeries = useCallback(async (seriesId: string, payload: BookingSeriesUpdatePayload) => {
+    upsertBookings(await api.bookings.updateSeries(seriesId, payload));
+  }, [upsertBookings]);
+
+  const cancelBookingSeries = useCallback(async (seriesId: string, reason?: string) => {
+    const before = new Map(restaurantsRef.current.flatMap(r => r.bookings).map(b => [b.id, b]));
+    const cancelled = await api.bookings.cancelSeries(seriesId, reason);
+    upsertBookings(cancelled);
+    for (const booking of cancelled) {
+      const previous = before.get(booking.id);
+      if (previous && booking.status === BookingStatus.CANCELLED) await offerFreedSlot(previous);
     }
+  }, [upsertBookings, offerFreedSlot]);
+
+  const moveParty = useCallback(async (bookingId: string, payload: PartyMovePayload) => {
+    upsertBookings(await api.bookings.moveParty(bookingId, payload));
+  }, [upsertBookings]);
+
+  const replaceBooking = useCallback((updated: Booking) => {
+    setRestaurants(prev => prev.map(r => ({
+      ...r,
+      bookings: r.bookings.map(b => b.id === updated.id ? updated : b)
+    })));
   }, []);
 
-  const updateBookingDetails = useCallback(async (bookingId: string, payload: any) => {
+  // Applies the patch locally right away, then swaps in the server copy. Without a connection
+  // the change goes to the offline queue and stays applied. If the API rejects it the snapshot
+  // is restored — unless a live event has replaced the booking in the meantime. Never rejects:
+  // resolves to false after a rollback, which has already been reported with a toast.
+  // Changes to one booking run one after another, each from the state the previous one left;
+  // onSent gets that state once the server has accepted the change (not when it was queued).
+  const mutateBookingOptimistically = useCallback((
+    bookingId: string,
+    patch: Partial<Booking>,
+    mutation: MutationInput,
+    failureKey: string,
+    onSent?: (previous: Booking) => void
+  ): Promise<boolean> => {
+    const key = JSON.stringify(mutation);
+    const pending = inFlightMutations.current.get(key);
+    if (pending) return pending;
+
+    const before = bookingMutationTails.current.get(bookingId) || Promise.resolve(true);
+    const run: Promise<boolean> = before.then(async () => {
+      const previous = restaurantsRef.current.flatMap(r => r.bookings).find(b => b.id === bookingId);
+      const optimistic = previous ? { ...previous, ...patch } : undefined;
+      if (optimistic) replaceBooking(optimistic);
+
+      try {
+        // Earlier offline changes must reach the server first, so queue behind them
+        if (!navigator.onLine || pendingMutationCountRef.current > 0) {
+          await queueMutation(mutation);
+          return true;
+        }
+        try {
+          replaceBooking(await sendMutation(mutation));
+        } catch (error) {
+          if (!isTransientError(error)) throw error;
+          await queueMutation(mutation);
+          return true;
+        }
+        if (previous) onSent?.(previous);
+        return true;
+      } catch (error) {
+        console.error(`Booking mutation ${mutation.kind}:${bookingId} failed:`, error);
+        if (previous && optimistic) {
+          setRestaurants(prev => prev.map(r => ({
+            ...r,
+            bookings: r.bookings.map(b => b === optimistic ? previous : b)
+          })));
+        }
+        showToast(t(failureKey, { reason: error instanceof Error ? error.message : t('common.error') }), 'error');
+        return false;
+      } finally {
+        inFlightMutations.current.delete(key);
+        if (bookingMutationTails.current.get(bookingId) === run) bookingMutationTails.current.delete(bookingId);
+      }
+    });
+
+    inFlightMutations.current.set(key, run);
+    bookingMutationTails.current.set(bookingId, run);
+    return run;
+  }, [replaceBooking, queueMutation, showToast, t]);
+
+  const updateBookingStatus = useCallback((bookingId: string, status: BookingStatus, declineReason?: string, tableId?: string, tableLabel?: string, duration?: number, tableIds?: string[], tableLabels?: string[], assignedTo?: string) => {
+    const patch: Partial<Booking> = {
+      status,
+      ...withoutUndefined({ declineReason, tableId, tableLabel, duration, tableIds, tableLabels, assignedTo })
+    };
+    return mutateBookingOptimistically(
+      bookingId,
+      patch,
+      { kind: 'status', bookingId, change: { status, declineReason, tableId, tableLabel, duration, tableIds, tableLabels, assignedTo } },
+      'admin.statusRolledBack',
+      // Nothing is offered for a change left in the offline queue; the server hasn't freed the slot yet
+      FREEING_STATUSES.includes(status) ? previous => { offerFreedSlot(previous); } : undefined
+    );
+  }, [mutateBookingOptimistically, offerFreedSlot]);
+
+  const updateBookingDetails = useCallback((bookingId: string, payload: BookingDetailsPayload) => {
+    const { dateTime, ...fields } = payload;
+    const patch: Partial<Booking> = {
+      ...withoutUndefined(fields),
+      ...(dateTime ? { dateTime: new Date(dateTime) } : {})
+    };
+    return mutateBookingOptimistically(
+      bookingId,
+      patch,
+      { kind: 'details', bookingId, payload },
+      'admin.detailsRolledBack'
+    );
+  }, [mutateBookingOptimistically]);
+
+  // The cleaning state lapses by itself after CLEANING_MINUTES unless a host clears it sooner.
+  // Without a connection the release itself is queued and the cleaning state is skipped.
+  const releaseTable = useCallback(async (booking: Booking) => {
+    if (!await updateBookingStatus(booking.id, BookingStatus.COMPLETED)) return;
+    if (!navigator.onLine) return;
+    const until = new Date(Date.now() + CLEANING_MINUTES * 60000).toISOString();
     try {
-      const updatedBooking = await api.bookings.updateDetails(bookingId, payload);
-      setRestaurants(prev => prev.map(r => ({
-        ...r,
-        bookings: r.bookings.map(b => b.id === bookingId ? {
-          ...b,
-          tableId: updatedBooking.table_id,
-          tableLabel: updatedBooking.table_label,
-          guestName: updatedBooking.guest_name,
-          guestPhone: updatedBooking.guest_phone,
-          guestEmail: updatedBooking.guest_email,
-          guestCount: updatedBooking.guest_count,
-          guestComment: updatedBooking.guest_comment,
-          assignedTo: updatedBooking.assigned_to,
-          duration: updatedBooking.duration,
-          dateTime: new Date(updatedBooking.date_time),
-          updatedAt: updatedBooking.updated_at ? new Date(updatedBooking.updated_at) : undefined
-        } : b)
-      })));
+      await Promise.all(bookingTableIds(booking).map(tableId => setTableState(booking.restaurantId, tableId, { state: 'cleaning', until })));
     } catch (error) {
-      console.error('Failed to update booking details:', error);
-      throw error;
+      if (!isTransientError(error)) throw error;
+      console.error('Failed to mark released tables for cleaning:', error);
     }
-  }, []);
+  }, [updateBookingStatus, setTableState]);
 
   useEffect(() => {
     loadRestaurants();
   }, [loadRestaurants]);
 
+  const applyBookingEvent = useCallback(({ booking }: BookingEvent) => {
+    setRestaurants(prev => prev.map(r => {
+      if (r.id !== booking.restaurantId) return r;
+      const exists = r.bookings.some(b => b.id === booking.id);
+      return {
+        ...r,
+        bookings: exists
+          ? r.bookings.map(b => b.id === booking.id ? booking : b)
+          : [...r.bookings, booking]
+      };
+    }));
+  }, []);
+
   useEffect(() => {
-    const interval = setInterval(async () => {
-      await api.bookings.cleanupExpired();
+    if (!trackedIdsKey) return;
+    return subscribeToBookingEvents(trackedIdsKey.split(','), {
+      onEvent: applyBookingEvent,
+      onStatusChange: setStreamStatus
+    });
+  }, [trackedIdsKey, applyBookingEvent]);
 
-      const todayStr = new Date().toISOString().split('T')[0];
-      for (const r of restaurants) {
-        await loadBookings(r.id, todayStr);
+  const refreshTodayBookings = useCallback(async () => {
+    const todayStr = new Date().toISOString().split('T')[0];
+    for (const id of trackedIdsKey.split(',').filter(Boolean)) {
+      await loadBookings(id, todayStr);
+    }
+  }, [trackedIdsKey, loadBookings]);
+
+  // Events sent while we were disconnected are lost, so resync once the stream is back
+  useEffect(() => {
+    if (streamStatus === 'open') {
+      refreshTodayBookings();
+    }
+  }, [streamStatus, refreshTodayBookings]);
+
+  // Fallback polling while the live stream is down
+  useEffect(() => {
+    if (streamStatus === 'open') return;
+
+    const interval = setInterval(async () => {
+      if (!navigator.onLine) return;
+      // A failed cleanup shouldn't hold back the refresh; the next tick tries again
+      try {
+        await api.bookings.cleanupExpired();
+      } catch (error) {
+        console.error('Failed to clean up expired bookings:', error);
       }
+      await refreshTodayBookings();
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [restaurants, loadBookings]);
+  }, [streamStatus, refreshTodayBookings]);
+
+  // Puts the server copy in place of whatever the queued change had applied locally
+  const applyMutationResult = useCallback((mutation: MutationInput, booking: Booking) => {
+    if (mutation.kind !== 'create') {
+      replaceBooking(booking);
+      return;
+    }
+    const created: Booking = {
+      ...booking,
+      tableIds: mutation.payload.tableIds || booking.tableIds,
+      tableLabels: mutation.payload.tableLabels || booking.tableLabels
+    };
+    // The live stream may already have delivered it, so drop both the placeholder and any copy
+    setRestaurants(prev => prev.map(r => r.id !== mutation.restaurantId ? r : {
+      ...r,
+      bookings: [...r.bookings.filter(b => b.id !== mutation.tempId && b.id !== created.id), created]
+    }));
+  }, [replaceBooking]);
+
+  const replayQueue = useCallback(async () => {
+    if (isReplayingRef.current || !navigator.onLine || !getSessionTokens()) return;
+    isReplayingRef.current = true;
+    let hadConflicts = false;
+    try {
+      await replayMutations({
+        onApplied: applyMutationResult,
+        onConflict: conflict => {
+          hadConflicts = true;
+          const { mutation } = conflict;
+          if (mutation.kind === 'create') {
+            setRestaurants(prev => prev.map(r => ({ ...r, bookings: r.bookings.filter(b => b.id !== mutation.tempId) })));
+          }
+          setMutationConflicts(prev => [...prev, conflict]);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to replay offline changes:', error);
+    } finally {
+      isReplayingRef.current = false;
+      await syncPendingMutationCount();
+    }
+    // Rejected changes were applied optimistically; pull the server's version back in
+    if (hadConflicts) await refreshTodayBookings();
+  }, [applyMutationResult, syncPendingMutationCount, refreshTodayBookings]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (snapshotSavedAt) loadRestaurants();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [snapshotSavedAt, loadRestaurants]);
+
+  useEffect(() => {
+    syncPendingMutationCount();
+  }, [syncPendingMutationCount]);
+
+  // Also runs on start-up so changes left over from a previous offline session go out
+  useEffect(() => {
+    if (isOnline) replayQueue();
+  }, [isOnline, replayQueue]);
+
+  useEffect(() => {
+    if (isLoading || restaurants.length === 0) return;
+    // Keep the original time while we are still showing a snapshot, so the banner stays honest
+    saveSnapshot(restaurants, snapshotSavedAt ?? undefined).catch(error => {
+      console.error('Failed to save offline snapshot:', error);
+    });
+  }, [restaurants, isLoading, snapshotSavedAt]);
+
+  const dismissConflict = useCallback((id: number) => {
+    setMutationConflicts(prev => prev.filter(c => c.id !== id));
+  }, []);
+
+  const retryConflict = useCallback(async (id: number) => {
+    const conflict = mutationConflicts.find(c => c.id === id);
+    if (!conflict) return;
+    try {
+      applyMutationResult(conflict.mutation, await sendMutation(conflict.mutation));
+      dismissConflict(id);
+    } catch (error) {
+      console.error('Failed to retry offline change:', error);
+      showToast(t('offline.retryFailed', { reason: error instanceof Error ? error.message : t('common.error') }), 'error');
+    }
+  }, [mutationConflicts, applyMutationResult, dismissConflict, showToast, t]);
 
   return (
     <DataContext.Provider value={{
       restaurants,
       isLoading,
+      loadError,
+      availability,
+      streamStatus,
+      isOnline,
+      snapshotSavedAt,
+      pendingMutationCount,
+      mutationConflicts,
+      dismissConflict,
+      retryConflict,
       getRestaurant,
       authenticateUser,
+      authenticateGuest,
+      restoreSession,
+      endSession,
       getAdminRestaurants,
       getOwnerRestaurants,
       addRestaurant,
       addBooking,
+      addBookingSeries,
+      updateBookingSeries,
+      cancelBookingSeries,
+      moveParty,
       updateBookingStatus,
       updateBookingDetails,
+      releaseTable,
       updateLayout,
       updateRestaurantSettings,
       loadRestaurants,
-      loadBookings
+      loadAvailability,
+      loadBookings,
+      loadEvents,
+      saveEvent,
+      cancelEvent,
+      loadTableStates,
+      setTableState,
+      clearTableState,
+      trackRestaurants
     }}>
       {children}
     </DataContext.Provider>
@@ -468,4 +848,4 @@ export const useData = (): DataContextType => {
     throw new Error('useData must be used within a DataProvider');
   }
   return context;
-};
\ No newline at end of file
+};
\ No newline at end of file
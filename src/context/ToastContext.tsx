@@ -0,0 +1,64 @@
+import React, { createContext, useState, useContext, ReactNode, useCallback, useRef } from 'react';
+
+export type ToastVariant = 'error' | 'success' | 'info';
+
+interface Toast {
+  id: number;
+  message: string;
+  variant: ToastVariant;
+}
+
+interface ToastContextType {
+  showToast: (message: string, variant?: ToastVariant) => void;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+const TOAST_DURATION_MS = 5000;
+
+const VARIANT_STYLES: Record<ToastVariant, string> = {
+  error: 'bg-brand-red text-white',
+  success: 'bg-brand-green text-white',
+  info: 'bg-[#1A1A1A] text-[#FAF9F6] border border-[#2A2A2A]'
+};
+
+export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, variant: ToastVariant = 'info') => {
+    const id = nextId.current++;
+    setToasts(prev => [...prev, { id, message, variant }]);
+    setTimeout(() => dismiss(id), TOAST_DURATION_MS);
+  }, [dismiss]);
+
+  return (
+    <ToastContext.Provider value={{ showToast }}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-[200] flex flex-col gap-2 max-w-sm w-[calc(100%-2rem)] pointer-events-none">
+        {toasts.map(toast => (
+          <div
+            key={toast.id}
+            role="alert"
+            onClick={() => dismiss(toast.id)}
+            className={`pointer-events-auto cursor-pointer px-4 py-3 rounded-lg shadow-xl text-sm font-medium animate-fadeIn ${VARIANT_STYLES[toast.variant]}`}
+          >
+            {toast.message}
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = (): ToastContextType => {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
@@ -12,9 +12,16 @@ export const kz = {
     app: {
         currentRestaurant: 'Ағымдағы мейрамхана:',
         changeRestaurant: 'Мейрамхананы өзгерту',
+        switchRestaurant: 'Мейрамханалар',
+        allRestaurants: 'Барлық мейрамханалар',
         logout: 'Шығу',
         available: 'Бос'
     },
+    forbidden: {
+        title: 'Қол жеткізу тыйым салынған',
+        message: 'Сіздің тіркелгіңізде бұл бетке немесе мейрамханаға құқық жоқ.',
+        backHome: 'Басты бетке'
+    },
     login: {
         noAdminRestaurants: 'Бұл email үшін қолжетімді мейрамханалар табылмады',
         noOwnerAccess: 'Бұл email үшін иесінің құқықтары табылмады',
@@ -54,6 +61,7 @@ export const kz = {
         bookTable: 'Үстелді брондау',
         reassignTable: 'Басқа үстелге ауыстыру:',
         tableCapacity: 'Үстел {{label}} (Сыйымдылығы: {{seats}})',
+        tableBusyAtTime: 'Бұл уақытта үстел бос емес',
         noTable: 'Үстелсіз (кейінірек тағайындалады)',
         capacityGuests: 'Сыйымдылығы: {{seats}} қонаққа дейін.',
         tableWillBeAssigned: '📋 Үстелді өтінім расталғаннан кейін әкімші тағайындайды.',
@@ -84,6 +92,8 @@ export const kz = {
         pleaseSelectResponsible: 'Жауапты тұлғаны көрсетіңіз (Менеджер / хостес аты).',
         capacityWarning: 'Таңдалған үстелдердің сыйымдылығы ({{totalSeats}}) қонақтар санынан ({{guestCount}}) аз. Жалғастырасыз ба?',
         statusUpdateError: 'Күйді жаңарту қатесі',
+        statusRolledBack: 'Күйді жаңарту мүмкін болмады ({{reason}}). Өзгеріс болдырылмады.',
+        detailsRolledBack: 'Броньды сақтау мүмкін болмады ({{reason}}). Өзгерістер болдырылмады.',
         provideDeclineReason: 'Бас тарту себебін көрсетіңіз.',
         assignedTables: 'Үстелдер: {{labels}}',
         assignedTable: 'Үстел {{label}}',
@@ -127,6 +137,7 @@ export const kz = {
         historyEmpty: 'Тарих бос',
         hallPlan: 'Зал жоспары',
         tableShort: 'Үст. {{labels}}',
+        menuTab: 'Мәзір',
         settingsTab: 'Параметрлер'
     },
     futureBookings: {
@@ -140,6 +151,7 @@ export const kz = {
         reason: 'Себебі',
         noBookingsFound: 'Бұл күнге бронь табылған жоқ',
         status: {
+            pending: 'Күтуде',
             confirmed: 'Расталған',
             occupied: 'Бос емес',
             completed: 'Аяқталған',
@@ -231,5 +243,384 @@ export const kz = {
             previewPhoto: 'Фотоны алдын ала қарау',
             saveSuccess: 'Параметрлер сәтті сақталды'
         }
+    },
+    team: {
+        tab: 'Команда',
+        title: 'Команда',
+        subtitle: 'Мейрамханаларыңыздың әкімшілері мен қызметкерлері.',
+        invite: 'Шақыру',
+        inviteTitle: 'Қызметкерді шақыру',
+        editTitle: 'Қызметкердің қолжетімділігі',
+        email: 'Email',
+        managerName: 'Аты',
+        role: 'Рөлі',
+        restaurants: 'Мейрамханалар',
+        noStaff: 'Бұл мейрамханада әзірге қызметкерлер жоқ',
+        invited: 'Шақыру жіберілді',
+        lastLogin: 'Соңғы кіру: {{date}}',
+        edit: 'Өзгерту',
+        resetPassword: 'Құпиясөзді қалпына келтіру',
+        revoke: 'Қолжетімділікті қайтарып алу',
+        confirmRevoke: '{{name}} қолжетімділігін қайтарып алу керек пе? Қызметкер енді кіре алмайды.',
+        confirmReset: '{{email}} мекенжайына құпиясөзді өзгерту сілтемесін жіберу керек пе?',
+        resetSent: 'Құпиясөзді өзгерту сілтемесі жіберілді',
+        sendInvite: 'Шақыру жіберу',
+        selectRestaurantError: 'Кемінде бір мейрамхананы таңдаңыз',
+        loadError: 'Қызметкерлер тізімін жүктеу мүмкін болмады',
+        saveError: 'Өзгерістерді сақтау мүмкін болмады',
+        resetError: 'Құпиясөзді қалпына келтіру мүмкін болмады',
+        revokeError: 'Қолжетімділікті қайтарып алу мүмкін болмады',
+        roles: {
+            HOST: 'Хостес',
+            ADMIN: 'Әкімші',
+            MANAGER: 'Менеджер'
+        }
+    },
+    offline: {
+        banner: 'Байланыс жоқ. Өзгерістер құрылғыда сақталып, автоматты түрде жіберіледі.',
+        snapshot: '{{time}} уақыттағы деректер',
+        pending: 'Жіберуді күтуде: {{count}}',
+        queued: 'Байланыс жоқ — өзгеріс сақталды, кейінірек жіберіледі',
+        conflictsTitle: 'Сервер байланыссыз жасалған өзгерістерді қабылдамады',
+        conflictStatus: 'Күйді өзгерту',
+        conflictDetails: 'Броньды өзгерту',
+        conflictCreate: 'Жаңа бронь',
+        keepServer: 'Сервердегідей қалдыру',
+        retry: 'Қайта қолдану',
+        retryFailed: 'Өзгерісті қолдану мүмкін болмады ({{reason}})'
+    },
+    apiError: {
+        maintenance: 'Қызмет техникалық қызмет көрсетуде. Бірнеше минуттан кейін қайталап көріңіз.',
+        forbidden: 'Бұл ресурсқа қол жеткізуге тыйым салынған.',
+        timeout: 'Сервер уақытында жауап бермеді. Байланысты тексеріп, қайталап көріңіз.',
+        network: 'Сервермен байланыс жоқ.',
+        retry: 'Қайталау'
+    },
+    tableSuggestion: {
+        title: 'Ұсынамыз: {{labels}} ({{seats}} орын)',
+        accept: 'Қабылдау',
+        applied: 'Таңдалды',
+        none: 'Бұл уақытта қатар тұрған бос үстелдер жоқ'
+    },
+    waitlist: {
+        title: 'Күту тізімі',
+        intro: 'Бос орын жоқ. Нөміріңізді қалдырыңыз — қажетті уақытта үстел босаса, бірден хабарлаймыз.',
+        joinPrompt: 'Орын жоқ па? Күту тізіміне жазылу',
+        joinShort: 'Күту тізімі',
+        join: 'Кезекке тұру',
+        date: 'Күні',
+        guests: 'Қонақтар',
+        from: 'Бастап',
+        to: 'Дейін',
+        notifyPush: 'Браузерге хабарлама жіберу (әйтпесе — SMS)',
+        fillNameAndPhone: 'Атыңызды және дұрыс телефон нөмірін көрсетіңіз.',
+        joinError: 'Күту тізіміне жазылу мүмкін болмады',
+        joinedTitle: 'Сіз күту тізіміндесіз',
+        joinedMessage: 'Таңдалған уақытта орын босаған бойда хабарлаймыз.',
+        adminTitle: 'Күту тізімі',
+        empty: 'Ешкім күтіп тұрған жоқ',
+        offered: 'Босаған орын {{name}} қонағына ұсынылды',
+        offerFailed: 'Орынды ұсыну мүмкін болмады ({{reason}})',
+        offeredSlot: '{{time}} уақытына {{channel}} арқылы ұсынылды',
+        confirmRemove: '{{name}} күту тізімінен жойылсын ба?',
+        remove: 'Жою',
+        status: {
+            waiting: 'Күтуде',
+            offered: 'Ұсынылды',
+            booked: 'Брондады',
+            expired: 'Мерзімі өтті',
+            cancelled: 'Бас тартылды'
+        },
+        channel: {
+            push: 'push',
+            sms: 'SMS'
+        }
+    },
+    manageBooking: {
+        title: 'Менің броным',
+        loadError: 'Брондау туралы ақпаратты жүктеу мүмкін болмады',
+        notFound: 'Брондау табылмады немесе сілтеме жарамсыз',
+        guest: 'Қонақ:',
+        dateTime: 'Күні мен уақыты:',
+        guests: 'Қонақтар саны:',
+        table: 'Үстел:',
+        status: 'Күйі:',
+        statuses: {
+            PENDING: 'Растауды күтуде',
+            CONFIRMED: 'Расталды',
+            DECLINED: 'Қабылданбады',
+            CANCELLED: 'Бас тартылды',
+            OCCUPIED: 'Қонақтар үстелде',
+            COMPLETED: 'Аяқталды'
+        },
+        newDate: 'Күні',
+        newTime: 'Уақыты',
+        partySize: 'Қонақтар саны ({{max}} артық емес)',
+        comment: 'Мейрамханаға түсініктеме',
+        approvalNote: 'Жаңа уақыт пен қонақтар санын мейрамхана бөлек растайды — оған дейін брон күту күйінде болады.',
+        save: 'Өзгерістерді сақтау',
+        saved: 'Өзгерістер сақталды',
+        sentForApproval: 'Өзгерістер мейрамханаға растауға жіберілді',
+        nothingChanged: 'Сіз ештеңе өзгертпедіңіз',
+        saveError: 'Өзгерістерді сақтау мүмкін болмады',
+        cannotModify: 'Бұл брондауды енді өзгерту мүмкін емес.',
+        cancelLink: 'Брондаудан бас тарту'
+    },
+    guestAuth: {
+        title: 'Телефон нөмірі арқылы кіру',
+        signInButton: 'Кіру',
+        intro: 'Біз кодпен SMS жібереміз. Кіргеннен кейін аты-жөніңіз бен телефоныңыз брондауға өзі толтырылады, ал барлық брондарыңыз бір тізімде болады.',
+        codeSent: 'Код {{phone}} нөміріне жіберілді',
+        codePlaceholder: 'SMS-тегі код',
+        sendCode: 'Код алу',
+        signIn: 'Кіру',
+        resend: 'Қайта жіберу',
+        changePhone: 'Нөмірді өзгерту',
+        invalidPhone: 'Нөмірді +7 (XXX) XXX-XX-XX форматында енгізіңіз',
+        sendError: 'Кодты жіберу мүмкін болмады',
+        wrongCode: 'Код қате немесе ескірген',
+        devCode: 'SMS тест режимі. Код: {{code}}'
+    },
+    myBookings: {
+        title: 'Менің брондарым',
+        upcoming: 'Алдағы',
+        past: 'Өткен',
+        empty: 'Сізде әзірге брондау жоқ',
+        loadError: 'Брондарыңызды жүктеу мүмкін болмады',
+        manage: 'Өзгерту',
+        rebook: 'Қайта брондау'
+    },
+    deposit: {
+        title: 'Алдын ала төлем',
+        required: 'Броньды бекіту үшін мейрамхана депозит енгізуді сұрайды',
+        perPersonBreakdown: '{{amount}} × {{count}} қонақ',
+        nextStep: 'Депозит — төлем келесі қадамда',
+        alreadyPaid: 'Депозит төленді',
+        continueToPayment: 'Төлемге өту',
+        pay: '{{amount}} төлеу',
+        paying: 'Төлем...',
+        back: 'Артқа',
+        paymentDeclined: 'Төлем қабылданбады. Басқа картаны қолданып көріңіз.',
+        paymentCancelled: 'Төлем тоқтатылды',
+        paymentError: 'Төлемді өткізу мүмкін болмады',
+        paidNote: '{{amount}} депозит төленді',
+        cancelRefund: 'Бас тартқаннан кейін {{amount}} депозит қайтарылады.',
+        cancelRetained: 'Келуге тым аз уақыт қалды: {{amount}} депозит қайтарылмайды.',
+        status: {
+            paid: 'Депозит {{amount}}',
+            refunded: '{{amount}} қайтарылды',
+            partially_refunded: '{{amount}} ішінара қайтарылды',
+            retained: '{{amount}} ұсталды'
+        },
+        settingsTitle: 'Алдын ала төлем (депозит)',
+        rulesHint: 'Ережелер жоғарыдан төмен тексеріледі, бірінші сәйкес келгені қолданылады. Бос шарттар кез келген броньға сәйкес келеді. Ережелер болмаса, депозит алынбайды.',
+        ruleTitle: '{{n}}-ереже',
+        addRule: 'Ереже қосу',
+        removeRule: 'Жою',
+        mode: 'Түрі',
+        modes: {
+            per_person: 'Әр қонаққа',
+            flat: 'Броньға'
+        },
+        amount: 'Сомасы, ₸',
+        fromTime: 'Басталуы (уақыт)',
+        toTime: 'Дейін',
+        minGuests: 'Қонақтар саны кемінде',
+        weekdays: 'Апта күндері (бос — барлығы)'
+    },
+    cancellationPolicy: {
+        settingsTitle: 'Броньдан бас тарту және келмеу',
+        fields: {
+            freeCancelHours: 'Тегін бас тарту, кемінде ... сағ. бұрын',
+            lateCancelPenaltyPercent: 'Кеш бас тартқаны үшін айыппұл, депозиттің %',
+            noShowAfterMinutes: 'Басталғаннан кейін ... мин. өтсе, келмеді деп санау',
+            confirmWithinMinutes: 'Өтінімге жауап беру мерзімі, мин.',
+            reasons: 'Қонаққа арналған бас тарту себептері'
+        },
+        reasonsHint: 'Түсініктемесі бар «Басқа» нұсқасын қонақ әрқашан көреді.',
+        addReason: 'Себеп қосу',
+        freeUntil: 'Тегін бас тарту — {{date}} дейін.',
+        freePeriodOver: 'Тегін бас тарту келуге дейін кемінде {{hours}} сағ. бұрын мүмкін — бұл мерзім өтіп кетті.',
+        latePenalty: 'Кешірек бас тартқанда мейрамхана депозиттің {{percent}}% ұстайды.',
+        lateNoPenalty: 'Кешірек бас тартқанда да депозит қайтарылады.',
+        noShowRule: '{{minutes}} мин. артық кешіксеңіз, брон алынып тасталуы мүмкін.',
+        noShowRuleDeposit: 'Басталғаннан кейін {{minutes}} мин. ішінде келмесеңіз, депозит мейрамханада қалады.',
+        noShow: 'Келмеді'
+    },
+    bookingTags: {
+        title: 'Ерекше тілектер',
+        profileTitle: 'Қонақтың қалаулары',
+        profileHint: 'Қонақтың брондарынан алынады. Әр келгенде есте болуы керек нәрсені белгілеңіз.',
+        profileSaved: 'Қалаулар сақталды',
+        categories: {
+            occasion: 'Себеп',
+            dietary: 'Тамақтану және аллергия',
+            seating: 'Қай жерде отыру',
+            accessibility: 'Ыңғайлылық'
+        },
+        tags: {
+            birthday: 'Туған күн',
+            anniversary: 'Мерейтой',
+            business: 'Іскерлік кешкі ас',
+            date: 'Кездесу',
+            vegetarian: 'Вегетариандық',
+            vegan: 'Вегандық',
+            gluten_free: 'Глютенсіз',
+            lactose_free: 'Лактозасыз',
+            nut_allergy: 'Жаңғаққа аллергия',
+            seafood_allergy: 'Теңіз өнімдеріне аллергия',
+            window: 'Терезе жанында',
+            quiet: 'Тыныш орын',
+            terrace: 'Терраса',
+            high_chair: 'Балалар орындығы',
+            wheelchair: 'Арбамен кіру'
+        }
+    },
+    bookingSeries: {
+        repeat: 'Брондауды қайталау',
+        frequency: 'Қайталау',
+        weekly: 'Әр апта сайын',
+        daily: 'Әр N күн сайын',
+        everyWeeks: 'Неше апта сайын',
+        everyDays: 'Неше күн сайын',
+        ends: 'Аяқталуы',
+        afterCount: 'N келуден кейін',
+        onDate: 'Күні',
+        pickTime: 'Серия күндерін тексеру үшін уақытты таңдаңыз',
+        checking: 'Бос үстелдерді тексеріп жатырмыз...',
+        checkError: 'Күндерді тексеру мүмкін болмады. Қайта көріңіз.',
+        summary: 'Барлық {{total}} келу бос',
+        summaryWithConflicts: 'Келулер: {{total}}, қайшылықтары барлар: {{conflicts}} — олар өткізіліп жіберіледі',
+        conflicts: {
+            closed: 'Жабық',
+            table_taken: 'Үстел бос емес',
+            no_tables: 'Үстел жоқ'
+        },
+        nothingToBook: 'Серияның барлық күндері бос емес — брондайтын ештеңе жоқ',
+        createSeries: 'Серия құру',
+        created: 'Құрылған брондаулар: {{count}}',
+        applyToSeries: 'Серияның барлық алдағы келулеріне қолдану',
+        applyToSeriesHint: 'Әр келудің күні сақталады, уақыты, қонақтар, үстелдер мен тілектер өзгереді',
+        updated: 'Серия жаңартылды',
+        badge: 'Серия',
+        cancelSeries: 'Серияны болдырмау',
+        cancelSeriesConfirm: 'Осы серияның барлық алдағы келулерін болдырмау керек пе?',
+        seriesCancelled: 'Серия тоқтатылды'
+    },
+    events: {
+        tab: 'Іс-шаралар',
+        title: 'Іс-шаралар мен жабық банкеттер',
+        subtitle: 'Бұл уақытта зал немесе үстелдер қарапайым брондауға қолжетімсіз',
+        add: 'Жаңа іс-шара',
+        edit: 'Өзгерту',
+        name: 'Атауы',
+        date: 'Күні',
+        from: 'Басталуы',
+        to: 'Аяқталуы',
+        headcount: 'Қонақтар саны',
+        headcountShort: '{{count}} қонақ',
+        menuPackage: 'Мәзір пакеті',
+        contactName: 'Байланыс тұлғасы',
+        contactPhone: 'Байланыс телефоны',
+        floors: 'Толық залдар',
+        extraTables: 'Жеке үстелдер',
+        notes: 'Жазбалар',
+        tablesList: 'үстелдер {{labels}}',
+        tablesHeld: 'үстелдер: {{count}}',
+        nameRequired: 'Іс-шараның атауын көрсетіңіз',
+        scopeRequired: 'Залды немесе кемінде бір үстелді таңдаңыз',
+        saved: 'Іс-шара сақталды',
+        saveError: 'Іс-шараны сақтау мүмкін болмады',
+        cancelConfirm: '«{{name}}» іс-шарасын болдырмау керек пе? Үстелдер қайтадан брондауға қолжетімді болады.',
+        cancelled: 'Іс-шара тоқтатылды',
+        empty: 'Жоспарланған іс-шаралар жоқ',
+        privateEvent: 'Жабық іс-шара',
+        floorClosedUntil: 'Зал жабық {{time}}'
+    },
+    timeline: {
+        cards: 'Карточкалар',
+        timeline: 'Таймлайн',
+        seats: '{{count}} орын',
+        noTables: 'Зал жоспарында үстелдер жоқ',
+        overlapConfirm: 'Бұл уақытта үстел бос емес. Брондауды бәрібір ауыстыру керек пе?'
+    },
+    walkIn: {
+        title: '{{table}} үстеліне қонақтарды отырғызу',
+        hint: 'Атысыз және телефонсыз, үстел {{duration}} мин. бос болмайды.',
+        partySize: 'Қанша қонақ?',
+        guestName: 'Қонақ (Walk-in)',
+        seated: '{{table}} үстелі: отырғызылған қонақтар — {{count}}',
+        fullBooking: 'Толық бронь',
+        addPhone: 'телефон'
+    },
+    tableStates: {
+        title: '{{table}} үстелі',
+        change: 'Үстел күйі',
+        states: {
+            cleaning: 'Жинау',
+            blocked: 'Қолжетімсіз',
+            held: 'VIP резерв'
+        },
+        untilLabel: 'Дейін (бос болса — қолмен алынғанша)',
+        until: '{{time}} дейін',
+        untilCleared: 'Қолмен алынғанша',
+        notePlaceholder: 'Себебі, мысалы: орындық сынған',
+        heldNotePlaceholder: 'Үстел кім үшін ұсталады',
+        apply: 'Қолдану',
+        markFree: 'Үстелді босату',
+        saved: '{{table}} үстелі: {{state}}',
+        cleared: '{{table}} үстелі қайтадан бос',
+        reservedIn: '{{minutes}} мин. кейін бронь'
+    },
+    partyMove: {
+        confirmMove: '{{name}} қонақтарын {{table}} үстеліне ауыстыру керек пе?',
+        confirmSwap: '{{from}} және {{to}} үстелдерінің қонақтарын алмастыру керек пе?',
+        bookingConflict: '⚠ {{table}} үстелі: {{time}} бронь ({{name}})',
+        eventConflict: '⚠ «{{name}}» іс-шарасы, {{time}}',
+        targetUnavailable: '{{table}} үстелі: {{state}}. Алдымен оны босатыңыз.',
+        moved: '{{name}} қонақтары {{table}} үстеліне ауыстырылды',
+        swapped: '{{from}} және {{to}} үстелдерінің қонақтары алмастырылды',
+        movedFrom: '{{tables}} үстелінен ауысты',
+        historyEntry: '{{time}}: {{from}} → {{to}} ({{by}})'
+    },
+    bookingHistory: {
+        title: 'Өзгерістер тарихы',
+        show: 'Тарих',
+        loading: 'Тарих жүктелуде...',
+        empty: 'Әзірге өзгерістер болған жоқ',
+        notSynced: 'Бронь серверге әлі жіберілмеген — тарих синхрондаудан кейін пайда болады.',
+        yes: 'иә',
+        no: 'жоқ',
+        actions: {
+            created: 'Жасалды',
+            confirmed: 'Расталды',
+            declined: 'Қабылданбады',
+            seated: 'Қонақтар отырды',
+            completed: 'Үстел босатылды',
+            duration_extended: 'Ұзартылды',
+            moved: 'Ауыстыру',
+            edited: 'Өзгертілді',
+            cancelled: 'Тоқтатылды'
+        },
+        roles: {
+            guest: 'Қонақ',
+            staff: 'Қызметкер',
+            system: 'Жүйе'
+        },
+        fields: {
+            status: 'Күйі',
+            dateTime: 'Уақыты',
+            duration: 'Ұзақтығы',
+            guestCount: 'Қонақтар',
+            guestName: 'Аты',
+            guestPhone: 'Телефон',
+            guestEmail: 'Email',
+            tableLabels: 'Үстелдер',
+            assignedTo: 'Жауапты',
+            guestComment: 'Пікір',
+            tags: 'Белгілер',
+            declineReason: 'Бас тарту себебі',
+            cancelReason: 'Болдырмау себебі'
+        }
     }
 };
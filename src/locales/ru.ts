@@ -12,9 +12,16 @@ export const ru = {
     app: {
         currentRestaurant: 'Текущий ресторан:',
         changeRestaurant: 'Сменить ресторан',
+        switchRestaurant: 'Рестораны',
+        allRestaurants: 'Все рестораны',
         logout: 'Выйти',
         available: 'Свободно'
     },
+    forbidden: {
+        title: 'Доступ запрещён',
+        message: 'У вашей учётной записи нет прав на эту страницу или ресторан.',
+        backHome: 'На главную'
+    },
     login: {
         noAdminRestaurants: 'Для этого email не найдено доступных ресторанов',
         noOwnerAccess: 'Для этого email не найдено прав доступа владельца',
@@ -54,6 +61,7 @@ export const ru = {
         bookTable: 'Забронировать стол',
         reassignTable: 'Пересадить за стол:',
         tableCapacity: 'Стол {{label}} (Вместимость: {{seats}})',
+        tableBusyAtTime: 'Стол занят в это время',
         noTable: 'Без стола (назначается позже)',
         capacityGuests: 'Вместимость: до {{seats}} гостей.',
         tableWillBeAssigned: '📋 Стол для Вас будет определен менеджером ресторана после подтверждения заявки',
@@ -84,6 +92,8 @@ export const ru = {
         pleaseSelectResponsible: 'Пожалуйста, укажите ответственного (Имя менеджера / хостес).',
         capacityWarning: 'Вместимости выбранных столов ({{totalSeats}}) меньше, чем гостей ({{guestCount}}). Продолжить?',
         statusUpdateError: 'Ошибка обновления статуса',
+        statusRolledBack: 'Не удалось обновить статус ({{reason}}). Изменение отменено.',
+        detailsRolledBack: 'Не удалось сохранить бронь ({{reason}}). Изменения отменены.',
         provideDeclineReason: 'Пожалуйста, укажите причину отклонения.',
         assignedTables: 'Столы: {{labels}}',
         assignedTable: 'Стол {{label}}',
@@ -127,6 +137,7 @@ export const ru = {
         historyEmpty: 'История пуста',
         hallPlan: 'План зала',
         tableShort: 'Ст. {{labels}}',
+        menuTab: 'Меню',
         settingsTab: 'Настройки'
     },
     futureBookings: {
@@ -140,6 +151,7 @@ export const ru = {
         reason: 'Причина',
         noBookingsFound: 'На этот день бронирований не найдено',
         status: {
+            pending: 'Ожидает',
             confirmed: 'Подтверждено',
             occupied: 'Занят',
             completed: 'Завершено',
@@ -231,5 +243,384 @@ export const ru = {
             previewPhoto: 'Предпросмотр фото',
             saveSuccess: 'Настройки успешно сохранены'
         }
+    },
+    team: {
+        tab: 'Команда',
+        title: 'Команда',
+        subtitle: 'Администраторы и сотрудники ваших ресторанов.',
+        invite: 'Пригласить',
+        inviteTitle: 'Пригласить сотрудника',
+        editTitle: 'Доступ сотрудника',
+        email: 'Email',
+        managerName: 'Имя',
+        role: 'Роль',
+        restaurants: 'Рестораны',
+        noStaff: 'В этом ресторане пока нет сотрудников',
+        invited: 'Приглашение отправлено',
+        lastLogin: 'Последний вход: {{date}}',
+        edit: 'Изменить',
+        resetPassword: 'Сбросить пароль',
+        revoke: 'Отозвать доступ',
+        confirmRevoke: 'Отозвать доступ у {{name}}? Сотрудник больше не сможет войти.',
+        confirmReset: 'Отправить на {{email}} ссылку для смены пароля?',
+        resetSent: 'Ссылка для смены пароля отправлена',
+        sendInvite: 'Отправить приглашение',
+        selectRestaurantError: 'Выберите хотя бы один ресторан',
+        loadError: 'Не удалось загрузить список сотрудников',
+        saveError: 'Не удалось сохранить изменения',
+        resetError: 'Не удалось сбросить пароль',
+        revokeError: 'Не удалось отозвать доступ',
+        roles: {
+            HOST: 'Хостес',
+            ADMIN: 'Администратор',
+            MANAGER: 'Менеджер'
+        }
+    },
+    offline: {
+        banner: 'Нет соединения. Изменения сохраняются на устройстве и отправятся автоматически.',
+        snapshot: 'Данные от {{time}}',
+        pending: 'Ожидают отправки: {{count}}',
+        queued: 'Нет соединения — изменение сохранено и будет отправлено позже',
+        conflictsTitle: 'Сервер не принял изменения, сделанные без связи',
+        conflictStatus: 'Смена статуса',
+        conflictDetails: 'Изменение брони',
+        conflictCreate: 'Новая бронь',
+        keepServer: 'Оставить как на сервере',
+        retry: 'Применить снова',
+        retryFailed: 'Не удалось применить изменение ({{reason}})'
+    },
+    apiError: {
+        maintenance: 'Сервис на техническом обслуживании. Попробуйте через несколько минут.',
+        forbidden: 'Доступ к этому ресурсу запрещён.',
+        timeout: 'Сервер не ответил вовремя. Проверьте соединение и попробуйте снова.',
+        network: 'Нет соединения с сервером.',
+        retry: 'Повторить'
+    },
+    tableSuggestion: {
+        title: 'Рекомендуем: {{labels}} ({{seats}} мест)',
+        accept: 'Принять',
+        applied: 'Выбрано',
+        none: 'Нет свободных столов рядом друг с другом на это время'
+    },
+    waitlist: {
+        title: 'Лист ожидания',
+        intro: 'Свободных мест нет. Оставьте номер — если в нужное время освободится стол, мы сразу сообщим.',
+        joinPrompt: 'Нет мест? Встать в лист ожидания',
+        joinShort: 'Лист ожидания',
+        join: 'Встать в очередь',
+        date: 'Дата',
+        guests: 'Гостей',
+        from: 'С',
+        to: 'До',
+        notifyPush: 'Прислать уведомление в браузер (иначе — SMS)',
+        fillNameAndPhone: 'Пожалуйста, укажите имя и корректный номер телефона.',
+        joinError: 'Не удалось записаться в лист ожидания',
+        joinedTitle: 'Вы в листе ожидания',
+        joinedMessage: 'Мы сообщим, как только освободится место в выбранное время.',
+        adminTitle: 'Лист ожидания',
+        empty: 'Никто не ждёт',
+        offered: 'Освободившееся место предложено гостю {{name}}',
+        offerFailed: 'Не удалось предложить место ({{reason}})',
+        offeredSlot: 'Предложено на {{time}} через {{channel}}',
+        confirmRemove: 'Удалить {{name}} из листа ожидания?',
+        remove: 'Удалить',
+        status: {
+            waiting: 'Ждёт',
+            offered: 'Предложено',
+            booked: 'Забронировал',
+            expired: 'Истекло',
+            cancelled: 'Отменено'
+        },
+        channel: {
+            push: 'push',
+            sms: 'SMS'
+        }
+    },
+    manageBooking: {
+        title: 'Моё бронирование',
+        loadError: 'Не удалось загрузить информацию о бронировании',
+        notFound: 'Бронирование не найдено или ссылка недействительна',
+        guest: 'Гость:',
+        dateTime: 'Дата и время:',
+        guests: 'Кол-во гостей:',
+        table: 'Столик:',
+        status: 'Статус:',
+        statuses: {
+            PENDING: 'Ожидает подтверждения',
+            CONFIRMED: 'Подтверждено',
+            DECLINED: 'Отклонено',
+            CANCELLED: 'Отменено',
+            OCCUPIED: 'Гости за столом',
+            COMPLETED: 'Завершено'
+        },
+        newDate: 'Дата',
+        newTime: 'Время',
+        partySize: 'Количество гостей (не больше {{max}})',
+        comment: 'Комментарий для ресторана',
+        approvalNote: 'Новое время и количество гостей ресторан подтвердит отдельно — до этого бронь будет в статусе ожидания.',
+        save: 'Сохранить изменения',
+        saved: 'Изменения сохранены',
+        sentForApproval: 'Изменения отправлены ресторану на подтверждение',
+        nothingChanged: 'Вы ничего не изменили',
+        saveError: 'Не удалось сохранить изменения',
+        cannotModify: 'Это бронирование уже нельзя изменить.',
+        cancelLink: 'Отменить бронирование'
+    },
+    guestAuth: {
+        title: 'Вход по номеру телефона',
+        signInButton: 'Войти',
+        intro: 'Мы отправим SMS с кодом. После входа имя и телефон подставятся в бронирование, а все ваши брони будут в одном списке.',
+        codeSent: 'Код отправлен на {{phone}}',
+        codePlaceholder: 'Код из SMS',
+        sendCode: 'Получить код',
+        signIn: 'Войти',
+        resend: 'Отправить ещё раз',
+        changePhone: 'Изменить номер',
+        invalidPhone: 'Введите номер в формате +7 (XXX) XXX-XX-XX',
+        sendError: 'Не удалось отправить код',
+        wrongCode: 'Неверный или устаревший код',
+        devCode: 'Тестовый режим SMS. Код: {{code}}'
+    },
+    myBookings: {
+        title: 'Мои брони',
+        upcoming: 'Предстоящие',
+        past: 'Прошедшие',
+        empty: 'У вас пока нет бронирований',
+        loadError: 'Не удалось загрузить ваши бронирования',
+        manage: 'Изменить',
+        rebook: 'Забронировать снова'
+    },
+    deposit: {
+        title: 'Предоплата',
+        required: 'Ресторан просит внести депозит, чтобы закрепить бронь',
+        perPersonBreakdown: '{{amount}} × {{count}} гост.',
+        nextStep: 'Депозит — оплата на следующем шаге',
+        alreadyPaid: 'Депозит оплачен',
+        continueToPayment: 'Перейти к оплате',
+        pay: 'Оплатить {{amount}}',
+        paying: 'Оплата...',
+        back: 'Назад',
+        paymentDeclined: 'Платёж отклонён. Попробуйте другую карту.',
+        paymentCancelled: 'Оплата отменена',
+        paymentError: 'Не удалось провести оплату',
+        paidNote: 'Депозит {{amount}} оплачен',
+        cancelRefund: 'Депозит {{amount}} будет возвращён после отмены.',
+        cancelRetained: 'До визита осталось слишком мало времени: депозит {{amount}} не возвращается.',
+        status: {
+            paid: 'Депозит {{amount}}',
+            refunded: 'Возвращено {{amount}}',
+            partially_refunded: 'Возвращено частично из {{amount}}',
+            retained: 'Удержано {{amount}}'
+        },
+        settingsTitle: 'Предоплата (депозит)',
+        rulesHint: 'Правила проверяются сверху вниз, срабатывает первое подходящее. Пустые условия подходят для любой брони. Без правил депозит не берётся.',
+        ruleTitle: 'Правило {{n}}',
+        addRule: 'Добавить правило',
+        removeRule: 'Удалить',
+        mode: 'Тип',
+        modes: {
+            per_person: 'За гостя',
+            flat: 'За бронь'
+        },
+        amount: 'Сумма, ₸',
+        fromTime: 'С (время начала)',
+        toTime: 'До',
+        minGuests: 'От скольки гостей',
+        weekdays: 'Дни недели (пусто — все)'
+    },
+    cancellationPolicy: {
+        settingsTitle: 'Отмена брони и неявка',
+        fields: {
+            freeCancelHours: 'Бесплатная отмена не позже чем за, ч.',
+            lateCancelPenaltyPercent: 'Штраф за позднюю отмену, % депозита',
+            noShowAfterMinutes: 'Считать неявкой через, мин. после начала',
+            confirmWithinMinutes: 'Срок ответа на заявку, мин.',
+            reasons: 'Причины отмены для гостя'
+        },
+        reasonsHint: 'Вариант «Другое» с комментарием гость видит всегда.',
+        addReason: 'Добавить причину',
+        freeUntil: 'Бесплатная отмена — до {{date}}.',
+        freePeriodOver: 'Бесплатная отмена возможна не позже чем за {{hours}} ч. до визита — этот срок уже прошёл.',
+        latePenalty: 'При более поздней отмене ресторан удерживает {{percent}}% депозита.',
+        lateNoPenalty: 'При более поздней отмене депозит всё равно вернётся.',
+        noShowRule: 'Если вы опоздаете больше чем на {{minutes}} мин., бронь может быть снята.',
+        noShowRuleDeposit: 'Если вы не придёте в течение {{minutes}} мин. после начала, депозит останется у ресторана.',
+        noShow: 'Неявка'
+    },
+    bookingTags: {
+        title: 'Особые пожелания',
+        profileTitle: 'Предпочтения гостя',
+        profileHint: 'Подставляются из броней гостя. Отметьте то, что важно помнить при каждом визите.',
+        profileSaved: 'Предпочтения сохранены',
+        categories: {
+            occasion: 'Повод',
+            dietary: 'Питание и аллергии',
+            seating: 'Где сидеть',
+            accessibility: 'Удобства'
+        },
+        tags: {
+            birthday: 'День рождения',
+            anniversary: 'Годовщина',
+            business: 'Деловой ужин',
+            date: 'Свидание',
+            vegetarian: 'Вегетарианское',
+            vegan: 'Веганское',
+            gluten_free: 'Без глютена',
+            lactose_free: 'Без лактозы',
+            nut_allergy: 'Аллергия на орехи',
+            seafood_allergy: 'Аллергия на морепродукты',
+            window: 'У окна',
+            quiet: 'Тихое место',
+            terrace: 'Терраса',
+            high_chair: 'Детский стульчик',
+            wheelchair: 'Доступ для коляски'
+        }
+    },
+    bookingSeries: {
+        repeat: 'Повторять бронь',
+        frequency: 'Повтор',
+        weekly: 'Каждую неделю',
+        daily: 'Каждые N дней',
+        everyWeeks: 'Раз в сколько недель',
+        everyDays: 'Раз в сколько дней',
+        ends: 'Окончание',
+        afterCount: 'После N визитов',
+        onDate: 'В дату',
+        pickTime: 'Выберите время, чтобы проверить даты серии',
+        checking: 'Проверяем свободные столы...',
+        checkError: 'Не удалось проверить даты. Попробуйте ещё раз.',
+        summary: 'Все {{total}} визитов свободны',
+        summaryWithConflicts: 'Визитов: {{total}}, с конфликтами: {{conflicts}} — они будут пропущены',
+        conflicts: {
+            closed: 'Закрыто',
+            table_taken: 'Стол занят',
+            no_tables: 'Нет столов'
+        },
+        nothingToBook: 'Все даты серии заняты — бронировать нечего',
+        createSeries: 'Создать серию',
+        created: 'Создано бронирований: {{count}}',
+        applyToSeries: 'Применить ко всем будущим визитам серии',
+        applyToSeriesHint: 'Дата каждого визита сохранится, изменятся время, гости, столы и пожелания',
+        updated: 'Серия обновлена',
+        badge: 'Серия',
+        cancelSeries: 'Отменить серию',
+        cancelSeriesConfirm: 'Отменить все будущие визиты этой серии?',
+        seriesCancelled: 'Серия отменена'
+    },
+    events: {
+        tab: 'Мероприятия',
+        title: 'Мероприятия и закрытые банкеты',
+        subtitle: 'Зал или столы на это время недоступны для обычных броней',
+        add: 'Новое мероприятие',
+        edit: 'Изменить',
+        name: 'Название',
+        date: 'Дата',
+        from: 'Начало',
+        to: 'Конец',
+        headcount: 'Количество гостей',
+        headcountShort: '{{count}} гостей',
+        menuPackage: 'Пакет меню',
+        contactName: 'Контактное лицо',
+        contactPhone: 'Телефон контакта',
+        floors: 'Залы целиком',
+        extraTables: 'Отдельные столы',
+        notes: 'Заметки',
+        tablesList: 'столы {{labels}}',
+        tablesHeld: 'столов: {{count}}',
+        nameRequired: 'Укажите название мероприятия',
+        scopeRequired: 'Выберите зал или хотя бы один стол',
+        saved: 'Мероприятие сохранено',
+        saveError: 'Не удалось сохранить мероприятие',
+        cancelConfirm: 'Отменить мероприятие «{{name}}»? Столы снова станут доступны для брони.',
+        cancelled: 'Мероприятие отменено',
+        empty: 'Запланированных мероприятий нет',
+        privateEvent: 'Закрытое мероприятие',
+        floorClosedUntil: 'Зал закрыт {{time}}'
+    },
+    timeline: {
+        cards: 'Карточки',
+        timeline: 'Таймлайн',
+        seats: '{{count}} мест',
+        noTables: 'На плане зала нет столов',
+        overlapConfirm: 'В это время стол уже занят. Всё равно переместить бронь?'
+    },
+    walkIn: {
+        title: 'Посадить гостей за стол {{table}}',
+        hint: 'Без имени и телефона, стол займётся на {{duration}} мин.',
+        partySize: 'Сколько гостей?',
+        guestName: 'Гость (Walk-in)',
+        seated: 'Стол {{table}}: посажено гостей — {{count}}',
+        fullBooking: 'Полная бронь',
+        addPhone: 'телефон'
+    },
+    tableStates: {
+        title: 'Стол {{table}}',
+        change: 'Статус стола',
+        states: {
+            cleaning: 'Уборка',
+            blocked: 'Недоступен',
+            held: 'Резерв VIP'
+        },
+        untilLabel: 'До (пусто — пока не снимут вручную)',
+        until: 'До {{time}}',
+        untilCleared: 'Пока не снимут вручную',
+        notePlaceholder: 'Причина, например: сломан стул',
+        heldNotePlaceholder: 'Для кого держим стол',
+        apply: 'Применить',
+        markFree: 'Освободить стол',
+        saved: 'Стол {{table}}: {{state}}',
+        cleared: 'Стол {{table}} снова свободен',
+        reservedIn: 'бронь через {{minutes}} мин'
+    },
+    partyMove: {
+        confirmMove: 'Пересадить {{name}} за стол {{table}}?',
+        confirmSwap: 'Поменять местами гостей столов {{from}} и {{to}}?',
+        bookingConflict: '⚠ Стол {{table}}: бронь в {{time}} ({{name}})',
+        eventConflict: '⚠ Мероприятие «{{name}}», {{time}}',
+        targetUnavailable: 'Стол {{table}}: {{state}}. Сначала освободите его.',
+        moved: '{{name}} пересажены за стол {{table}}',
+        swapped: 'Гости столов {{from}} и {{to}} поменялись местами',
+        movedFrom: 'пересели со стола {{tables}}',
+        historyEntry: '{{time}}: {{from}} → {{to}} ({{by}})'
+    },
+    bookingHistory: {
+        title: 'История изменений',
+        show: 'История',
+        loading: 'Загружаем историю...',
+        empty: 'Изменений пока не было',
+        notSynced: 'Бронь ещё не отправлена на сервер — история появится после синхронизации.',
+        yes: 'да',
+        no: 'нет',
+        actions: {
+            created: 'Создана',
+            confirmed: 'Подтверждена',
+            declined: 'Отклонена',
+            seated: 'Гости сели',
+            completed: 'Стол освобождён',
+            duration_extended: 'Продлена',
+            moved: 'Пересадка',
+            edited: 'Изменена',
+            cancelled: 'Отменена'
+        },
+        roles: {
+            guest: 'Гость',
+            staff: 'Сотрудник',
+            system: 'Система'
+        },
+        fields: {
+            status: 'Статус',
+            dateTime: 'Время',
+            duration: 'Длительность',
+            guestCount: 'Гостей',
+            guestName: 'Имя',
+            guestPhone: 'Телефон',
+            guestEmail: 'Email',
+            tableLabels: 'Столы',
+            assignedTo: 'Ответственный',
+            guestComment: 'Комментарий',
+            tags: 'Метки',
+            declineReason: 'Причина отказа',
+            cancelReason: 'Причина отмены'
+        }
     }
 };
@@ -1,4 +1,9 @@
-import { LayoutElement, Booking, BookingStatus, Restaurant, User, UserRole, Guest, Dish } from '../types';
+import { LayoutElement, Floor, Booking, BookingAuditEvent, BookingStatus, BookingTag, RecurrenceRule, Restaurant, RestaurantAvailability, Guest, GuestHistoryEntry, GuestStats, Dish, PublicCancelBookingInfo, PublicManageBookingInfo, GuestBooking, DepositPolicy, CancellationPolicy, PaymentIntent, StaffMember, StaffRole, WaitlistEntry, NotifyChannel, EventBooking, TableStateOverride, TableStateOverrideKind } from '../types';
+import {
+    RestaurantDto, RestaurantAvailabilityDto, BookingDto, GuestDto, GuestHistoryItemDto, GuestStatsDto, DishDto, AuthUserDto, AuthSessionDto, StaffMemberDto, WaitlistEntryDto, GuestBookingDto, EventBookingDto, TableStateOverrideDto, BookingAuditEventDto,
+    decodeRestaurant, decodeRestaurantAvailability, decodeBooking, decodeGuest, decodeGuestHistoryEntry, decodeGuestStats, decodeDish, decodeStaffMember, decodeWaitlistEntry, decodeGuestBooking, decodeEventBooking, decodeTableStateOverride, decodeBookingAuditEvent
+} from './dto';
+import { getSessionTokens, setSessionTokens, expireSession, SessionAudience, SessionTokens } from './session';
 
 const getBaseUrl = () => {
     const envUrl = import.meta.env.VITE_API_URL;
@@ -10,86 +15,400 @@ const getBaseUrl = () => {
 
 export const API_BASE_URL = getBaseUrl();
 
-async function request<T>(endpoint: string, options?: RequestInit): Promise<T> {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-        ...options,
+// fetch itself failed — no response at all, as opposed to an error status from the API
+export class NetworkError extends Error {
+    constructor(message = 'Нет соединения с сервером') {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends NetworkError {
+    constructor() {
+        super('Сервер не ответил вовремя');
+        this.name = 'TimeoutError';
+    }
+}
+
+export type ApiErrorCode = 'maintenance' | 'forbidden' | 'unauthorized' | 'not_found' | 'conflict' | 'server_error' | 'http_error';
+
+// Any non-2xx response. `code` comes from the API body when it sends one.
+export class ApiError extends Error {
+    readonly status: number;
+    readonly code: ApiErrorCode | string;
+
+    constructor(status: number, code: ApiErrorCode | string, message: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+// Per-call knobs the endpoint functions accept
+export interface CallOptions {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    // Whose tokens to send; the analytics dashboard signs in separately from the console
+    audience?: SessionAudience;
+}
+
+interface RequestOptions extends RequestInit {
+    timeoutMs?: number;
+    audience?: SessionAudience;
+    // Defaults to GET_RETRIES for GETs and 0 for everything else — only idempotent calls are retried
+    retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const GET_RETRIES = 2;
+const RETRY_BASE_MS = 400;
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+// Worth trying again later: no answer at all, or the API is briefly unavailable
+export const isTransientError = (error: unknown): boolean =>
+    error instanceof NetworkError || (error instanceof ApiError && RETRYABLE_STATUSES.includes(error.status));
+
+const codeForStatus = (status: number): ApiErrorCode => {
+    switch (status) {
+        case 401: return 'unauthorized';
+        case 403: return 'forbidden';
+        case 404: return 'not_found';
+        case 409: return 'conflict';
+        case 503: return 'maintenance';
+        default: return status >= 500 ? 'server_error' : 'http_error';
+    }
+};
+
+const retryDelay = (attempt: number) => {
+    const base = RETRY_BASE_MS * 2 ** attempt;
+    return base / 2 + Math.random() * (base / 2);
+};
+
+const wait = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+});
+
+// fetch with a deadline; the caller's signal still cancels it early
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const callerSignal = init.signal;
+    if (callerSignal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+        return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (timedOut) throw new TimeoutError();
+        if (callerSignal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        console.error(`Network request to ${url} failed:`, error);
+        throw new NetworkError();
+    } finally {
+        clearTimeout(timer);
+        callerSignal?.removeEventListener('abort', forwardAbort);
+    }
+}
+
+// A 401 from these means wrong credentials, not an expired token
+const CREDENTIAL_ENDPOINTS = ['/auth/owner', '/auth/admin'];
+
+const refreshInFlight: Partial<Record<SessionAudience, Promise<boolean>>> = {};
+
+// Several requests can hit 401 at once; they all wait on the same refresh call
+function refreshSession(audience: SessionAudience): Promise<boolean> {
+    if (!refreshInFlight[audience]) {
+        refreshInFlight[audience] = (async () => {
+            const current = getSessionTokens(audience);
+            if (!current) return false;
+            try {
+                const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ refreshToken: current.refreshToken }),
+                });
+                if (!response.ok) return false;
+                setSessionTokens(await response.json() as SessionTokens, audience);
+                return true;
+            } catch (error) {
+                console.error('Session refresh failed:', error);
+                return false;
+            }
+        })().finally(() => {
+            delete refreshInFlight[audience];
+        });
+    }
+    return refreshInFlight[audience]!;
+}
+
+async function send<T>(endpoint: string, init: RequestInit, timeoutMs: number, audience: SessionAudience, isRetry = false): Promise<T> {
+    const session = getSessionTokens(audience);
+    const response = await fetchWithTimeout(`${API_BASE_URL}${endpoint}`, {
+        ...init,
         headers: {
             'Content-Type': 'application/json',
-            ...options?.headers,
+            ...(session ? { Authorization: `Bearer ${session.accessToken}` } : {}),
+            ...init.headers,
         },
-    });
+    }, timeoutMs);
 
-    if (!response.ok) {
-        if (response.status === 403 || response.status === 503) {
-            const contentType = response.headers.get('content-type');
-            if (!contentType || !contentType.includes('application/json')) {
-                window.location.reload();
-                await new Promise(() => {}); // pause execution
-            }
+    if (response.status === 401 && session && !isRetry && !CREDENTIAL_ENDPOINTS.includes(endpoint)) {
+        if (await refreshSession(audience)) {
+            return send<T>(endpoint, init, timeoutMs, audience, true);
         }
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Ошибка запроса: ${response.statusText}`);
+        expireSession(audience);
+    }
+
+    if (!response.ok) {
+        // Maintenance pages and WAF blocks come back as HTML, so only trust a JSON body
+        const isJson = response.headers.get('content-type')?.includes('application/json');
+        const errorData = isJson ? await response.json().catch(() => ({})) : {};
+        throw new ApiError(
+            response.status,
+            errorData.code || codeForStatus(response.status),
+            errorData.error || `Ошибка запроса: ${response.statusText}`
+        );
     }
 
     return response.json();
 }
 
+async function request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, retries, audience = 'app', ...init } = options;
+    const maxRetries = retries ?? ((init.method || 'GET').toUpperCase() === 'GET' ? GET_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await send<T>(endpoint, init, timeoutMs, audience);
+        } catch (error) {
+            if (attempt >= maxRetries || !isTransientError(error)) throw error;
+            await wait(retryDelay(attempt), init.signal);
+        }
+    }
+}
+
+export interface BookingCreatePayload {
+    guestName: string;
+    guestPhone: string;
+    guestEmail?: string;
+    guestCount: number;
+    guestComment?: string;
+    dateTime: string;
+    timezoneOffset?: number;
+    tableId: string | null;
+    tableLabel: string | null;
+    tableIds?: string[];
+    tableLabels?: string[];
+    duration?: number;
+    isAdmin: boolean;
+    assignedTo: string | null;
+    // Paid deposit the server checks before it creates the booking
+    paymentIntentId?: string;
+    tags?: BookingTag[];
+    // Seat right away: the server creates the booking OCCUPIED instead of CONFIRMED
+    walkIn?: boolean;
+}
+
+export interface BookingDetailsPayload {
+    guestName?: string;
+    guestPhone?: string;
+    guestEmail?: string;
+    guestCount?: number;
+    guestComment?: string;
+    dateTime?: Date | string;
+    timezoneOffset?: number;
+    tableId?: string | null;
+    tableLabel?: string | null;
+    tableIds?: string[];
+    tableLabels?: string[];
+    duration?: number;
+    assignedTo?: string;
+    tags?: BookingTag[];
+}
+
+// One booking template plus the visits the admin kept after the conflict check
+export interface BookingSeriesCreatePayload {
+    booking: BookingCreatePayload;
+    rule: RecurrenceRule;
+    dateTimes: string[];
+}
+
+// Applied to every occurrence that hasn't started yet; `time` moves them all to a new HH:mm
+export interface BookingSeriesUpdatePayload extends Omit<BookingDetailsPayload, 'dateTime'> {
+    time?: string;
+}
+
+export interface PartyMovePayload {
+    tableIds: string[];
+    tableLabels: string[];
+    // Swap: the party already at the target gets the tables this one leaves
+    swapWith?: {
+        bookingId: string;
+        tableIds: string[];
+        tableLabels: string[];
+    };
+    movedBy: string;
+}
+
+export interface RestaurantSettingsPayload {
+    name?: string;
+    layout?: LayoutElement[];
+    floors?: Floor[];
+    bookingRestriction?: number;
+    ageRestriction?: string;
+    photoUrl?: string;
+    logoUrl?: string;
+    address?: string;
+    city?: string;
+    adminWorks?: Restaurant['adminWorks'];
+    deposit?: string;
+    ageRestrictionKz?: string;
+    depositKz?: string;
+    depositPolicy?: DepositPolicy;
+    cancellationPolicy?: CancellationPolicy;
+    menu?: boolean;
+}
+
+export interface AuthPayload {
+    email: string;
+    password: string;
+    restaurantId?: string;
+    forAnalytics?: boolean;
+}
+
+export interface StaffInvitePayload {
+    email: string;
+    managerName?: string;
+    role: StaffRole;
+    restaurantIds: string[];
+}
+
+export interface StaffUpdatePayload {
+    managerName?: string;
+    role?: StaffRole;
+    restaurantIds?: string[];
+}
+
+export interface PublicBookingChangePayload {
+    dateTime?: string;
+    guestCount?: number;
+    guestComment?: string;
+}
+
+export interface WaitlistJoinPayload {
+    guestName: string;
+    guestPhone: string;
+    guestCount: number;
+    date: string;
+    windowStart: string;
+    windowEnd: string;
+    notifyBy: NotifyChannel;
+}
+
+export interface WaitlistOfferPayload {
+    // The cancelled or declined booking whose slot is being handed on
+    bookingId: string;
+    dateTime: string;
+    tableIds?: string[];
+}
+
+export interface EventBookingPayload {
+    name: string;
+    startsAt: string;
+    endsAt: string;
+    floorIds: string[];
+    tableIds: string[];
+    headcount: number;
+    contactName?: string;
+    contactPhone?: string;
+    menuPackage?: string;
+    notes?: string;
+}
+
+export interface TableStatePayload {
+    state: TableStateOverrideKind;
+    until?: string | null;
+    note?: string;
+}
+
 export const api = {
     restaurants: {
-        list: () => request<Restaurant[]>('/restaurants'),
-        create: (name: string) => request<Restaurant>('/restaurants', {
+        list: async (options?: CallOptions): Promise<Restaurant[]> => (await request<RestaurantDto[]>('/restaurants', options)).map(r => decodeRestaurant(r)),
+        getAvailability: async (options?: CallOptions): Promise<RestaurantAvailability[]> => (await request<RestaurantAvailabilityDto[]>('/restaurants/availability', options)).map(decodeRestaurantAvailability),
+        create: async (name: string): Promise<Restaurant> => decodeRestaurant(await request<RestaurantDto>('/restaurants', {
             method: 'POST',
             body: JSON.stringify({ name }),
-        }),
-        updateSettings: (restaurantId: string, data: { 
-            layout?: LayoutElement[], 
-            floors?: any[], 
-            bookingRestriction?: number, 
-            ageRestriction?: string,
-            photoUrl?: string,
-            logoUrl?: string,
-            address?: string,
-            city?: string,
-            adminWorks?: any,
-            deposit?: string,
-            ageRestrictionKz?: string,
-            depositKz?: string,
-            menu?: boolean
-        }) => request<Restaurant>(`/restaurants/${restaurantId}/layout`, {
+        })),
+        updateSettings: async (restaurantId: string, data: RestaurantSettingsPayload): Promise<Restaurant> => decodeRestaurant(await request<RestaurantDto>(`/restaurants/${restaurantId}/layout`, {
             method: 'PUT',
             body: JSON.stringify(data),
-        }),
-        getBookings: (id: string, date?: string) => request<any[]>((date ? `/restaurants/${id}/bookings?date=${date}` : `/restaurants/${id}/bookings`)),
-        getBookingsRange: (id: string, from: string, to: string) => request<any[]>(`/restaurants/${id}/bookings-range?from=${from}&to=${to}`),
-        createBooking: (id: string, data: any) => request<any>(`/restaurants/${id}/bookings`, {
+        })),
+        getBookings: async (id: string, date?: string, options?: CallOptions): Promise<Booking[]> => (await request<BookingDto[]>((date ? `/restaurants/${id}/bookings?date=${date}` : `/restaurants/${id}/bookings`), options)).map(decodeBooking),
+        getBookingsRange: async (id: string, from: string, to: string, options?: CallOptions): Promise<Booking[]> => (await request<BookingDto[]>(`/restaurants/${id}/bookings-range?from=${from}&to=${to}`, options)).map(decodeBooking),
+        createBooking: async (id: string, data: BookingCreatePayload): Promise<Booking> => decodeBooking(await request<BookingDto>(`/restaurants/${id}/bookings`, {
             method: 'POST',
             body: JSON.stringify(data),
-        }),
-        getStaffNames: (id: string) => request<string[]>(`/restaurants/${id}/staff-names`),
+        })),
+        createBookingSeries: async (id: string, data: BookingSeriesCreatePayload): Promise<Booking[]> => (await request<BookingDto[]>(`/restaurants/${id}/booking-series`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        })).map(decodeBooking),
+        getStaffNames: (id: string, options?: CallOptions) => request<string[]>(`/restaurants/${id}/staff-names`, options),
     },
     menu: {
-        list: (restaurantId: string) => request<Dish[]>(`/restaurants/${restaurantId}/menu`),
-        create: (restaurantId: string, data: Omit<Dish, 'id' | 'restaurantId'>) => request<Dish>(`/restaurants/${restaurantId}/menu`, {
+        list: async (restaurantId: string, options?: CallOptions): Promise<Dish[]> => (await request<DishDto[]>(`/restaurants/${restaurantId}/menu`, options)).map(decodeDish),
+        create: async (restaurantId: string, data: Omit<Dish, 'id' | 'restaurantId'>): Promise<Dish> => decodeDish(await request<DishDto>(`/restaurants/${restaurantId}/menu`, {
             method: 'POST',
             body: JSON.stringify(data),
-        }),
-        update: (dishId: string, data: Partial<Omit<Dish, 'id' | 'restaurantId'>>) => request<Dish>(`/menu/${dishId}`, {
+        })),
+        update: async (dishId: string, data: Partial<Omit<Dish, 'id' | 'restaurantId'>>): Promise<Dish> => decodeDish(await request<DishDto>(`/menu/${dishId}`, {
             method: 'PUT',
             body: JSON.stringify(data),
-        }),
-        delete: (dishId: string) => request<{ message: string, dish: Dish }>(`/menu/${dishId}`, {
-            method: 'DELETE',
-        }),
+        })),
+        delete: async (dishId: string): Promise<{ message: string, dish: Dish }> => {
+            const res = await request<{ message: string, dish: DishDto }>(`/menu/${dishId}`, {
+                method: 'DELETE',
+            });
+            return { message: res.message, dish: decodeDish(res.dish) };
+        },
     },
     auth: {
-        owner: (data: any) => request<any>('/auth/owner', {
+        owner: (data: AuthPayload) => request<AuthSessionDto>('/auth/owner', {
             method: 'POST',
             body: JSON.stringify(data),
         }),
-        admin: (data: any) => request<any>('/auth/admin', {
+        admin: (data: AuthPayload) => request<AuthSessionDto>('/auth/admin', {
             method: 'POST',
             body: JSON.stringify(data),
         }),
+        // One-time code by SMS. With the local SMS stub the API returns the code as devCode instead of sending it.
+        requestGuestCode: (phone: string) => request<{ success: boolean; devCode?: string }>('/auth/guest/code', {
+            method: 'POST',
+            body: JSON.stringify({ phone }),
+        }),
+        verifyGuestCode: (phone: string, code: string) => request<AuthSessionDto>('/auth/guest/verify', {
+            method: 'POST',
+            body: JSON.stringify({ phone, code }),
+        }),
+        me: (options?: CallOptions) => request<AuthUserDto>('/auth/me', options),
+        logout: (refreshToken: string, options?: CallOptions) => request<{ success: boolean }>('/auth/logout', {
+            ...options,
+            method: 'POST',
+            body: JSON.stringify({ refreshToken }),
+        }),
         getAdminRestaurants: (email: string, forAnalytics?: boolean) => request<{ id: string, name: string }[]>('/auth/admin/restaurants', {
             method: 'POST',
             body: JSON.stringify({ email, forAnalytics }),
@@ -100,35 +419,139 @@ export const api = {
         }),
     },
     bookings: {
-        updateDetails: (id: string, payload: any) => request<any>(`/bookings/${id}`, {
+        updateDetails: async (id: string, payload: BookingDetailsPayload): Promise<Booking> => decodeBooking(await request<BookingDto>(`/bookings/${id}`, {
             method: 'PUT',
             body: JSON.stringify(payload),
-        }),
-        updateStatus: (id: string, status: BookingStatus, declineReason?: string, tableId?: string, tableLabel?: string, duration?: number, tableIds?: string[], tableLabels?: string[], assignedTo?: string) => request<any>(`/bookings/${id}/status`, {
+        })),
+        updateStatus: async (id: string, status: BookingStatus, declineReason?: string, tableId?: string, tableLabel?: string, duration?: number, tableIds?: string[], tableLabels?: string[], assignedTo?: string): Promise<Booking> => decodeBooking(await request<BookingDto>(`/bookings/${id}/status`, {
             method: 'PUT',
             body: JSON.stringify({ status, declineReason, tableId, tableLabel, duration, tableIds, tableLabels, assignedTo }),
-        }),
-        cleanupExpired: () => request<{ updated: number, bookings: any[] }>('/bookings/cleanup-expired', {
+        })),
+        updateSeries: async (seriesId: string, payload: BookingSeriesUpdatePayload): Promise<Booking[]> => (await request<BookingDto[]>(`/booking-series/${seriesId}`, {
+            method: 'PUT',
+            body: JSON.stringify(payload),
+        })).map(decodeBooking),
+        // Oldest first; the log is append-only, so this never shrinks
+        getHistory: async (id: string, options?: CallOptions): Promise<BookingAuditEvent[]> => (await request<BookingAuditEventDto[]>(`/bookings/${id}/history`, options)).map(decodeBookingAuditEvent),
+        // Both sides of a swap change in one transaction and each gets an entry in `table_moves`
+        moveParty: async (id: string, payload: PartyMovePayload): Promise<Booking[]> => (await request<BookingDto[]>(`/bookings/${id}/move`, {
             method: 'POST',
-        }),
+            body: JSON.stringify(payload),
+        })).map(decodeBooking),
+        // Cancels the occurrences that haven't started yet; past visits stay in the history
+        cancelSeries: async (seriesId: string, reason?: string): Promise<Booking[]> => (await request<BookingDto[]>(`/booking-series/${seriesId}/cancel`, {
+            method: 'POST',
+            body: JSON.stringify({ reason }),
+        })).map(decodeBooking),
+        cleanupExpired: async (): Promise<{ updated: number, bookings: Booking[] }> => {
+            const res = await request<{ updated: number, bookings: BookingDto[] }>('/bookings/cleanup-expired', {
+                method: 'POST',
+            });
+            return { updated: res.updated, bookings: (res.bookings || []).map(decodeBooking) };
+        },
     },
     guests: {
-        search: (phone: string, restaurantId: string) => request<Guest[]>(`/guests/search?phone=${encodeURIComponent(phone)}&restaurantId=${restaurantId}`),
-        getHistory: (phone: string, restaurantId: string) => request<{ stats: any, history: any[] }>(`/guests/${phone}/history?restaurantId=${restaurantId}`),
-        update: (phone: string, restaurantId: string, data: { internalComment?: string, name?: string, email?: string }) => request<Guest>(`/guests/${phone}`, {
+        search: async (phone: string, restaurantId: string, options?: CallOptions): Promise<Guest[]> => (await request<GuestDto[]>(`/guests/search?phone=${encodeURIComponent(phone)}&restaurantId=${restaurantId}`, options)).map(decodeGuest),
+        getHistory: async (phone: string, restaurantId: string, options?: CallOptions): Promise<{ stats: GuestStats, history: GuestHistoryEntry[] }> => {
+            const res = await request<{ stats: GuestStatsDto, history: GuestHistoryItemDto[] }>(`/guests/${phone}/history?restaurantId=${restaurantId}`, options);
+            return { stats: decodeGuestStats(res.stats || {} as GuestStatsDto), history: (res.history || []).map(decodeGuestHistoryEntry) };
+        },
+        update: async (phone: string, restaurantId: string, data: { internalComment?: string, name?: string, email?: string, tags?: BookingTag[] }): Promise<Guest> => decodeGuest(await request<GuestDto>(`/guests/${phone}`, {
             method: 'PUT',
             body: JSON.stringify({ ...data, restaurantId }),
+        })),
+    },
+    staff: {
+        // Every staff account attached to any restaurant of the signed-in owner
+        list: async (options?: CallOptions): Promise<StaffMember[]> => (await request<StaffMemberDto[]>('/staff', options)).map(decodeStaffMember),
+        invite: async (data: StaffInvitePayload): Promise<StaffMember> => decodeStaffMember(await request<StaffMemberDto>('/staff/invite', {
+            method: 'POST',
+            body: JSON.stringify(data),
+        })),
+        update: async (id: string, data: StaffUpdatePayload): Promise<StaffMember> => decodeStaffMember(await request<StaffMemberDto>(`/staff/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(data),
+        })),
+        resetPassword: (id: string) => request<{ success: boolean }>(`/staff/${id}/reset-password`, {
+            method: 'POST',
+        }),
+        revoke: (id: string) => request<{ success: boolean }>(`/staff/${id}`, {
+            method: 'DELETE',
         }),
     },
+    waitlist: {
+        join: async (restaurantId: string, data: WaitlistJoinPayload): Promise<WaitlistEntry> => decodeWaitlistEntry(await request<WaitlistEntryDto>(`/restaurants/${restaurantId}/waitlist`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        })),
+        // Entries from today on that are still waiting or have an open offer
+        list: async (restaurantId: string, options?: CallOptions): Promise<WaitlistEntry[]> => (await request<WaitlistEntryDto[]>(`/restaurants/${restaurantId}/waitlist`, options)).map(decodeWaitlistEntry),
+        // The server notifies the guest through the entry's channel; answers 409 if someone already offered
+        offer: async (id: string, data: WaitlistOfferPayload): Promise<WaitlistEntry> => decodeWaitlistEntry(await request<WaitlistEntryDto>(`/waitlist/${id}/offer`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        })),
+        remove: (id: string) => request<{ success: boolean }>(`/waitlist/${id}`, {
+            method: 'DELETE',
+        }),
+    },
+    events: {
+        // Confirmed events that haven't ended yet; staff sessions also get the contact and menu fields
+        list: async (restaurantId: string, options?: CallOptions): Promise<EventBooking[]> => (await request<EventBookingDto[]>(`/restaurants/${restaurantId}/events`, options)).map(decodeEventBooking),
+        // Answers 409 when the range overlaps another event on the same tables
+        create: async (restaurantId: string, data: EventBookingPayload): Promise<EventBooking> => decodeEventBooking(await request<EventBookingDto>(`/restaurants/${restaurantId}/events`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        })),
+        update: async (id: string, data: EventBookingPayload): Promise<EventBooking> => decodeEventBooking(await request<EventBookingDto>(`/events/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(data),
+        })),
+        cancel: async (id: string): Promise<EventBooking> => decodeEventBooking(await request<EventBookingDto>(`/events/${id}/cancel`, {
+            method: 'POST',
+        })),
+    },
+    tableStates: {
+        // Overrides that haven't expired yet
+        list: async (restaurantId: string, options?: CallOptions): Promise<TableStateOverride[]> => (await request<TableStateOverrideDto[]>(`/restaurants/${restaurantId}/table-states`, options)).map(decodeTableStateOverride),
+        // Replaces whatever state the table had
+        set: async (restaurantId: string, tableId: string, data: TableStatePayload): Promise<TableStateOverride> => decodeTableStateOverride(await request<TableStateOverrideDto>(`/restaurants/${restaurantId}/table-states/${tableId}`, {
+            method: 'PUT',
+            body: JSON.stringify(data),
+        })),
+        clear: (restaurantId: string, tableId: string) => request<{ success: boolean }>(`/restaurants/${restaurantId}/table-states/${tableId}`, {
+            method: 'DELETE',
+        }),
+    },
+    payments: {
+        createIntent: (restaurantId: string, data: { amount: number; dateTime: string; guestCount: number; guestPhone: string }) => request<PaymentIntent>(`/restaurants/${restaurantId}/payments`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        }),
+        // The provider's reference for the charge; the server verifies it with the provider
+        confirm: (intentId: string, providerReference: string) => request<PaymentIntent>(`/payments/${intentId}/confirm`, {
+            method: 'POST',
+            body: JSON.stringify({ providerReference }),
+        }),
+    },
+    // The signed-in guest's own data
+    account: {
+        bookings: async (options?: CallOptions): Promise<GuestBooking[]> => (await request<GuestBookingDto[]>('/guest/bookings', options)).map(decodeGuestBooking),
+    },
     public: {
-        getCancelInfo: (token: string) => request<any>(`/public/bookings/cancel-info/${token}`),
-        cancelBooking: (token: string, payload: { reason: string; comment?: string }) => request<any>(`/public/bookings/cancel/${token}`, {
+        getCancelInfo: (token: string, options?: CallOptions) => request<PublicCancelBookingInfo>(`/public/bookings/cancel-info/${token}`, options),
+        cancelBooking: (token: string, payload: { reason: string; comment?: string }) => request<{ success: boolean }>(`/public/bookings/cancel/${token}`, {
             method: 'POST',
             body: JSON.stringify(payload),
         }),
+        getManageInfo: (token: string, options?: CallOptions) => request<PublicManageBookingInfo>(`/public/bookings/manage/${token}`, options),
+        updateBooking: (token: string, payload: PublicBookingChangePayload) => request<PublicManageBookingInfo>(`/public/bookings/manage/${token}`, {
+            method: 'PUT',
+            body: JSON.stringify(payload),
+        }),
     },
     leads: {
-        create: (payload: { name: string; phone: string; venue: string; promo?: string }) => request<any>('/leads', {
+        create: (payload: { name: string; phone: string; venue: string; promo?: string }) => request<{ success: boolean }>('/leads', {
             method: 'POST',
             body: JSON.stringify(payload),
         }),
@@ -0,0 +1,109 @@
+import { API_BASE_URL, ApiError, api, isTransientError } from './api';
+import { BookingDto, decodeBooking } from './dto';
+import { getSessionTokens } from './session';
+import { Booking } from '../types';
+
+export type BookingEventType = 'booking.created' | 'booking.status_changed' | 'booking.updated' | 'booking.expired';
+
+export interface BookingEvent {
+    type: BookingEventType;
+    booking: Booking;
+}
+
+export type BookingStreamStatus = 'connecting' | 'open' | 'unavailable';
+
+interface BookingStreamHandlers {
+    onEvent: (event: BookingEvent) => void;
+    onStatusChange?: (status: BookingStreamStatus) => void;
+}
+
+const EVENT_TYPES: BookingEventType[] = ['booking.created', 'booking.status_changed', 'booking.updated', 'booking.expired'];
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+const retryDelay = (attempt: number) => {
+    const base = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt);
+    // Jitter so a restart of the API does not get every tablet reconnecting in the same tick
+    return base / 2 + Math.random() * (base / 2);
+};
+
+// EventSource hides the response status, so a handshake that fails is checked against the API.
+// Going through the API client refreshes an expired access token on the way; false means the
+// session is gone and reconnecting with it is pointless.
+const sessionStillValid = async (): Promise<boolean> => {
+    try {
+        await api.auth.me();
+        return true;
+    } catch (error) {
+        return !(error instanceof ApiError) || isTransientError(error);
+    }
+};
+
+/**
+ * Opens a server-sent event stream with booking changes for the given restaurants.
+ * Reconnects with exponential backoff; while the stream is down the status is
+ * 'unavailable' so callers can fall back to polling. A rejected session stops the reconnects
+ * and leaves it at 'unavailable'. Returns an unsubscribe function.
+ */
+export function subscribeToBookingEvents(restaurantIds: string[], handlers: BookingStreamHandlers): () => void {
+    if (typeof EventSource === 'undefined' || restaurantIds.length === 0) {
+        handlers.onStatusChange?.('unavailable');
+        return () => {};
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let closed = false;
+
+    const handleMessage = (type: BookingEventType) => (e: MessageEvent) => {
+        try {
+            const dto = JSON.parse(e.data) as BookingDto;
+            handlers.onEvent({ type, booking: decodeBooking(dto) });
+        } catch (err) {
+            console.error(`Malformed ${type} event:`, err);
+        }
+    };
+
+    const connect = () => {
+        if (closed) return;
+        handlers.onStatusChange?.('connecting');
+
+        // EventSource cannot send headers, so the access token goes in the query string
+        const params = new URLSearchParams({ restaurantIds: restaurantIds.join(',') });
+        const session = getSessionTokens();
+        if (session) params.set('token', session.accessToken);
+        source = new EventSource(`${API_BASE_URL}/bookings/stream?${params}`);
+        let opened = false;
+
+        source.onopen = () => {
+            opened = true;
+            attempt = 0;
+            handlers.onStatusChange?.('open');
+        };
+
+        source.onerror = async () => {
+            source?.close();
+            source = null;
+            if (closed) return;
+            handlers.onStatusChange?.('unavailable');
+            // A stream that never opened may have been turned away for its token
+            if (!opened && session && !await sessionStillValid()) return;
+            if (closed) return;
+            retryTimer = setTimeout(connect, retryDelay(attempt));
+            attempt++;
+        };
+
+        EVENT_TYPES.forEach(type => source!.addEventListener(type, handleMessage(type) as EventListener));
+    };
+
+    connect();
+
+    return () => {
+        closed = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        source?.close();
+        source = null;
+    };
+}
@@ -0,0 +1,401 @@
+import { Booking, BookingAuditAction, BookingAuditEvent, BookingFieldChange, BookingStatus, BookingTag, CancellationPolicy, EventBooking, EventBookingStatus, TableStateOverride, TableStateOverrideKind, DepositPolicy, DepositStatus, Dish, Floor, Guest, GuestBooking, GuestHistoryEntry, GuestStats, LayoutElement, Restaurant, RestaurantAvailability, StaffMember, StaffRole, StaffStatus, UserRole, WaitlistEntry, WaitlistStatus, NotifyChannel } from '../types';
+
+// Wire shapes exactly as the backend sends them (snake_case columns, ISO date strings).
+// Nothing outside services/ should touch these directly — use the decoders below.
+
+export interface RestaurantDto {
+    id: string;
+    name: string;
+    with_map?: boolean;
+    is_active?: boolean;
+    photo_url?: string | null;
+    logo_url?: string | null;
+    address?: string | null;
+    work_starts?: string | null;
+    work_ends?: string | null;
+    layout?: LayoutElement[] | null;
+    floors?: Floor[] | null;
+    schedule?: Record<number, { start: string; end: string }> | null;
+    booking_restriction?: number | null;
+    age_restriction?: string | null;
+    deposit?: string | null;
+    age_restriction_kz?: string | null;
+    deposit_kz?: string | null;
+    deposit_policy?: DepositPolicy | null;
+    cancellation_policy?: CancellationPolicy | null;
+    city?: string | null;
+    admin_works?: Record<number, { start: string; end: string }> | null;
+    menu?: boolean;
+    description?: string | null;
+}
+
+export interface RestaurantAvailabilityDto {
+    restaurant_id: string;
+    total_tables: number | string;
+    free_tables: number | string;
+}
+
+export interface BookingDto {
+    id: string;
+    restaurant_id: string;
+    table_id?: string | null;
+    table_label?: string | null;
+    tableIds?: string[] | null;
+    tableLabels?: string[] | null;
+    guest_name: string;
+    guest_phone: string;
+    guest_email?: string | null;
+    guest_count: number | string;
+    guest_comment?: string | null;
+    status: BookingStatus;
+    decline_reason?: string | null;
+    cancel_reason?: string | null;
+    cancel_comment?: string | null;
+    cancelled_by?: 'guest' | 'admin' | 'system' | null;
+    cancelled_at?: string | null;
+    duration?: number | string | null;
+    assigned_to?: string | null;
+    timezone_offset?: number | null;
+    date_time: string;
+    deadline_at?: string | null;
+    created_at: string;
+    updated_at?: string | null;
+    deposit_amount?: number | string | null;
+    deposit_status?: DepositStatus | null;
+    tags?: BookingTag[] | null;
+    series_id?: string | null;
+    walk_in?: boolean | null;
+    table_moves?: TableMoveDto[] | null;
+}
+
+export interface BookingAuditEventDto {
+    id: string;
+    booking_id: string;
+    action: BookingAuditAction;
+    actor?: string | null;
+    actor_role?: BookingAuditEvent['actorRole'] | null;
+    at: string;
+    changes?: BookingFieldChange[] | null;
+    note?: string | null;
+}
+
+export interface TableMoveDto {
+    from_table_labels: string[];
+    to_table_labels: string[];
+    swapped_with_booking_id?: string | null;
+    moved_by?: string | null;
+    moved_at: string;
+}
+
+export interface GuestDto {
+    phone: string;
+    name: string;
+    email?: string | null;
+    internalComment?: string | null;
+    tags?: BookingTag[] | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface GuestHistoryItemDto {
+    id: string;
+    restaurantName: string;
+    dateTime: string;
+    status: BookingStatus;
+    tableLabel?: string | null;
+    assignedTo?: string | null;
+    guestComment?: string | null;
+    tags?: BookingTag[] | null;
+    declineReason?: string | null;
+    cancelReason?: string | null;
+    cancelComment?: string | null;
+}
+
+export interface GuestStatsDto {
+    total_bookings: number;
+    completed: number;
+    declined: number;
+    cancelled_by_admin: number;
+    cancelled_by_guest: number;
+}
+
+export interface DishDto {
+    id: string;
+    restaurantId: string;
+    dishTitle: string;
+    photoUrl?: string | null;
+    price: number | string;
+    description?: string | null;
+    category?: string | null;
+    weight?: string | null;
+    isAvailable: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface AuthUserDto {
+    id: string;
+    email: string;
+    role: UserRole;
+    restaurantId?: string | 'all' | null;
+    // Every venue the account may switch between; older API versions only send restaurantId
+    restaurantIds?: string[] | null;
+    managerName?: string | null;
+    // Guest sessions only
+    phone?: string | null;
+    name?: string | null;
+}
+
+export interface StaffMemberDto {
+    id: string;
+    email: string;
+    manager_name?: string | null;
+    role: StaffRole;
+    restaurant_ids?: string[] | null;
+    status: StaffStatus;
+    last_login_at?: string | null;
+}
+
+export interface WaitlistEntryDto {
+    id: string;
+    restaurant_id: string;
+    guest_name: string;
+    guest_phone: string;
+    guest_count: number | string;
+    date: string;
+    window_start: string;
+    window_end: string;
+    status: WaitlistStatus;
+    notify_by: NotifyChannel;
+    offered_date_time?: string | null;
+    offered_at?: string | null;
+    created_at: string;
+}
+
+export interface EventBookingDto {
+    id: string;
+    restaurant_id: string;
+    name: string;
+    starts_at: string;
+    ends_at: string;
+    floor_ids?: string[] | null;
+    table_ids?: string[] | null;
+    headcount: number | string;
+    contact_name?: string | null;
+    contact_phone?: string | null;
+    menu_package?: string | null;
+    notes?: string | null;
+    status: EventBookingStatus;
+    created_at: string;
+}
+
+export interface TableStateOverrideDto {
+    table_id: string;
+    state: TableStateOverrideKind;
+    until?: string | null;
+    note?: string | null;
+    set_by?: string | null;
+    set_at: string;
+}
+
+export interface GuestBookingDto extends BookingDto {
+    restaurant_name: string;
+    manage_token?: string | null;
+}
+
+export interface AuthSessionDto {
+    accessToken: string;
+    refreshToken: string;
+    user: AuthUserDto;
+}
+
+const toDate = (value: string | null | undefined): Date | undefined => value ? new Date(value) : undefined;
+const orUndefined = <T>(value: T | null | undefined): T | undefined => value ?? undefined;
+
+export const decodeBooking = (b: BookingDto): Booking => ({
+    id: b.id,
+    restaurantId: b.restaurant_id,
+    tableId: b.table_id,
+    tableLabel: b.table_label,
+    tableIds: b.tableIds || (b.table_id ? [b.table_id] : []),
+    tableLabels: b.tableLabels || (b.table_label ? [b.table_label] : []),
+    guestName: b.guest_name,
+    guestPhone: b.guest_phone,
+    guestEmail: orUndefined(b.guest_email),
+    guestCount: Number(b.guest_count),
+    guestComment: orUndefined(b.guest_comment),
+    status: b.status,
+    declineReason: orUndefined(b.decline_reason),
+    cancelReason: orUndefined(b.cancel_reason),
+    cancelComment: orUndefined(b.cancel_comment),
+    cancelledBy: orUndefined(b.cancelled_by),
+    cancelledAt: toDate(b.cancelled_at),
+    duration: b.duration != null ? Number(b.duration) : undefined,
+    assignedTo: orUndefined(b.assigned_to),
+    timezoneOffset: orUndefined(b.timezone_offset),
+    dateTime: new Date(b.date_time),
+    deadlineAt: toDate(b.deadline_at),
+    createdAt: new Date(b.created_at),
+    updatedAt: toDate(b.updated_at),
+    depositAmount: b.deposit_amount != null ? Number(b.deposit_amount) : undefined,
+    depositStatus: orUndefined(b.deposit_status),
+    tags: orUndefined(b.tags),
+    seriesId: orUndefined(b.series_id),
+    walkIn: orUndefined(b.walk_in),
+    tableMoves: b.table_moves ? b.table_moves.map(m => ({
+        fromTableLabels: m.from_table_labels,
+        toTableLabels: m.to_table_labels,
+        swappedWithBookingId: orUndefined(m.swapped_with_booking_id),
+        movedBy: orUndefined(m.moved_by),
+        movedAt: new Date(m.moved_at)
+    })) : undefined
+});
+
+// Restaurant metadata only — bookings are loaded per restaurant and attached by the caller.
+export const decodeRestaurant = (r: RestaurantDto, bookings: Booking[] = []): Restaurant => ({
+    id: r.id,
+    name: r.name,
+    with_map: r.with_map,
+    is_active: r.is_active,
+    photoUrl: orUndefined(r.photo_url),
+    logoUrl: orUndefined(r.logo_url),
+    address: orUndefined(r.address),
+    workStarts: orUndefined(r.work_starts),
+    workEnds: orUndefined(r.work_ends),
+    layout: r.layout || [],
+    floors: r.floors || [],
+    schedule: orUndefined(r.schedule),
+    bookingRestriction: orUndefined(r.booking_restriction),
+    age_restriction: orUndefined(r.age_restriction),
+    deposit: orUndefined(r.deposit),
+    age_restriction_kz: orUndefined(r.age_restriction_kz),
+    deposit_kz: orUndefined(r.deposit_kz),
+    depositPolicy: orUndefined(r.deposit_policy),
+    cancellationPolicy: orUndefined(r.cancellation_policy),
+    city: orUndefined(r.city),
+    adminWorks: orUndefined(r.admin_works),
+    menu: r.menu,
+    description: orUndefined(r.description),
+    bookings
+});
+
+export const decodeRestaurantAvailability = (a: RestaurantAvailabilityDto): RestaurantAvailability => ({
+    restaurantId: a.restaurant_id,
+    totalTables: Number(a.total_tables) || 0,
+    freeTables: Number(a.free_tables) || 0
+});
+
+export const decodeGuest = (g: GuestDto): Guest => ({
+    phone: g.phone,
+    name: g.name,
+    email: orUndefined(g.email),
+    internalComment: orUndefined(g.internalComment),
+    tags: orUndefined(g.tags),
+    createdAt: new Date(g.createdAt),
+    updatedAt: new Date(g.updatedAt)
+});
+
+export const decodeGuestHistoryEntry = (h: GuestHistoryItemDto): GuestHistoryEntry => ({
+    id: h.id,
+    restaurantName: h.restaurantName,
+    dateTime: new Date(h.dateTime),
+    status: h.status,
+    tableLabel: orUndefined(h.tableLabel),
+    assignedTo: orUndefined(h.assignedTo),
+    guestComment: orUndefined(h.guestComment),
+    tags: orUndefined(h.tags),
+    declineReason: orUndefined(h.declineReason),
+    cancelReason: orUndefined(h.cancelReason),
+    cancelComment: orUndefined(h.cancelComment)
+});
+
+export const decodeGuestStats = (s: GuestStatsDto): GuestStats => ({
+    totalBookings: Number(s.total_bookings) || 0,
+    completed: Number(s.completed) || 0,
+    declined: Number(s.declined) || 0,
+    cancelledByAdmin: Number(s.cancelled_by_admin) || 0,
+    cancelledByGuest: Number(s.cancelled_by_guest) || 0
+});
+
+export const decodeDish = (d: DishDto): Dish => ({
+    id: d.id,
+    restaurantId: d.restaurantId,
+    dishTitle: d.dishTitle,
+    photoUrl: d.photoUrl,
+    price: Number(d.price),
+    description: d.description,
+    category: orUndefined(d.category),
+    weight: d.weight,
+    isAvailable: d.isAvailable,
+    createdAt: d.createdAt,
+    updatedAt: d.updatedAt
+});
+
+export const decodeStaffMember = (s: StaffMemberDto): StaffMember => ({
+    id: s.id,
+    email: s.email,
+    managerName: orUndefined(s.manager_name),
+    role: s.role,
+    restaurantIds: s.restaurant_ids || [],
+    status: s.status,
+    lastLoginAt: toDate(s.last_login_at)
+});
+
+export const decodeWaitlistEntry = (w: WaitlistEntryDto): WaitlistEntry => ({
+    id: w.id,
+    restaurantId: w.restaurant_id,
+    guestName: w.guest_name,
+    guestPhone: w.guest_phone,
+    guestCount: Number(w.guest_count),
+    date: w.date,
+    windowStart: w.window_start,
+    windowEnd: w.window_end,
+    status: w.status,
+    notifyBy: w.notify_by,
+    offeredDateTime: toDate(w.offered_date_time),
+    offeredAt: toDate(w.offered_at),
+    createdAt: new Date(w.created_at)
+});
+
+export const decodeEventBooking = (e: EventBookingDto): EventBooking => ({
+    id: e.id,
+    restaurantId: e.restaurant_id,
+    name: e.name,
+    startsAt: new Date(e.starts_at),
+    endsAt: new Date(e.ends_at),
+    floorIds: e.floor_ids || [],
+    tableIds: e.table_ids || [],
+    headcount: Number(e.headcount) || 0,
+    contactName: orUndefined(e.contact_name),
+    contactPhone: orUndefined(e.contact_phone),
+    menuPackage: orUndefined(e.menu_package),
+    notes: orUndefined(e.notes),
+    status: e.status,
+    createdAt: new Date(e.created_at)
+});
+
+export const decodeBookingAuditEvent = (e: BookingAuditEventDto): BookingAuditEvent => ({
+    id: e.id,
+    bookingId: e.booking_id,
+    action: e.action,
+    actor: orUndefined(e.actor),
+    actorRole: orUndefined(e.actor_role),
+    at: new Date(e.at),
+    changes: e.changes || [],
+    note: orUndefined(e.note)
+});
+
+export const decodeTableStateOverride = (s: TableStateOverrideDto): TableStateOverride => ({
+    tableId: s.table_id,
+    state: s.state,
+    until: toDate(s.until),
+    note: orUndefined(s.note),
+    setBy: orUndefined(s.set_by),
+    setAt: new Date(s.set_at)
+});
+
+export const decodeGuestBooking = (b: GuestBookingDto): GuestBooking => ({
+    ...decodeBooking(b),
+    restaurantName: b.restaurant_name,
+    manageToken: orUndefined(b.manage_token)
+});
@@ -0,0 +1,64 @@
+import { Booking } from '../types';
+import { api, isTransientError } from './api';
+import { MutationInput, QueuedMutation, listMutations, remapBookingId, removeMutation } from './offlineStore';
+
+export interface MutationConflict {
+    id: number;
+    mutation: QueuedMutation;
+    message: string;
+}
+
+interface ReplayHandlers {
+    onApplied: (mutation: QueuedMutation, booking: Booking) => void;
+    onConflict: (conflict: MutationConflict) => void;
+}
+
+export const sendMutation = (mutation: MutationInput): Promise<Booking> => {
+    switch (mutation.kind) {
+        case 'status': {
+            const { status, declineReason, tableId, tableLabel, duration, tableIds, tableLabels, assignedTo } = mutation.change;
+            return api.bookings.updateStatus(mutation.bookingId, status, declineReason, tableId, tableLabel, duration, tableIds, tableLabels, assignedTo);
+        }
+        case 'details':
+            return api.bookings.updateDetails(mutation.bookingId, mutation.payload);
+        case 'create':
+            return api.restaurants.createBooking(mutation.restaurantId, mutation.payload);
+    }
+};
+
+/**
+ * Sends queued mutations one by one in the order they were made. Stops at the first
+ * network failure or maintenance response and leaves the rest queued; anything the API rejects is dropped from
+ * the queue and reported as a conflict for the admin to resolve.
+ * Resolves to true once the queue is empty.
+ */
+export async function replayMutations(handlers: ReplayHandlers): Promise<boolean> {
+    const queued = await listMutations();
+    const createdIds = new Map<string, string>();
+
+    for (const original of queued) {
+        const mutation = original.kind !== 'create' && createdIds.has(original.bookingId)
+            ? { ...original, bookingId: createdIds.get(original.bookingId)! }
+            : original;
+
+        try {
+            const booking = await sendMutation(mutation);
+            await removeMutation(mutation.id);
+            if (mutation.kind === 'create') {
+                createdIds.set(mutation.tempId, booking.id);
+                await remapBookingId(mutation.tempId, booking.id);
+            }
+            handlers.onApplied(mutation, booking);
+        } catch (error) {
+            if (isTransientError(error)) return false;
+            await removeMutation(mutation.id);
+            handlers.onConflict({
+                id: mutation.id,
+                mutation,
+                message: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    return true;
+}
@@ -0,0 +1,89 @@
+import { BookingStatus, Restaurant } from '../types';
+import { BookingCreatePayload, BookingDetailsPayload } from './api';
+
+// IndexedDB persistence for the admin console: the last known restaurants (with today's
+// bookings) and the queue of mutations made while the API was unreachable.
+
+const DB_NAME = 'brondau-offline';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+const QUEUE_STORE = 'mutations';
+const SNAPSHOT_KEY = 'restaurants';
+
+export interface StatusChange {
+    status: BookingStatus;
+    declineReason?: string;
+    tableId?: string;
+    tableLabel?: string;
+    duration?: number;
+    tableIds?: string[];
+    tableLabels?: string[];
+    assignedTo?: string;
+}
+
+export type MutationInput =
+    | { kind: 'status'; bookingId: string; change: StatusChange }
+    | { kind: 'details'; bookingId: string; payload: BookingDetailsPayload }
+    // tempId is the local id the booking carries until the server assigns a real one
+    | { kind: 'create'; restaurantId: string; tempId: string; payload: BookingCreatePayload };
+
+export type QueuedMutation = MutationInput & { id: number; queuedAt: Date };
+
+export interface RestaurantsSnapshot {
+    restaurants: Restaurant[];
+    savedAt: Date;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                req.result.createObjectStore(SNAPSHOT_STORE);
+                req.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => {
+                dbPromise = null;
+                reject(req.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const req = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const saveSnapshot = (restaurants: Restaurant[], savedAt = new Date()) =>
+    withStore(SNAPSHOT_STORE, 'readwrite', store => store.put({ restaurants, savedAt } as RestaurantsSnapshot, SNAPSHOT_KEY));
+
+export const loadSnapshot = () =>
+    withStore<RestaurantsSnapshot | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(SNAPSHOT_KEY));
+
+export const enqueueMutation = (mutation: MutationInput) =>
+    withStore(QUEUE_STORE, 'readwrite', store => store.add({ ...mutation, queuedAt: new Date() }));
+
+// Auto-increment keys keep getAll() in the order the admin made the changes
+export const listMutations = () =>
+    withStore<QueuedMutation[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+
+export const removeMutation = (id: number) =>
+    withStore(QUEUE_STORE, 'readwrite', store => store.delete(id));
+
+// Once an offline-created booking reaches the server, later queued changes must target its real id
+export const remapBookingId = async (tempId: string, bookingId: string) => {
+    const queued = await listMutations();
+    await Promise.all(queued
+        .filter(m => m.kind !== 'create' && m.bookingId === tempId)
+        .map(m => withStore(QUEUE_STORE, 'readwrite', store => store.put({ ...m, bookingId }))));
+};
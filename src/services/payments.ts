@@ -0,0 +1,36 @@
+import { PaymentIntent } from '../types';
+
+export interface PaymentResult {
+    status: 'succeeded' | 'declined' | 'cancelled';
+    // Handed back to the API, which verifies the charge with the provider itself
+    providerReference?: string;
+}
+
+// A checkout the guest goes through for a deposit. The server picks the provider per intent.
+export interface PaymentProvider {
+    id: string;
+    checkout: (intent: PaymentIntent) => Promise<PaymentResult>;
+}
+
+const FAKE_CHECKOUT_MS = 800;
+
+// Local testing only: no money moves and the API accepts any fake_ reference.
+// VITE_FAKE_PAYMENT_OUTCOME=declined exercises the failure path.
+const fakeProvider: PaymentProvider = {
+    id: 'fake',
+    checkout: async (intent) => {
+        await new Promise(resolve => setTimeout(resolve, FAKE_CHECKOUT_MS));
+        if (import.meta.env.VITE_FAKE_PAYMENT_OUTCOME === 'declined') {
+            return { status: 'declined' };
+        }
+        return { status: 'succeeded', providerReference: `fake_${intent.id}` };
+    }
+};
+
+const providers = new Map<string, PaymentProvider>([[fakeProvider.id, fakeProvider]]);
+
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const getPaymentProvider = (id: string): PaymentProvider | undefined => providers.get(id);
@@ -1,4 +1,5 @@
 import { API_BASE_URL } from './api';
+import { getSessionTokens } from './session';
 
 let swRegistration: ServiceWorkerRegistration | null = null;
 
@@ -66,9 +67,13 @@ export async function subscribeToPush(
         }
 
         // Send subscription to server
+        const session = getSessionTokens();
         const res = await fetch(`${API_BASE_URL}/push/subscribe`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: {
+                'Content-Type': 'application/json',
+                ...(session ? { Authorization: `Bearer ${session.accessToken}` } : {}),
+            },
             body: JSON.stringify({
                 subscription: subscription.toJSON(),
                 role,
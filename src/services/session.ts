@@ -0,0 +1,80 @@
+import { User } from '../types';
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+}
+
+// Each sign-in surface keeps its own tokens, so signing in or out of analytics never touches the
+// console. Staff and guest sign-in share 'app' because AppContext holds a single current user for both.
+export type SessionAudience = 'app' | 'analytics';
+
+const STORAGE_KEYS: Record<SessionAudience, string> = {
+    app: 'authSession',
+    analytics: 'analyticsSession'
+};
+
+// The user the server last confirmed for the stored tokens. Only read when the server can't be
+// reached on startup; every request is still authorised by the tokens themselves.
+const USER_KEYS: Record<SessionAudience, string> = {
+    app: 'authSessionUser',
+    analytics: 'analyticsSessionUser'
+};
+
+const loadTokens = (audience: SessionAudience): SessionTokens | null => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS[audience]);
+        return stored ? JSON.parse(stored) as SessionTokens : null;
+    } catch {
+        return null;
+    }
+};
+
+const tokens: Record<SessionAudience, SessionTokens | null> = {
+    app: loadTokens('app'),
+    analytics: loadTokens('analytics')
+};
+
+const expiredListeners: Record<SessionAudience, Set<() => void>> = {
+    app: new Set(),
+    analytics: new Set()
+};
+
+export const getSessionTokens = (audience: SessionAudience = 'app'): SessionTokens | null => tokens[audience];
+
+export const setSessionTokens = (next: SessionTokens, audience: SessionAudience = 'app') => {
+    tokens[audience] = next;
+    localStorage.setItem(STORAGE_KEYS[audience], JSON.stringify(next));
+};
+
+export const clearSession = (audience: SessionAudience = 'app') => {
+    tokens[audience] = null;
+    localStorage.removeItem(STORAGE_KEYS[audience]);
+    localStorage.removeItem(USER_KEYS[audience]);
+};
+
+export const getCachedSessionUser = (audience: SessionAudience = 'app'): User | null => {
+    try {
+        const stored = localStorage.getItem(USER_KEYS[audience]);
+        return stored ? JSON.parse(stored) as User : null;
+    } catch {
+        return null;
+    }
+};
+
+export const cacheSessionUser = (user: User, audience: SessionAudience = 'app') => {
+    localStorage.setItem(USER_KEYS[audience], JSON.stringify(user));
+};
+
+// Called by the API client when the refresh token is rejected — the user has to sign in again
+export const expireSession = (audience: SessionAudience = 'app') => {
+    clearSession(audience);
+    expiredListeners[audience].forEach(listener => listener());
+};
+
+export const onSessionExpired = (listener: () => void, audience: SessionAudience = 'app'): (() => void) => {
+    expiredListeners[audience].add(listener);
+    return () => {
+        expiredListeners[audience].delete(listener);
+    };
+};
@@ -1,5 +1,7 @@
 
-export type UserRole = 'GUEST' | 'ADMIN' | 'OWNER';
+export type UserRole = 'GUEST' | 'HOST' | 'ADMIN' | 'MANAGER' | 'OWNER';
+
+export type StaffRole = Exclude<UserRole, 'GUEST'>;
 
 export interface User {
   id: string;
@@ -8,6 +10,22 @@ export interface User {
   role: UserRole;
   restaurantIds: string[]; // Which restaurants this user can manage
   managerName?: string;
+  // Signed-in guests only: the verified phone and the name from their last booking
+  phone?: string;
+  name?: string;
+}
+
+export type StaffStatus = 'invited' | 'active';
+
+// A staff account as the owner sees it in the team list
+export interface StaffMember {
+  id: string;
+  email: string;
+  managerName?: string;
+  role: StaffRole;
+  restaurantIds: string[];
+  status: StaffStatus;
+  lastLoginAt?: Date;
 }
 
 export interface Guest {
@@ -15,10 +33,34 @@ export interface Guest {
   name: string;
   email?: string;
   internalComment?: string;
+  // Standing wishes carried over from the guest's bookings, editable by staff
+  tags?: BookingTag[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface GuestHistoryEntry {
+  id: string;
+  restaurantName: string;
+  dateTime: Date;
+  status: BookingStatus;
+  tableLabel?: string;
+  assignedTo?: string;
+  guestComment?: string;
+  tags?: BookingTag[];
+  declineReason?: string;
+  cancelReason?: string;
+  cancelComment?: string;
+}
+
+export interface GuestStats {
+  totalBookings: number;
+  completed: number;
+  declined: number;
+  cancelledByAdmin: number;
+  cancelledByGuest: number;
+}
+
 export enum BookingStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
@@ -97,6 +139,125 @@ export interface Booking {
   deadlineAt?: Date;
   createdAt: Date;
   updatedAt?: Date;
+  // Prepayment taken when the booking was made; absent when the venue asked for none
+  depositAmount?: number;
+  depositStatus?: DepositStatus;
+  tags?: BookingTag[];
+  // Set on every occurrence of a recurring booking
+  seriesId?: string;
+  // Seated straight from the floor map; the phone may be filled in later
+  walkIn?: boolean;
+  // Every time the seated party changed tables, oldest first
+  tableMoves?: TableMove[];
+}
+
+export type BookingAuditAction =
+  | 'created'
+  | 'confirmed'
+  | 'declined'
+  | 'seated'
+  | 'completed'
+  | 'duration_extended'
+  | 'moved'
+  | 'edited'
+  | 'cancelled';
+
+export type BookingAuditValue = string | number | boolean | string[] | null;
+
+export interface BookingFieldChange {
+  field: string;
+  before: BookingAuditValue;
+  after: BookingAuditValue;
+}
+
+// One entry of a booking's append-only change log. The server writes it with every change,
+// taking the actor from the session, so replayed offline changes are logged when they land.
+export interface BookingAuditEvent {
+  id: string;
+  bookingId: string;
+  action: BookingAuditAction;
+  actor?: string;
+  actorRole?: 'guest' | 'staff' | 'system';
+  at: Date;
+  changes: BookingFieldChange[];
+  // Decline or cancellation reason, when there was one
+  note?: string;
+}
+
+export interface TableMove {
+  fromTableLabels: string[];
+  toTableLabels: string[];
+  // Set when the party traded tables with another one
+  swappedWithBookingId?: string;
+  movedBy?: string;
+  movedAt: Date;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'daily';
+
+// "Every N weeks" or "every N days", ending on a date or after a number of visits
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number;
+}
+
+// Structured wishes picked at booking time; anything else still goes into guestComment
+export type BookingTag =
+  | 'birthday' | 'anniversary' | 'business' | 'date'
+  | 'vegetarian' | 'vegan' | 'gluten_free' | 'lactose_free' | 'nut_allergy' | 'seafood_allergy'
+  | 'window' | 'quiet' | 'terrace'
+  | 'high_chair' | 'wheelchair';
+
+export type BookingTagCategory = 'occasion' | 'dietary' | 'seating' | 'accessibility';
+
+export type DepositMode = 'per_person' | 'flat';
+
+// One prepayment rule. Empty conditions match any booking; the first matching rule wins.
+export interface DepositRule {
+  id: string;
+  mode: DepositMode;
+  amount: number; // ₸, per guest for 'per_person'
+  weekdays?: number[]; // 0 = Sunday, as Date.getDay()
+  fromTime?: string; // HH:MM, booking start
+  toTime?: string; // HH:MM
+  minGuests?: number;
+}
+
+// Refunds follow the venue's CancellationPolicy
+export interface DepositPolicy {
+  rules: DepositRule[];
+}
+
+export type DepositStatus = 'paid' | 'refunded' | 'partially_refunded' | 'retained';
+
+// A cancellation reason the guest can pick, in both interface languages
+export interface CancellationReason {
+  ru: string;
+  kz: string;
+}
+
+export interface CancellationPolicy {
+  // Cancelling at least this many hours ahead is free
+  freeCancelHours: number;
+  // Share of the deposit kept on a later cancellation; 0 means no penalty. No-shows lose the whole deposit.
+  lateCancelPenaltyPercent: number;
+  // A confirmed guest this many minutes past the start is flagged as a no-show
+  noShowAfterMinutes: number;
+  // How long staff have to answer a new request
+  confirmWithinMinutes: number;
+  reasons: CancellationReason[];
+}
+
+// A prepayment the server opened for a booking that doesn't exist yet
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: 'KZT';
+  provider: string;
+  // Opaque handle the provider's checkout needs
+  clientSecret?: string;
 }
 
 export type PublicCancelBookingInfo = {
@@ -108,6 +269,44 @@ export type PublicCancelBookingInfo = {
   tableLabel?: string;
   status: BookingStatus;
   canCancel: boolean;
+  depositAmount?: number;
+  depositStatus?: DepositStatus;
+  // Whether cancelling right now returns the deposit under the venue's policy
+  depositRefundable?: boolean;
+  cancellationPolicy?: CancellationPolicy;
+};
+
+// A booking in the signed-in guest's own history, across every venue
+export interface GuestBooking extends Booking {
+  restaurantName: string;
+  // Token for /my-booking/:token; absent once the booking can no longer be managed
+  manageToken?: string;
+}
+
+// Router state for /restaurant/:id when a guest rebooks from their history
+export interface RebookState {
+  rebook: {
+    tableId?: string | null;
+    guestCount: number;
+  };
+}
+
+// What the guest sees on the self-service page behind the link from their confirmation
+export type PublicManageBookingInfo = {
+  bookingId: string;
+  restaurantId: string;
+  restaurantName: string;
+  guestName: string;
+  guestCount: number;
+  guestComment?: string;
+  dateTime: string;
+  duration?: number;
+  tableIds: string[];
+  tableLabels: string[];
+  status: BookingStatus;
+  canModify: boolean;
+  // Time or party size changes go back to PENDING until an admin approves them
+  requiresApproval: boolean;
 };
 
 export interface Restaurant {
@@ -129,12 +328,82 @@ export interface Restaurant {
   deposit?: string;
   age_restriction_kz?: string;
   deposit_kz?: string;
+  depositPolicy?: DepositPolicy;
+  cancellationPolicy?: CancellationPolicy;
+  // Upcoming private events, loaded separately from the bookings
+  events?: EventBooking[];
+  // Manual table states set by hosts, loaded separately like the events
+  tableStates?: TableStateOverride[];
   city?: string;
   adminWorks?: Record<number, { start: string; end: string }>;
   menu?: boolean;
   description?: string;
 }
 
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+
+// How the guest hears about a freed slot; 'sms' is a stand-in until a real SMS gateway is wired up
+export type NotifyChannel = 'push' | 'sms';
+
+// A guest waiting for a slot on a fully booked day
+export interface WaitlistEntry {
+  id: string;
+  restaurantId: string;
+  guestName: string;
+  guestPhone: string;
+  guestCount: number;
+  date: string; // YYYY-MM-DD
+  windowStart: string; // HH:MM
+  windowEnd: string; // HH:MM
+  status: WaitlistStatus;
+  notifyBy: NotifyChannel;
+  offeredDateTime?: Date;
+  offeredAt?: Date;
+  createdAt: Date;
+}
+
+export type EventBookingStatus = 'confirmed' | 'cancelled';
+
+// A private hire or banquet: holds every table on its floors, plus any tables picked one by one,
+// for the whole time range. Guests only get the time range and scope; the rest is staff-only.
+export interface EventBooking {
+  id: string;
+  restaurantId: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  floorIds: string[];
+  tableIds: string[];
+  headcount: number;
+  contactName?: string;
+  contactPhone?: string;
+  menuPackage?: string;
+  notes?: string;
+  status: EventBookingStatus;
+  createdAt: Date;
+}
+
+// What a host can put a table into by hand; anything else is worked out from bookings
+export type TableStateOverrideKind = 'cleaning' | 'blocked' | 'held';
+
+// One per table at most. Guests get the table and the time range only, never the note.
+export interface TableStateOverride {
+  tableId: string;
+  state: TableStateOverrideKind;
+  // The table frees itself at this moment; open-ended until a host clears it when missing
+  until?: Date;
+  note?: string;
+  setBy?: string;
+  setAt: Date;
+}
+
+// Server-computed "free tables right now" for the guest list, so cards don't need the bookings
+export interface RestaurantAvailability {
+  restaurantId: string;
+  totalTables: number;
+  freeTables: number;
+}
+
 export interface Dish {
   id: string;
   restaurantId: string;
@@ -0,0 +1,15 @@
+import { ApiError, NetworkError, TimeoutError } from '../services/api';
+
+type Translate = (key: string, replacements?: Record<string, string | number>) => string;
+
+// Human-readable text for anything the API client can throw
+export const describeApiError = (error: unknown, t: Translate, fallback?: string): string => {
+    if (error instanceof TimeoutError) return t('apiError.timeout');
+    if (error instanceof NetworkError) return t('apiError.network');
+    if (error instanceof ApiError) {
+        if (error.code === 'maintenance') return t('apiError.maintenance');
+        if (error.code === 'forbidden') return t('apiError.forbidden');
+        return error.message;
+    }
+    return fallback ?? (error instanceof Error && error.message ? error.message : t('common.error'));
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { AvailabilityInput, getCandidateStarts, getShiftWindows, getTableSlots, isTableFree } from './availability';
+import { Booking, BookingStatus, TableElement } from '../types';
+
+const FRIDAY = new Date(2026, 9, 16);
+const SATURDAY = new Date(2026, 9, 17);
+// Well before both days, so the lead time never hides a slot
+const NOW = new Date(2026, 9, 15, 12, 0);
+
+const table = (id: string): TableElement => ({
+    id, type: 'table', x: 0, y: 0, seats: 4, shape: 'square', label: id, width: 60, height: 60
+});
+
+const booking = (id: string, tableId: string, dateTime: Date, duration: number): Booking => ({
+    id,
+    restaurantId: 'r1',
+    tableId,
+    dateTime,
+    duration,
+    status: BookingStatus.CONFIRMED,
+    guestName: 'Guest',
+    guestPhone: '+7 (700) 000-00-00',
+    guestCount: 2,
+    createdAt: NOW
+} as Booking);
+
+// Friday runs 18:00 to 02:00; Saturday opens 12:00 and closes at 23:00
+const input = (bookings: Booking[] = []): AvailabilityInput => ({
+    layout: [table('t1')],
+    schedule: {
+        5: { start: '18:00', end: '02:00' },
+        6: { start: '12:00', end: '23:00' }
+    },
+    bookings,
+    defaultDuration: 120
+});
+
+const at = (day: Date, hours: number, minutes = 0) =>
+    new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).getTime();
+
+describe('overnight shifts', () => {
+    it('runs the shift into the next morning', () => {
+        expect(getShiftWindows(input(), FRIDAY)).toEqual([
+            { start: at(FRIDAY, 18), end: at(SATURDAY, 2) }
+        ]);
+    });
+
+    it('opens the next day with the tail of the previous shift', () => {
+        expect(getShiftWindows(input(), SATURDAY)).toEqual([
+            { start: at(SATURDAY, 0), end: at(SATURDAY, 2) },
+            { start: at(SATURDAY, 12), end: at(SATURDAY, 23) }
+        ]);
+    });
+
+    it('lists slots after midnight under the next day only', () => {
+        const friday = getCandidateStarts(input(), FRIDAY, 120, NOW).map(d => d.getTime());
+        expect(friday[0]).toBe(at(FRIDAY, 18));
+        expect(friday[friday.length - 1]).toBe(at(FRIDAY, 23, 30));
+
+        const saturday = getCandidateStarts(input(), SATURDAY, 120, NOW).map(d => d.getTime());
+        expect(saturday.slice(0, 2)).toEqual([at(SATURDAY, 0), at(SATURDAY, 12)]);
+    });
+
+    it('keeps a late booking holding its table past midnight', () => {
+        const bookings = [booking('b1', 't1', new Date(at(FRIDAY, 23)), 120)];
+
+        expect(isTableFree(input(bookings), 't1', new Date(at(SATURDAY, 0, 30)), 60)).toBe(false);
+        expect(isTableFree(input(bookings), 't1', new Date(at(SATURDAY, 1)), 60)).toBe(true);
+        expect(getTableSlots(input(bookings), 't1', SATURDAY, 120, NOW)).not.toContain('00:00');
+    });
+});
@@ -0,0 +1,185 @@
+import { Booking, BookingStatus, EventBooking, LayoutElement, Restaurant, TableElement, TableStateOverride } from '../types';
+import { parseTime } from './helpers';
+
+// Single source of truth for "is this table / this time free". Everything works on absolute
+// timestamps, so a shift that runs past midnight needs no special casing when comparing bookings.
+
+export const SLOT_STEP_MINUTES = 30;
+export const DEFAULT_DURATION_MINUTES = 60;
+// Guests can't book a slot that starts sooner than this from now
+export const MIN_LEAD_MINUTES = 60;
+
+const MINUTE_MS = 60000;
+
+// Statuses that keep a table from being offered to anyone else
+const HOLDING_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.OCCUPIED];
+
+export type TableStatus = 'available' | 'pending' | 'confirmed';
+
+export interface AvailabilityInput {
+    layout: LayoutElement[];
+    schedule?: Restaurant['schedule'];
+    workStarts?: string;
+    workEnds?: string;
+    bookings: Booking[];
+    // Private events hold their tables exactly like bookings do
+    events?: EventBooking[];
+    // Cleaning, blocked and VIP-held tables are off the market until the host clears them or they expire
+    tableStates?: TableStateOverride[];
+    // Minutes a booking lasts when it doesn't carry its own duration
+    defaultDuration: number;
+}
+
+interface Interval {
+    start: number;
+    end: number;
+}
+
+export const defaultDuration = (restaurant?: Pick<Restaurant, 'bookingRestriction'> | null): number =>
+    restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : DEFAULT_DURATION_MINUTES;
+
+export const availabilityInput = (restaurant: Restaurant): AvailabilityInput => ({
+    layout: restaurant.layout,
+    schedule: restaurant.schedule,
+    workStarts: restaurant.workStarts,
+    workEnds: restaurant.workEnds,
+    bookings: restaurant.bookings,
+    events: restaurant.events,
+    tableStates: restaurant.tableStates,
+    defaultDuration: defaultDuration(restaurant)
+});
+
+export const formatTime = (date: Date): string =>
+    `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export const bookingTableIds = (booking: Booking): string[] =>
+    booking.tableIds && booking.tableIds.length > 0 ? booking.tableIds : (booking.tableId ? [booking.tableId] : []);
+
+export const getTables = (input: Pick<AvailabilityInput, 'layout'>): TableElement[] =>
+    input.layout.filter((el): el is TableElement => el.type === 'table');
+
+const atMinutes = (day: Date, minutes: number): number =>
+    new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes).getTime();
+
+const bookingInterval = (booking: Booking, fallbackDuration: number): Interval => {
+    const start = new Date(booking.dateTime).getTime();
+    return { start, end: start + (booking.duration || fallbackDuration) * MINUTE_MS };
+};
+
+const overlaps = (a: Interval, b: Interval) => a.start < b.end && a.end > b.start;
+
+const holdingBookings = (input: AvailabilityInput, window: Interval, ignoreBookingId?: string): { booking: Booking; tableIds: string[] }[] =>
+    input.bookings
+        .filter(b => b.id !== ignoreBookingId && HOLDING_STATUSES.includes(b.status))
+        .filter(b => overlaps(bookingInterval(b, input.defaultDuration), window))
+        .map(booking => ({ booking, tableIds: bookingTableIds(booking) }));
+
+/** Every table on the event's floors plus the ones picked one by one. */
+export const eventTableIds = (event: EventBooking, layout: LayoutElement[]): string[] =>
+    getTables({ layout })
+        .filter(table => event.tableIds.includes(table.id) || (!!table.floorId && event.floorIds.includes(table.floorId)))
+        .map(table => table.id);
+
+export const activeEvents = (events: EventBooking[] | undefined, window: Interval): EventBooking[] =>
+    (events || []).filter(e => e.status === 'confirmed' && overlaps({ start: e.startsAt.getTime(), end: e.endsAt.getTime() }, window));
+
+export const activeTableStates = (states: TableStateOverride[] | undefined, window: Interval): TableStateOverride[] =>
+    (states || []).filter(s => overlaps({ start: s.setAt.getTime(), end: s.until ? s.until.getTime() : Infinity }, window));
+
+// Tables nobody can book in the window for reasons other than a booking
+const heldTableIds = (input: AvailabilityInput, window: Interval): Set<string> =>
+    new Set([
+        ...activeEvents(input.events, window).flatMap(e => eventTableIds(e, input.layout)),
+        ...activeTableStates(input.tableStates, window).map(s => s.tableId)
+    ]);
+
+export const getShiftForDay = (input: AvailabilityInput, dayIndex: number): { start: string; end: string } =>
+    input.schedule?.[dayIndex] || { start: input.workStarts || '10:00', end: input.workEnds || '23:00' };
+
+/**
+ * Opening hours that fall on the given calendar day: the tail of yesterday's shift when it ran
+ * past midnight, then today's own shift (which may itself end tomorrow).
+ */
+export const getShiftWindows = (input: AvailabilityInput, day: Date): Interval[] => {
+    const windows: Interval[] = [];
+    const todayIndex = day.getDay();
+    const yesterday = getShiftForDay(input, (todayIndex + 6) % 7);
+    const today = getShiftForDay(input, todayIndex);
+
+    const yStart = parseTime(yesterday.start);
+    const yEnd = parseTime(yesterday.end);
+    if (yEnd <= yStart) {
+        windows.push({ start: atMinutes(day, 0), end: atMinutes(day, yEnd) });
+    }
+
+    const tStart = parseTime(today.start);
+    const tEnd = parseTime(today.end);
+    windows.push({ start: atMinutes(day, tStart), end: atMinutes(day, tEnd <= tStart ? tEnd + 24 * 60 : tEnd) });
+    return windows;
+};
+
+/** Every start time on the given day a booking of this length fits into, respecting the lead time. */
+export const getCandidateStarts = (input: AvailabilityInput, day: Date, duration: number, now: Date = new Date()): Date[] => {
+    const dayEnd = atMinutes(day, 24 * 60);
+    const earliest = now.getTime() + MIN_LEAD_MINUTES * MINUTE_MS;
+    const starts: Date[] = [];
+
+    for (const window of getShiftWindows(input, day)) {
+        // Slots after midnight belong to tomorrow's list, where they show up as yesterday's spillover
+        for (let t = window.start; t + duration * MINUTE_MS <= window.end && t < dayEnd; t += SLOT_STEP_MINUTES * MINUTE_MS) {
+            if (t >= earliest) starts.push(new Date(t));
+        }
+    }
+    return starts.sort((a, b) => a.getTime() - b.getTime());
+};
+
+export const isTableFree = (input: AvailabilityInput, tableId: string, start: Date, duration: number, ignoreBookingId?: string): boolean => {
+    const window = { start: start.getTime(), end: start.getTime() + duration * MINUTE_MS };
+    return !heldTableIds(input, window).has(tableId) &&
+        !holdingBookings(input, window, ignoreBookingId).some(h => h.tableIds.includes(tableId));
+};
+
+/**
+ * Tables left for a party of this size. Bookings made without a table (no-map venues) still
+ * take one, so they are subtracted from the count of tables nobody holds.
+ */
+export const countFreeTables = (input: AvailabilityInput, start: Date, duration: number, partySize = 1): number => {
+    const window = { start: start.getTime(), end: start.getTime() + duration * MINUTE_MS };
+    const holding = holdingBookings(input, window);
+    const heldIds = new Set([...holding.flatMap(h => h.tableIds), ...heldTableIds(input, window)]);
+    const unassigned = holding.filter(h => h.tableIds.length === 0).length;
+    const fitting = getTables(input).filter(table => !heldIds.has(table.id) && (!table.seats || table.seats >= partySize));
+    return Math.max(0, fitting.length - unassigned);
+};
+
+/** "HH:MM" slots on the given day when this particular table is free. */
+export const getTableSlots = (input: AvailabilityInput, tableId: string, day: Date, duration: number, now: Date = new Date()): string[] =>
+    getCandidateStarts(input, day, duration, now)
+        .filter(start => isTableFree(input, tableId, start, duration))
+        .map(formatTime);
+
+/** "HH:MM" slots on the given day when at least one table can seat the party. */
+export const getPartySlots = (input: AvailabilityInput, partySize: number, day: Date, duration: number, now: Date = new Date()): string[] =>
+    getCandidateStarts(input, day, duration, now)
+        .filter(start => countFreeTables(input, start, duration, partySize) > 0)
+        .map(formatTime);
+
+/** What each table is doing at this moment; a pending request wins over a confirmed booking. */
+export const getTableStatuses = (input: AvailabilityInput, now: Date = new Date()): Record<string, TableStatus> => {
+    const moment = { start: now.getTime(), end: now.getTime() + 1 };
+    const holding = holdingBookings(input, moment);
+    const held = heldTableIds(input, moment);
+    const statuses: Record<string, TableStatus> = {};
+
+    getTables(input).forEach(table => {
+        const active = holding.filter(h => h.tableIds.includes(table.id)).map(h => h.booking.status);
+        if (held.has(table.id)) statuses[table.id] = 'confirmed';
+        else if (active.includes(BookingStatus.PENDING)) statuses[table.id] = 'pending';
+        else if (active.length > 0) statuses[table.id] = 'confirmed';
+        else statuses[table.id] = 'available';
+    });
+    return statuses;
+};
+
+export const countFreeTablesNow = (input: AvailabilityInput, now: Date = new Date()): number =>
+    Object.values(getTableStatuses(input, now)).filter(status => status === 'available').length;
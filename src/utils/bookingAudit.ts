@@ -0,0 +1,38 @@
+import { BookingAuditAction, BookingAuditValue } from '../types';
+
+type Translate = (key: string, replacements?: Record<string, string | number>) => string;
+
+// Fields with a label under bookingHistory.fields; anything newer the server logs shows its raw name
+const LABELLED_FIELDS = [
+    'status', 'dateTime', 'duration', 'guestCount', 'guestName', 'guestPhone', 'guestEmail',
+    'tableLabels', 'assignedTo', 'guestComment', 'tags', 'declineReason', 'cancelReason'
+];
+
+export const AUDIT_ACTION_ICONS: Record<BookingAuditAction, string> = {
+    created: '➕',
+    confirmed: '✅',
+    declined: '🚫',
+    seated: '🪑',
+    completed: '🏁',
+    duration_extended: '⏱',
+    moved: '↪',
+    edited: '✏️',
+    cancelled: '✖'
+};
+
+export const auditFieldLabel = (field: string, t: Translate): string =>
+    LABELLED_FIELDS.includes(field) ? t(`bookingHistory.fields.${field}`) : field;
+
+export const formatAuditValue = (field: string, value: BookingAuditValue, t: Translate): string => {
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) return '—';
+    if (Array.isArray(value)) {
+        return field === 'tags' ? value.map(tag => t(`bookingTags.tags.${tag}`)).join(', ') : value.join(', ');
+    }
+    if (field === 'status') return t(`futureBookings.status.${String(value).toLowerCase()}`);
+    if (field === 'dateTime') {
+        return new Date(String(value)).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+    }
+    if (field === 'duration') return `${value} ${t('admin.min')}`;
+    if (typeof value === 'boolean') return value ? t('bookingHistory.yes') : t('bookingHistory.no');
+    return String(value);
+};
@@ -0,0 +1,48 @@
+import { BookingTag, BookingTagCategory } from '../types';
+
+export interface BookingTagGroup {
+    category: BookingTagCategory;
+    tags: BookingTag[];
+    // A booking has at most one occasion
+    single?: boolean;
+}
+
+// Order here is the order guests see in the booking form
+export const BOOKING_TAG_GROUPS: BookingTagGroup[] = [
+    { category: 'occasion', tags: ['birthday', 'anniversary', 'business', 'date'], single: true },
+    { category: 'dietary', tags: ['vegetarian', 'vegan', 'gluten_free', 'lactose_free', 'nut_allergy', 'seafood_allergy'] },
+    { category: 'seating', tags: ['window', 'quiet', 'terrace'] },
+    { category: 'accessibility', tags: ['high_chair', 'wheelchair'] }
+];
+
+export const BOOKING_TAG_ICONS: Record<BookingTag, string> = {
+    birthday: '🎂',
+    anniversary: '💍',
+    business: '💼',
+    date: '🌹',
+    vegetarian: '🥗',
+    vegan: '🌱',
+    gluten_free: '🌾',
+    lactose_free: '🥛',
+    nut_allergy: '🥜',
+    seafood_allergy: '🦐',
+    window: '🪟',
+    quiet: '🤫',
+    terrace: '☀️',
+    high_chair: '👶',
+    wheelchair: '♿'
+};
+
+const categoryOf = (tag: BookingTag) => BOOKING_TAG_GROUPS.find(g => g.tags.includes(tag));
+
+// Toggle a tag, dropping any other tag of a single-choice category
+export const toggleBookingTag = (tags: BookingTag[], tag: BookingTag): BookingTag[] => {
+    if (tags.includes(tag)) return tags.filter(t => t !== tag);
+    const group = categoryOf(tag);
+    const kept = group?.single ? tags.filter(t => !group.tags.includes(t)) : tags;
+    return [...kept, tag];
+};
+
+// Tags in catalog order, ignoring anything the client doesn't know about yet
+export const sortBookingTags = (tags: BookingTag[] | undefined): BookingTag[] =>
+    BOOKING_TAG_GROUPS.flatMap(g => g.tags).filter(tag => tags?.includes(tag));
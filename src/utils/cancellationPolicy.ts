@@ -0,0 +1,44 @@
+import { Booking, BookingStatus, CancellationPolicy, CancellationReason, Restaurant } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// What venues get until the owner sets their own policy
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+    freeCancelHours: 2,
+    lateCancelPenaltyPercent: 0,
+    noShowAfterMinutes: 30,
+    confirmWithinMinutes: 120,
+    reasons: [
+        { ru: 'Изменились планы', kz: 'Жоспарлар өзгерді' },
+        { ru: 'Не подошло время', kz: 'Уақыт сәйкес келмеді' },
+        { ru: 'Не понравились условия', kz: 'Шарттар ұнамады' },
+        { ru: 'Нашли другое место', kz: 'Басқа орын таптық' },
+        { ru: 'Случайно забронировал', kz: 'Кездейсоқ брондадым' }
+    ]
+};
+
+export const getCancellationPolicy = (restaurant: Pick<Restaurant, 'cancellationPolicy'> | undefined): CancellationPolicy =>
+    restaurant?.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+
+export const reasonLabel = (reason: CancellationReason, language: string) =>
+    language === 'kz' && reason.kz.trim() ? reason.kz : reason.ru;
+
+// After this moment a guest cancellation counts as late
+export const freeCancellationDeadline = (policy: CancellationPolicy, start: Date): Date =>
+    new Date(start.getTime() - policy.freeCancelHours * HOUR_MS);
+
+export const isLateCancellation = (policy: CancellationPolicy, start: Date, at = new Date()): boolean =>
+    at.getTime() > freeCancellationDeadline(policy, start).getTime();
+
+// When staff must have answered a pending request. The server's deadline wins (it pauses outside
+// admin working hours); otherwise the policy window, but never later than the visit itself.
+export const confirmationDeadline = (policy: CancellationPolicy, booking: Pick<Booking, 'createdAt' | 'dateTime' | 'deadlineAt'>): Date => {
+    if (booking.deadlineAt) return booking.deadlineAt;
+    const byPolicy = new Date(booking.createdAt).getTime() + policy.confirmWithinMinutes * MINUTE_MS;
+    return new Date(Math.min(byPolicy, new Date(booking.dateTime).getTime()));
+};
+
+export const isNoShow = (policy: CancellationPolicy, booking: Pick<Booking, 'status' | 'dateTime'>, now = Date.now()): boolean =>
+    booking.status === BookingStatus.CONFIRMED &&
+    now > new Date(booking.dateTime).getTime() + policy.noShowAfterMinutes * MINUTE_MS;
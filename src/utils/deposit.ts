@@ -0,0 +1,29 @@
+import { DepositPolicy, DepositRule } from '../types';
+import { parseTime } from './helpers';
+
+export interface DepositQuote {
+    amount: number;
+    rule: DepositRule;
+}
+
+const ruleMatches = (rule: DepositRule, start: Date, guestCount: number) => {
+    if (rule.weekdays && rule.weekdays.length > 0 && !rule.weekdays.includes(start.getDay())) return false;
+    if (rule.minGuests && guestCount < rule.minGuests) return false;
+
+    const minutes = start.getHours() * 60 + start.getMinutes();
+    if (rule.fromTime && minutes < parseTime(rule.fromTime)) return false;
+    if (rule.toTime && minutes >= parseTime(rule.toTime)) return false;
+    return true;
+};
+
+// Prepayment for a booking starting at `start`, or null when the venue asks for none
+export const calculateDeposit = (policy: DepositPolicy | undefined, start: Date, guestCount: number): DepositQuote | null => {
+    const rule = policy?.rules.find(r => r.amount > 0 && ruleMatches(r, start, guestCount));
+    if (!rule) return null;
+    return {
+        amount: rule.mode === 'per_person' ? rule.amount * guestCount : rule.amount,
+        rule
+    };
+};
+
+export const formatMoney = (amount: number) => `${amount.toLocaleString('ru-RU')} ₸`;
@@ -0,0 +1,24 @@
+import { EventBooking, LayoutElement } from '../types';
+import { activeEvents, eventTableIds } from './availability';
+
+// Confirmed events still ahead of us or under way today
+export const eventsLaterToday = (events: EventBooking[] | undefined, now: Date = new Date()): EventBooking[] => {
+    const endOfDay = new Date(now);
+    endOfDay.setHours(23, 59, 59, 999);
+    return activeEvents(events, { start: now.getTime(), end: endOfDay.getTime() })
+        .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+};
+
+export const isEventUnderway = (event: EventBooking, now: Date = new Date()): boolean =>
+    event.startsAt.getTime() <= now.getTime() && now.getTime() < event.endsAt.getTime();
+
+// Venues without floors have a single unnamed one, so every event touches it
+export const eventTouchesFloor = (event: EventBooking, floorId: string, layout: LayoutElement[]): boolean =>
+    !floorId ||
+    event.floorIds.includes(floorId) ||
+    eventTableIds(event, layout).some(id => layout.find(el => el.id === id)?.floorId === floorId);
+
+export const formatEventRange = (event: EventBooking): string => {
+    const time = (d: Date) => d.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+    return `${time(event.startsAt)}–${time(event.endsAt)}`;
+};
@@ -45,3 +45,27 @@ export const generateTimeSlots = (
     }
     return slots;
 };
+
+// Formats input as +7 (XXX) XXX-XX-XX while the guest types; a leading 8 becomes 7
+export const formatPhoneNumber = (value: string): string => {
+    const digits = value.replace(/\D/g, '');
+    const limitedDigits = digits.slice(0, 11);
+    const normalizedDigits = limitedDigits.startsWith('8')
+        ? '7' + limitedDigits.slice(1)
+        : limitedDigits;
+
+    if (normalizedDigits.length === 0) return '';
+    if (normalizedDigits.length <= 1) return `+${normalizedDigits}`;
+    if (normalizedDigits.length <= 4) return `+${normalizedDigits[0]} (${normalizedDigits.slice(1)}`;
+    if (normalizedDigits.length <= 7) return `+${normalizedDigits[0]} (${normalizedDigits.slice(1, 4)}) ${normalizedDigits.slice(4)}`;
+    if (normalizedDigits.length <= 9) return `+${normalizedDigits[0]} (${normalizedDigits.slice(1, 4)}) ${normalizedDigits.slice(4, 7)}-${normalizedDigits.slice(7)}`;
+    return `+${normalizedDigits[0]} (${normalizedDigits.slice(1, 4)}) ${normalizedDigits.slice(4, 7)}-${normalizedDigits.slice(7, 9)}-${normalizedDigits.slice(9, 11)}`;
+};
+
+// YYYY-MM-DD in the browser's timezone (toISOString would shift it to UTC)
+export const formatLocalDate = (date: Date) => {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
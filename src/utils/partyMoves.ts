@@ -0,0 +1,64 @@
+import { Booking, BookingStatus, EventBooking, Restaurant } from '../types';
+import { activeEvents, bookingTableIds, defaultDuration, eventTableIds, getTables } from './availability';
+
+export interface PartySeating {
+    booking: Booking;
+    tableIds: string[];
+    tableLabels: string[];
+}
+
+export interface PartyMovePlan extends PartySeating {
+    // The party already at the target, given the table the dragged party leaves
+    swapWith?: PartySeating;
+    // Upcoming bookings and events the new seating would still be sitting through
+    conflicts: Booking[];
+    events: EventBooking[];
+}
+
+const UPCOMING_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+const seatedUntil = (booking: Booking, fallbackDuration: number): number =>
+    new Date(booking.dateTime).getTime() + (booking.duration || fallbackDuration) * 60000;
+
+// Multi-table parties keep their other tables; only the one dragged from changes
+const reseat = (restaurant: Restaurant, booking: Booking, fromTableId: string, toTableId: string): PartySeating => {
+    const tables = getTables(restaurant);
+    const tableIds = Array.from(new Set(bookingTableIds(booking).map(id => id === fromTableId ? toTableId : id)));
+    return { booking, tableIds, tableLabels: tableIds.map(id => tables.find(t => t.id === id)?.label || id) };
+};
+
+/**
+ * What dragging a seated party from one table onto another would do: a plain move onto a free
+ * table, or a swap when someone is already seated there. Conflicts cover the rest of each party's stay.
+ */
+export const planPartyMove = (restaurant: Restaurant, booking: Booking, fromTableId: string, toTableId: string, now: Date = new Date()): PartyMovePlan => {
+    const fallback = defaultDuration(restaurant);
+    const seatedThere = restaurant.bookings.find(b =>
+        b.id !== booking.id && b.status === BookingStatus.OCCUPIED && bookingTableIds(b).includes(toTableId)
+    );
+    const moving = [booking.id, seatedThere?.id];
+
+    const clashesOn = (tableId: string, party: Booking) => {
+        const window = { start: now.getTime(), end: Math.max(now.getTime() + 1, seatedUntil(party, fallback)) };
+        return {
+            conflicts: restaurant.bookings.filter(b =>
+                !moving.includes(b.id) &&
+                UPCOMING_STATUSES.includes(b.status) &&
+                bookingTableIds(b).includes(tableId) &&
+                new Date(b.dateTime).getTime() < window.end &&
+                seatedUntil(b, fallback) > window.start
+            ),
+            events: activeEvents(restaurant.events, window).filter(e => eventTableIds(e, restaurant.layout).includes(tableId))
+        };
+    };
+
+    const here = clashesOn(toTableId, booking);
+    const there = seatedThere ? clashesOn(fromTableId, seatedThere) : { conflicts: [], events: [] };
+
+    return {
+        ...reseat(restaurant, booking, fromTableId, toTableId),
+        swapWith: seatedThere ? reseat(restaurant, seatedThere, toTableId, fromTableId) : undefined,
+        conflicts: [...here.conflicts, ...there.conflicts].sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime()),
+        events: Array.from(new Set([...here.events, ...there.events]))
+    };
+};
@@ -0,0 +1,30 @@
+import { StaffRole, User, UserRole } from '../types';
+
+export type Permission =
+    | 'bookings.confirm'
+    | 'layout.edit'
+    | 'menu.edit'
+    | 'analytics.view'
+    | 'settings.edit'
+    | 'events.manage'
+    | 'staff.manage';
+
+// What each role may do. Views and routes ask for a permission, never for a role,
+// so a new role only needs a row here.
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    GUEST: [],
+    HOST: ['bookings.confirm'],
+    ADMIN: ['bookings.confirm', 'analytics.view', 'settings.edit', 'events.manage'],
+    MANAGER: ['bookings.confirm', 'analytics.view', 'settings.edit', 'menu.edit', 'events.manage'],
+    OWNER: ['bookings.confirm', 'layout.edit', 'menu.edit', 'analytics.view', 'settings.edit', 'events.manage', 'staff.manage']
+};
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean =>
+    !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const isStaff = (user: User | null | undefined): user is User & { role: StaffRole } =>
+    !!user && user.role !== 'GUEST';
+
+// Guests may open any venue; staff only the ones their session was issued for.
+export const canAccessRestaurant = (user: User | null | undefined, restaurantId: string): boolean =>
+    !isStaff(user) || user.restaurantIds.includes(restaurantId);
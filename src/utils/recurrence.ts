@@ -0,0 +1,57 @@
+import { RecurrenceRule } from '../types';
+import { AvailabilityInput, countFreeTables, getShiftWindows, isTableFree } from './availability';
+
+// A series longer than this is almost certainly a typo in the end date
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const MINUTE_MS = 60000;
+
+export type OccurrenceConflict = 'closed' | 'table_taken' | 'no_tables';
+
+export interface OccurrenceCheck {
+    dateTime: Date;
+    conflict?: OccurrenceConflict;
+}
+
+/** Start times of every visit in the series, the first one included. */
+export const expandRecurrence = (start: Date, rule: RecurrenceRule): Date[] => {
+    const stepDays = Math.max(1, rule.interval) * (rule.frequency === 'weekly' ? 7 : 1);
+    const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+    const until = rule.until ? new Date(`${rule.until}T23:59:59`) : null;
+    if (!until && !rule.count) return [new Date(start)];
+
+    const dates: Date[] = [];
+    for (let i = 0; dates.length < limit; i++) {
+        // Step by calendar days so the wall-clock time survives DST changes
+        const date = new Date(start);
+        date.setDate(start.getDate() + i * stepDays);
+        if (until && date > until) break;
+        dates.push(date);
+    }
+    return dates;
+};
+
+const isWithinShift = (input: AvailabilityInput, start: Date, duration: number): boolean => {
+    const end = start.getTime() + duration * MINUTE_MS;
+    return getShiftWindows(input, start).some(w => start.getTime() >= w.start && end <= w.end);
+};
+
+/**
+ * Flags the visits that can't take place as booked. `input` must hold the bookings for the
+ * whole range of the series, not just the day on screen.
+ */
+export const checkOccurrences = (
+    input: AvailabilityInput,
+    dates: Date[],
+    duration: number,
+    tableIds: string[],
+    partySize: number
+): OccurrenceCheck[] => dates.map(dateTime => {
+    if (!isWithinShift(input, dateTime, duration)) return { dateTime, conflict: 'closed' };
+    if (tableIds.length > 0) {
+        return tableIds.every(id => isTableFree(input, id, dateTime, duration))
+            ? { dateTime }
+            : { dateTime, conflict: 'table_taken' };
+    }
+    return countFreeTables(input, dateTime, duration, partySize) > 0 ? { dateTime } : { dateTime, conflict: 'no_tables' };
+});
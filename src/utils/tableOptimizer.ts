@@ -0,0 +1,114 @@
+import { TableElement } from '../types';
+import { AvailabilityInput, getTables, isTableFree } from './availability';
+
+export interface TableSuggestion {
+    tableIds: string[];
+    seats: number;
+}
+
+interface SuggestOptions {
+    // The booking being placed, so its own hold doesn't block the tables it already has
+    ignoreBookingId?: string;
+    maxTables?: number;
+}
+
+const DEFAULT_MAX_TABLES = 4;
+// Extra distance between table edges (layout px) that still counts as "can be pushed together"
+const NEARBY_GAP_PX = 60;
+
+const seatsOf = (table: TableElement) => table.seats || 2;
+
+const center = (table: TableElement) => ({ x: table.x, y: table.y });
+
+const distance = (a: TableElement, b: TableElement) => {
+    const ca = center(a);
+    const cb = center(b);
+    return Math.hypot(ca.x - cb.x, ca.y - cb.y);
+};
+
+const radius = (table: TableElement) => Math.max(table.width || 0, table.height || 0) / 2;
+
+const areNearby = (a: TableElement, b: TableElement) => distance(a, b) <= radius(a) + radius(b) + NEARBY_GAP_PX;
+
+const spread = (tables: TableElement[]) => {
+    let total = 0;
+    for (let i = 0; i < tables.length; i++) {
+        for (let j = i + 1; j < tables.length; j++) total += distance(tables[i], tables[j]);
+    }
+    return total;
+};
+
+const byLabel = (a: TableElement, b: TableElement) => String(a.label).localeCompare(String(b.label), undefined, { numeric: true });
+
+/**
+ * Best table or set of adjacent tables for the party at that time. A single table always wins
+ * over a combination; among candidates the one wasting the fewest seats wins, so the big tables
+ * stay free for the big groups. Combinations never span floors and must be physically next to
+ * each other on the plan. Returns null when nothing free can seat the party.
+ */
+export const suggestTables = (
+    input: AvailabilityInput,
+    guestCount: number,
+    start: Date,
+    duration: number,
+    options: SuggestOptions = {}
+): TableSuggestion | null => {
+    const free = getTables(input)
+        .filter(table => isTableFree(input, table.id, start, duration, options.ignoreBookingId))
+        .sort(byLabel);
+    if (free.length === 0) return null;
+
+    const single = free
+        .filter(table => seatsOf(table) >= guestCount)
+        .sort((a, b) => seatsOf(a) - seatsOf(b))[0];
+    if (single) return { tableIds: [single.id], seats: seatsOf(single) };
+
+    const floors = new Map<string, TableElement[]>();
+    free.forEach(table => {
+        const key = table.floorId || '';
+        floors.set(key, [...(floors.get(key) || []), table]);
+    });
+
+    const neighbours = new Map(free.map(table => [
+        table.id,
+        (floors.get(table.floorId || '') || []).filter(other => other.id !== table.id && areNearby(table, other))
+    ]));
+
+    // Grow groups one adjacent table at a time, so only groups that can actually be pushed
+    // together are ever looked at
+    const seen = new Set<string>();
+    let groups = free.map(table => [table]);
+    const maxTables = options.maxTables ?? DEFAULT_MAX_TABLES;
+
+    for (let size = 2; size <= maxTables && groups.length > 0; size++) {
+        const grown: TableElement[][] = [];
+        groups.forEach(group => group.forEach(member => neighbours.get(member.id)!.forEach(next => {
+            if (group.includes(next)) return;
+            const candidate = [...group, next];
+            const key = candidate.map(table => table.id).sort().join(',');
+            if (seen.has(key)) return;
+            seen.add(key);
+            grown.push(candidate);
+        })));
+
+        let best: { tables: TableElement[]; waste: number; spread: number } | null = null;
+        for (const tables of grown) {
+            const seats = tables.reduce((sum, table) => sum + seatsOf(table), 0);
+            if (seats < guestCount) continue;
+            const waste = seats - guestCount;
+            const groupSpread = spread(tables);
+            if (!best || waste < best.waste || (waste === best.waste && groupSpread < best.spread)) {
+                best = { tables, waste, spread: groupSpread };
+            }
+        }
+
+        if (best) {
+            return {
+                tableIds: [...best.tables].sort(byLabel).map(table => table.id),
+                seats: best.waste + guestCount
+            };
+        }
+        groups = grown;
+    }
+    return null;
+};
@@ -0,0 +1,55 @@
+import { Booking, BookingStatus, Restaurant, TableStateOverride, TableStateOverrideKind } from '../types';
+import { activeTableStates, bookingTableIds } from './availability';
+
+// What the admin map shows for a table. Guests at the table win over anything a host set by hand,
+// and a manual state wins over what the bookings say.
+export type TableState = 'occupied' | TableStateOverrideKind | 'late' | 'reserved_soon' | 'pending' | 'free';
+
+// A confirmed booking this close marks the table as reserved, so nobody seats a walk-in there
+export const RESERVED_SOON_MINUTES = 60;
+// How long a table stays "needs cleaning" after the guests leave, unless a host clears it earlier
+export const CLEANING_MINUTES = 10;
+
+export const MANUAL_TABLE_STATES: TableStateOverrideKind[] = ['cleaning', 'blocked', 'held'];
+
+export const TABLE_STATE_ICONS: Partial<Record<TableState, string>> = {
+    cleaning: '🧹',
+    blocked: '⛔',
+    held: '⭐'
+};
+
+export interface TableSnapshot {
+    state: TableState;
+    // The booking the table is serving or waiting for next, if any
+    booking?: Booking;
+    override?: TableStateOverride;
+}
+
+export const getTableSnapshot = (restaurant: Pick<Restaurant, 'bookings' | 'tableStates'>, tableId: string, now: Date = new Date()): TableSnapshot => {
+    const bookings = restaurant.bookings
+        .filter(b => bookingTableIds(b).includes(tableId))
+        .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+
+    const occupied = bookings.find(b => b.status === BookingStatus.OCCUPIED);
+    if (occupied) return { state: 'occupied', booking: occupied };
+
+    const override = activeTableStates(restaurant.tableStates, { start: now.getTime(), end: now.getTime() + 1 })
+        .find(s => s.tableId === tableId);
+    if (override) return { state: override.state, override };
+
+    const confirmed = bookings.find(b => b.status === BookingStatus.CONFIRMED);
+    if (confirmed) {
+        const timeDiff = new Date(confirmed.dateTime).getTime() - now.getTime();
+        if (timeDiff < 0) return { state: 'late', booking: confirmed };
+        if (timeDiff <= RESERVED_SOON_MINUTES * 60000) return { state: 'reserved_soon', booking: confirmed };
+    }
+
+    const pending = bookings.find(b => b.status === BookingStatus.PENDING);
+    if (pending) return { state: 'pending', booking: pending };
+
+    return { state: 'free', booking: confirmed };
+};
+
+/** Whole minutes until the moment, never below zero. */
+export const minutesUntil = (moment: Date, now: Date = new Date()): number =>
+    Math.max(0, Math.ceil((moment.getTime() - now.getTime()) / 60000));
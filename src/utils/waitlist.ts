@@ -0,0 +1,34 @@
+import { Booking, TableElement, WaitlistEntry } from '../types';
+import { bookingTableIds } from './availability';
+import { formatLocalDate, parseTime } from './helpers';
+
+// The window may run past midnight (22:00–01:00), in which case it wraps
+const isWithinWindow = (minutes: number, windowStart: string, windowEnd: string) => {
+    const start = parseTime(windowStart);
+    const end = parseTime(windowEnd);
+    return end > start ? minutes >= start && minutes <= end : minutes >= start || minutes <= end;
+};
+
+/**
+ * Waiting guests who could take the slot a booking just gave up: same day, start time inside
+ * their window, and a party that fits the freed tables (or the freed party size when the booking
+ * had no table). Oldest entry first, so the queue stays fair.
+ */
+export const findWaitlistMatches = (entries: WaitlistEntry[], freed: Booking, tables: TableElement[]): WaitlistEntry[] => {
+    const start = new Date(freed.dateTime);
+    const minutes = start.getHours() * 60 + start.getMinutes();
+    const freedTableIds = bookingTableIds(freed);
+    const capacity = freedTableIds.length > 0
+        ? freedTableIds.reduce((sum, id) => sum + (tables.find(t => t.id === id)?.seats || 2), 0)
+        : freed.guestCount;
+
+    return entries
+        .filter(entry =>
+            entry.status === 'waiting' &&
+            entry.restaurantId === freed.restaurantId &&
+            entry.date === formatLocalDate(start) &&
+            entry.guestCount <= capacity &&
+            isWithinWindow(minutes, entry.windowStart, entry.windowEnd)
+        )
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useData } from '../context/DataContext';
-import { Booking, BookingStatus, TableElement, TextElement, DecoElement } from '../types';
+import { Booking, BookingStatus, CancellationPolicy, TableElement, TextElement, DecoElement } from '../types';
 import { useApp } from '../context/AppContext';
 import { useTranslation } from '../context/I18nContext';
 import BookingModal from '../components/BookingModal';
@@ -10,10 +10,43 @@ import { registerServiceWorker, subscribeToPush } from '../services/pushService'
 import { LayoutElement } from '../types';
 import FutureBookingsManager from '../components/FutureBookingsManager';
 import RestaurantSettings from '../components/RestaurantSettings';
+import OfflineStatusBar from '../components/OfflineStatusBar';
+import { MenuView } from '../components/MenuView';
+import { hasPermission } from '../utils/permissions';
+import { availabilityInput, bookingTableIds, defaultDuration, eventTableIds, formatTime, isTableFree } from '../utils/availability';
+import { formatPhoneNumber } from '../utils/helpers';
+import { suggestTables } from '../utils/tableOptimizer';
+import TableSuggestionChip from '../components/TableSuggestionChip';
+import WaitlistPanel from '../components/WaitlistPanel';
+import DepositBadge from '../components/DepositBadge';
+import BookingTagIcons from '../components/BookingTagIcons';
+import EventManager from '../components/EventManager';
+import EventFloorOverlay from '../components/EventFloorOverlay';
+import WalkInSeatDialog from '../components/WalkInSeatDialog';
+import TableStateDialog from '../components/TableStateDialog';
+import BookingHistoryModal from '../components/BookingHistoryModal';
+import { useToast } from '../context/ToastContext';
+import { describeApiError } from '../utils/apiErrors';
+import { TABLE_STATE_ICONS, TableState, getTableSnapshot, minutesUntil } from '../utils/tableStates';
+import { eventsLaterToday, formatEventRange } from '../utils/events';
+import { planPartyMove } from '../utils/partyMoves';
+import { confirmationDeadline, getCancellationPolicy, isNoShow } from '../utils/cancellationPolicy';
 
 const LOGICAL_WIDTH = 1500;
 const LOGICAL_HEIGHT = 1000;
 
+// Map fill per table state; manual states are muted so they don't read as seatable
+const TABLE_STATE_COLORS: Record<TableState, string> = {
+    free: 'bg-[rgb(59,130,246)]/80 shadow-[0_0_15px_rgba(59,130,246,0.3)] hover:bg-[rgb(59,130,246)]',
+    occupied: 'bg-brand-green/80 shadow-[0_0_15px_rgba(74,222,128,0.3)] hover:bg-brand-green',
+    late: 'bg-brand-red/80 shadow-[0_0_15px_rgba(239,68,68,0.4)] hover:bg-brand-red',
+    reserved_soon: 'bg-brand-yellow/80 shadow-[0_0_15px_rgba(234,179,8,0.4)] hover:bg-brand-yellow',
+    pending: 'bg-brand-yellow/40 cursor-wait shadow-inner opacity-80',
+    cleaning: 'bg-cyan-800/80 shadow-inner hover:bg-cyan-700',
+    blocked: 'bg-gray-700/90 shadow-inner hover:bg-gray-600',
+    held: 'bg-amber-600/70 shadow-[0_0_15px_rgba(217,119,6,0.4)] hover:bg-amber-600'
+};
+
 const calculateBounds = (elements: LayoutElement[]) => {
     if (elements.length === 0) {
         return { minX: 0, minY: 0, maxX: 500, maxY: 500 };
@@ -41,9 +74,11 @@ const calculateBounds = (elements: LayoutElement[]) => {
     };
 };
 
-const CountdownTimer: React.FC<{ createdAt: Date, deadlineAt?: Date }> = ({ createdAt, deadlineAt }) => {
+const CountdownTimer: React.FC<{ booking: Booking, policy: CancellationPolicy }> = ({ booking, policy }) => {
     const { t } = useTranslation();
-    const target = useMemo(() => deadlineAt || new Date(createdAt.getTime() + 120 * 60 * 1000), [createdAt, deadlineAt]);
+    const { createdAt, deadlineAt } = booking;
+    const target = useMemo(() => confirmationDeadline(policy, booking), [policy, createdAt, deadlineAt, booking.dateTime]);
+    const windowSeconds = policy.confirmWithinMinutes * 60;
     const [timeLeft, setTimeLeft] = useState(0);
 
     useEffect(() => {
@@ -62,10 +97,10 @@ const CountdownTimer: React.FC<{ createdAt: Date, deadlineAt?: Date }> = ({ crea
 
     // "Заморожено" показываем только если:
     // 1. У нас есть deadlineAt и createdAt
-    // 2. Окно подтверждения значительно больше 120 минут (например, более 120 минут 5 сек)
-    // 3. Текущий остаток времени всё еще превышает 120 минут
+    // 2. Окно подтверждения значительно больше окна из политики ресторана (больше чем на 5 сек)
+    // 3. Текущий остаток времени всё еще превышает это окно
     const diffMs = deadlineAt && createdAt ? deadlineAt.getTime() - createdAt.getTime() : 0;
-    const isFrozen = deadlineAt && (diffMs > 7205000) && (timeLeft > 7200);
+    const isFrozen = deadlineAt && (diffMs > windowSeconds * 1000 + 5000) && (timeLeft > windowSeconds);
 
     if (isFrozen) {
         return <span className={`font-mono font-bold text-brand-blue`}>{t('admin.frozen')}</span>;
@@ -115,8 +150,66 @@ const DurationEditor: React.FC<{ booking: Booking }> = ({ booking }) => {
     );
 };
 
+// Walk-ins are seated without contact details; the host can add a phone once the guest shares it
+const GuestPhoneEditor: React.FC<{ booking: Booking }> = ({ booking }) => {
+    const { updateBookingDetails } = useData();
+    const { t } = useTranslation();
+    const [isEditing, setIsEditing] = useState(false);
+    const [val, setVal] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // The optimistic update fills in the phone at once, so the open editor has to outlive that
+    if (!isEditing) {
+        if (booking.guestPhone) return null;
+        return (
+            <button
+                onClick={() => setIsEditing(true)}
+                className="text-[10px] text-gray-500 hover:text-brand-blue"
+            >
+                + {t('walkIn.addPhone')}
+            </button>
+        );
+    }
+
+    const handleSave = async () => {
+        if (val.replace(/\D/g, '').length !== 11) {
+            setError(t('guestAuth.invalidPhone'));
+            return;
+        }
+        setError('');
+        setSaving(true);
+        // A rejected save is rolled back and reported by DataContext; stay open so the host can retry
+        const saved = await updateBookingDetails(booking.id, { guestPhone: val });
+        setSaving(false);
+        if (saved) setIsEditing(false);
+    };
+
+    return (
+        <div className="flex items-center gap-1">
+            <input
+                type="tel"
+                placeholder="+7 (___) ___-__-__"
+                value={val}
+                onChange={e => setVal(formatPhoneNumber(e.target.value))}
+                className={`w-32 bg-brand-primary border rounded text-[10px] px-1 text-white ${error ? 'border-brand-red' : 'border-gray-600'}`}
+                disabled={saving}
+                autoFocus
+            />
+            <button
+                onClick={handleSave}
+                disabled={saving}
+                className="text-brand-green text-[10px] font-bold disabled:opacity-50"
+            >
+                {saving ? '…' : t('admin.ok')}
+            </button>
+            {error && <span className="text-[10px] text-brand-red">{error}</span>}
+        </div>
+    );
+};
+
 const BookingRequestCard: React.FC<{ booking: Booking; restaurantId: string; tables: TableElement[] }> = ({ booking, restaurantId, tables }) => {
-    const { updateBookingStatus } = useData();
+    const { updateBookingStatus, getRestaurant } = useData();
     const { currentUser } = useApp();
     const { t } = useTranslation();
     const [reason, setReason] = useState('');
@@ -124,6 +217,18 @@ const BookingRequestCard: React.FC<{ booking: Booking; restaurantId: string; tab
     const [assignedTableIds, setAssignedTableIds] = useState<string[]>([]);
     const [customDuration, setCustomDuration] = useState<number>(booking.duration || 60);
     const needsTableAssignment = !booking.tableId && (!booking.tableIds || booking.tableIds.length === 0);
+    const restaurant = getRestaurant(restaurantId);
+
+    const suggestion = useMemo(() => {
+        if (!needsTableAssignment || !restaurant) return null;
+        return suggestTables(
+            availabilityInput(restaurant),
+            booking.guestCount,
+            new Date(booking.dateTime),
+            customDuration || defaultDuration(restaurant),
+            { ignoreBookingId: booking.id }
+        );
+    }, [needsTableAssignment, restaurant, booking, customDuration]);
 
     const toggleTable = (id: string) => {
         setAssignedTableIds(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
@@ -148,15 +253,11 @@ const BookingRequestCard: React.FC<{ booking: Booking; restaurantId: string; tab
             }
         }
 
-        try {
-            if (needsTableAssignment) {
-                const labels = assignedTableIds.map(id => tables.find(tbl => tbl.id === id)?.label || '');
-                await updateBookingStatus(booking.id, BookingStatus.CONFIRMED, undefined, undefined, undefined, customDuration, assignedTableIds, labels, assignedTo || undefined);
-            } else {
-                await updateBookingStatus(booking.id, BookingStatus.CONFIRMED, undefined, undefined, undefined, customDuration, undefined, undefined, assignedTo || undefined);
-            }
-        } catch (err: any) {
-            alert(err.message || t('admin.statusUpdateError'));
+        if (needsTableAssignment) {
+            const labels = assignedTableIds.map(id => tables.find(tbl => tbl.id === id)?.label || '');
+            await updateBookingStatus(booking.id, BookingStatus.CONFIRMED, undefined, undefined, undefined, customDuration, assignedTableIds, labels, assignedTo || undefined);
+        } else {
+            await updateBookingStatus(booking.id, BookingStatus.CONFIRMED, undefined, undefined, undefined, customDuration, undefined, undefined, assignedTo || undefined);
         }
     };
 
@@ -175,12 +276,16 @@ const BookingRequestCard: React.FC<{ booking: Booking; restaurantId: string; tab
                     {booking.tableLabels?.length ? t('admin.assignedTables', { labels: booking.tableLabels.join(', ') }) : booking.tableLabel ? t('admin.assignedTable', { label: booking.tableLabel }) : <span className="text-yellow-400">{t('admin.noTableAssigned')}</span>}
                 </h4>
                 <div className="text-sm font-semibold text-gray-200">
-                    {t('admin.timeLeft')} <CountdownTimer createdAt={booking.createdAt} deadlineAt={booking.deadlineAt} />
+                    {t('admin.timeLeft')} <CountdownTimer booking={booking} policy={getCancellationPolicy(restaurant)} />
                 </div>
             </div>
             <p className="text-sm font-medium text-gray-200">{booking.guestName} ({booking.guestCount} {t('admin.guestsText')})</p>
             <p className="text-sm font-bold text-brand-blue drop-shadow-sm">{booking.guestPhone}</p>
             <p className="text-xs font-medium text-brand-yellow mb-2">{new Date(booking.dateTime).toLocaleString('ru-RU')}</p>
+            <div className="mb-2 flex items-center gap-2 flex-wrap">
+                <DepositBadge booking={booking} />
+                <BookingTagIcons tags={booking.tags} className="text-base" />
+            </div>
             <p className="text-[11px] text-gray-400 mb-2">
                 {t('admin.createdAt')} {new Date(booking.createdAt).toLocaleString('ru-RU')}
             </p>
@@ -196,6 +301,7 @@ const BookingRequestCard: React.FC<{ booking: Booking; restaurantId: string; tab
             {needsTableAssignment && !isDeclining && (
                 <div className="mt-3">
                     <label className="text-xs text-brand-yellow block mb-2 font-bold">{t('admin.assignTablesLabel')}</label>
+                    <TableSuggestionChip suggestion={suggestion} tables={tables} selectedTableIds={assignedTableIds} onAccept={setAssignedTableIds} />
                     <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto p-1">
                         {tables.map(tbl => {
                             const isSelected = assignedTableIds.includes(tbl.id);
@@ -266,17 +372,28 @@ const BookingRequestCard: React.FC<{ booking: Booking; restaurantId: string; tab
 };
 
 const AdminView: React.FC = () => {
-    const { selectedRestaurantId } = useApp();
-    const { getRestaurant, updateBookingStatus } = useData();
+    const { currentUser, selectedRestaurantId } = useApp();
+    const { getRestaurant, updateBookingStatus, releaseTable, moveParty, loadEvents, loadTableStates } = useData();
     const { t } = useTranslation();
+    const { showToast } = useToast();
     const [selectedTable, setSelectedTable] = useState<TableElement | null>(null);
     const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+    const [newBookingStart, setNewBookingStart] = useState<Date | undefined>();
+    const [walkInTable, setWalkInTable] = useState<TableElement | null>(null);
+    const [stateTable, setStateTable] = useState<TableElement | null>(null);
+    const [historyBooking, setHistoryBooking] = useState<Booking | null>(null);
+    // Re-render every minute so "reserved soon", lateness and expiring manual states move on their own
+    const [, setMinuteTick] = useState(0);
 
     const [activeFloorId, setActiveFloorId] = useState<string>('');
-    const [activeView, setActiveView] = useState<'MAP' | 'GUESTS' | 'FUTURE' | 'SETTINGS'>('MAP');
+    const [activeView, setActiveView] = useState<'MAP' | 'GUESTS' | 'FUTURE' | 'EVENTS' | 'MENU' | 'SETTINGS'>('MAP');
+    const canEditMenu = hasPermission(currentUser?.role, 'menu.edit');
+    const canManageEvents = hasPermission(currentUser?.role, 'events.manage');
+    const canEditSettings = hasPermission(currentUser?.role, 'settings.edit');
     const [isInitialized, setIsInitialized] = useState(false);
 
     const restaurant = selectedRestaurantId ? getRestaurant(selectedRestaurantId) : null;
+    const cancellationPolicy = getCancellationPolicy(restaurant || undefined);
 
     useEffect(() => {
         if (restaurant && !isInitialized) {
@@ -288,6 +405,28 @@ const AdminView: React.FC = () => {
         }
     }, [restaurant, isInitialized]);
 
+    useEffect(() => {
+        if (selectedRestaurantId) loadEvents(selectedRestaurantId);
+    }, [selectedRestaurantId, loadEvents]);
+
+    useEffect(() => {
+        if (selectedRestaurantId) loadTableStates(selectedRestaurantId);
+    }, [selectedRestaurantId, loadTableStates]);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setMinuteTick(tick => tick + 1), 60000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    const handleReleaseTable = async (booking: Booking) => {
+        try {
+            await releaseTable(booking);
+        } catch (error) {
+            console.error('Failed to release table:', error);
+            showToast(describeApiError(error, t), 'error');
+        }
+    };
+
     const pushSubscribed = useRef(false);
     useEffect(() => {
         if (selectedRestaurantId && !pushSubscribed.current) {
@@ -331,7 +470,7 @@ const AdminView: React.FC = () => {
         return (restaurant.layout.filter(el => el.type === 'table') as TableElement[])
             .map(table => {
                 const booking = restaurant.bookings.find(b =>
-                    (b.tableId === table.id || b.tableIds?.includes(table.id)) &&
+                    bookingTableIds(b).includes(table.id) &&
                     b.status === BookingStatus.OCCUPIED
                 );
                 return booking ? { table, booking } : null;
@@ -346,6 +485,12 @@ const AdminView: React.FC = () => {
         );
     }, [restaurant, activeFloorId]);
 
+    // Tables a private event takes over later today, outlined on the map
+    const eventTableSet = useMemo(() => {
+        if (!restaurant) return new Set<string>();
+        return new Set(eventsLaterToday(restaurant.events).flatMap(e => eventTableIds(e, restaurant.layout)));
+    }, [restaurant]);
+
     const bounds = useMemo(() => calculateBounds(activeFloorElements), [activeFloorElements]);
     const dynamicWidth = bounds.maxX - bounds.minX;
     const dynamicHeight = bounds.maxY - bounds.minY;
@@ -517,13 +662,109 @@ const AdminView: React.FC = () => {
 
     // === КОНЕЦ ЛОГИКИ PAN & ZOOM ===
 
+    // Carrying a seated party from its table onto another one; the map doesn't pan meanwhile
+    const partyDragRef = useRef<{ pointerId: number; booking: Booking; fromTableId: string; startX: number; startY: number } | null>(null);
+    const [partyDrag, setPartyDrag] = useState<{ guestName: string; x: number; y: number; overTableId: string | null } | null>(null);
+
+    const tableIdAt = (x: number, y: number): string | null =>
+        (document.elementFromPoint(x, y)?.closest('[data-table-id]') as HTMLElement | null)?.dataset.tableId || null;
+
+    const onPartyPointerDown = (e: React.PointerEvent, booking: Booking, fromTableId: string) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        e.stopPropagation();
+        draggedRef.current = false;
+        partyDragRef.current = { pointerId: e.pointerId, booking, fromTableId, startX: e.clientX, startY: e.clientY };
+        try {
+            e.currentTarget.setPointerCapture(e.pointerId);
+        } catch (err) { }
+    };
+
+    const onPartyPointerMove = (e: React.PointerEvent) => {
+        const drag = partyDragRef.current;
+        if (!drag || drag.pointerId !== e.pointerId) return;
+        e.stopPropagation();
+        if (!draggedRef.current && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) <= 5) return;
+        draggedRef.current = true;
+        const rect = containerRef.current?.getBoundingClientRect();
+        const overTableId = tableIdAt(e.clientX, e.clientY);
+        setPartyDrag({
+            guestName: drag.booking.guestName,
+            x: e.clientX - (rect ? rect.left : 0),
+            y: e.clientY - (rect ? rect.top : 0),
+            overTableId: overTableId !== drag.fromTableId ? overTableId : null
+        });
+    };
+
+    const onPartyPointerUp = (e: React.PointerEvent) => {
+        const drag = partyDragRef.current;
+        if (!drag || drag.pointerId !== e.pointerId) return;
+        e.stopPropagation();
+        partyDragRef.current = null;
+        setPartyDrag(null);
+        try {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+        } catch (err) { }
+        if (!draggedRef.current || e.type === 'pointercancel') return;
+        const toTableId = tableIdAt(e.clientX, e.clientY);
+        if (toTableId) handlePartyDrop(drag.booking, drag.fromTableId, toTableId);
+    };
+
 
     if (!restaurant) {
         return <div className="text-center text-gray-400">{t('admin.loadingRestaurant')}</div>;
     }
 
+    const tableLabel = (tableId: string) => (restaurant.layout.find(el => el.type === 'table' && el.id === tableId) as TableElement | undefined)?.label || tableId;
+
+    // Dropping on a free table moves the party, dropping on an occupied one swaps the two
+    const handlePartyDrop = async (booking: Booking, fromTableId: string, toTableId: string) => {
+        if (bookingTableIds(booking).includes(toTableId)) return;
+        const target = getTableSnapshot(restaurant, toTableId);
+        if (target.override) {
+            showToast(t('partyMove.targetUnavailable', { table: tableLabel(toTableId), state: t(`tableStates.states.${target.override.state}`) }), 'error');
+            return;
+        }
+
+        const plan = planPartyMove(restaurant, booking, fromTableId, toTableId);
+        const warnings = [
+            ...plan.conflicts.map(b => t('partyMove.bookingConflict', {
+                table: bookingTableIds(b).map(tableLabel).join(', '),
+                time: formatTime(new Date(b.dateTime)),
+                name: b.guestName
+            })),
+            ...plan.events.map(e => t('partyMove.eventConflict', { name: e.name, time: formatEventRange(e) }))
+        ];
+        if (plan.swapWith || warnings.length > 0) {
+            const question = plan.swapWith
+                ? t('partyMove.confirmSwap', { from: tableLabel(fromTableId), to: tableLabel(toTableId) })
+                : t('partyMove.confirmMove', { name: booking.guestName, table: tableLabel(toTableId) });
+            if (!window.confirm([question, ...warnings].join('\n'))) return;
+        }
+
+        try {
+            await moveParty(booking.id, {
+                tableIds: plan.tableIds,
+                tableLabels: plan.tableLabels,
+                swapWith: plan.swapWith && {
+                    bookingId: plan.swapWith.booking.id,
+                    tableIds: plan.swapWith.tableIds,
+                    tableLabels: plan.swapWith.tableLabels
+                },
+                movedBy: currentUser?.managerName || 'Admin'
+            });
+            showToast(plan.swapWith
+                ? t('partyMove.swapped', { from: tableLabel(fromTableId), to: tableLabel(toTableId) })
+                : t('partyMove.moved', { name: booking.guestName, table: tableLabel(toTableId) }), 'success');
+        } catch (error) {
+            console.error('Failed to move party:', error);
+            showToast(describeApiError(error, t), 'error');
+        }
+    };
+
     return (
         <div className="space-y-6">
+            <OfflineStatusBar />
+
             {/* View Switcher Tabs */}
             <div className="flex border-b border-brand-accent/30 gap-6 mb-2 overflow-x-auto no-scrollbar">
                 <button
@@ -547,13 +788,33 @@ const AdminView: React.FC = () => {
                     {t('admin.guestsTab')}
                     {activeView === 'GUESTS' && <div className="absolute bottom-0 left-0 w-full h-1 bg-brand-blue rounded-t-full" />}
                 </button>
-                <button
-                    onClick={() => setActiveView('SETTINGS')}
-                    className={`pb-3 text-lg font-bold transition-all relative whitespace-nowrap ${activeView === 'SETTINGS' ? 'text-brand-blue' : 'text-gray-500 hover:text-gray-300'}`}
-                >
-                    {t('admin.settingsTab')}
-                    {activeView === 'SETTINGS' && <div className="absolute bottom-0 left-0 w-full h-1 bg-brand-blue rounded-t-full" />}
-                </button>
+                {canManageEvents && (
+                    <button
+                        onClick={() => setActiveView('EVENTS')}
+                        className={`pb-3 text-lg font-bold transition-all relative whitespace-nowrap ${activeView === 'EVENTS' ? 'text-brand-blue' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                        {t('events.tab')}
+                        {activeView === 'EVENTS' && <div className="absolute bottom-0 left-0 w-full h-1 bg-brand-blue rounded-t-full" />}
+                    </button>
+                )}
+                {canEditMenu && restaurant.menu && (
+                    <button
+                        onClick={() => setActiveView('MENU')}
+                        className={`pb-3 text-lg font-bold transition-all relative whitespace-nowrap ${activeView === 'MENU' ? 'text-brand-blue' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                        {t('admin.menuTab')}
+                        {activeView === 'MENU' && <div className="absolute bottom-0 left-0 w-full h-1 bg-brand-blue rounded-t-full" />}
+                    </button>
+                )}
+                {canEditSettings && (
+                    <button
+                        onClick={() => setActiveView('SETTINGS')}
+                        className={`pb-3 text-lg font-bold transition-all relative whitespace-nowrap ${activeView === 'SETTINGS' ? 'text-brand-blue' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                        {t('admin.settingsTab')}
+                        {activeView === 'SETTINGS' && <div className="absolute bottom-0 left-0 w-full h-1 bg-brand-blue rounded-t-full" />}
+                    </button>
+                )}
             </div>
 
             {activeView === 'MAP' ? (
@@ -575,6 +836,7 @@ const AdminView: React.FC = () => {
                                 <p className="text-gray-500 text-center py-8">{t('admin.noPendingRequests')}</p>
                             )}
                         </div>
+                        <WaitlistPanel restaurant={restaurant} />
                     </div>
 
                     {/* Column 2 & 3: Map and Lists */}
@@ -598,6 +860,7 @@ const AdminView: React.FC = () => {
                                         {todayFutureBookings.map(booking => {
                                             const timeStr = new Date(booking.dateTime).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
                                             const isPast = new Date(booking.dateTime) < new Date();
+                                            const noShow = isNoShow(cancellationPolicy, booking);
                                             return (
                                                 <div key={booking.id} className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border transition-all hover:bg-white/5 ${isPast ? 'bg-brand-red/10 border-brand-red/30' : 'bg-brand-primary border-brand-accent'} group`}>
                                                     <div className="flex-1 min-w-0">
@@ -605,6 +868,7 @@ const AdminView: React.FC = () => {
                                                             <span className="text-brand-blue font-bold font-mono text-lg">{timeStr}</span>
                                                             <span className="font-bold text-gray-200 group-hover:text-white transition-colors">{booking.guestName}</span>
                                                             <span className="text-xs text-gray-400 font-mono hidden sm:inline">{booking.guestPhone}</span>
+                                                            <BookingTagIcons tags={booking.tags} />
                                                             <button
                                                                 onClick={() => setEditingBooking(booking)}
                                                                 className="text-gray-500 hover:text-brand-blue transition-colors p-1 opacity-50 hover:opacity-100"
@@ -615,6 +879,15 @@ const AdminView: React.FC = () => {
                                                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path>
                                                                 </svg>
                                                             </button>
+                                                            <button
+                                                                onClick={() => setHistoryBooking(booking)}
+                                                                className="text-gray-500 hover:text-brand-blue transition-colors p-1 opacity-50 hover:opacity-100"
+                                                                title={t('bookingHistory.title')}
+                                                            >
+                                                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                                                                </svg>
+                                                            </button>
                                                         </div>
                                                         <div className="flex items-center gap-3 text-xs text-gray-400 mt-1">
                                                             <span className="flex items-center gap-1">
@@ -630,7 +903,7 @@ const AdminView: React.FC = () => {
                                                                 </span>
                                                             )}
                                                             {isPast && (
-                                                                <span className="text-brand-red font-bold uppercase tracking-wider animate-pulse">{t('admin.late')}</span>
+                                                                <span className="text-brand-red font-bold uppercase tracking-wider animate-pulse">{noShow ? t('cancellationPolicy.noShow') : t('admin.late')}</span>
                                                             )}
                                                             {booking.guestComment && <span className="italic truncate max-w-[150px] text-gray-500">"{booking.guestComment}"</span>}
                                                         </div>
@@ -676,12 +949,37 @@ const AdminView: React.FC = () => {
                                             return (
                                                 <div key={table.id} className="flex items-center justify-between gap-2 bg-brand-green/10 border border-brand-green/30 rounded-md p-2">
                                                     <div className="min-w-0">
-                                                        <p className="font-bold text-brand-green text-xs truncate">{t('admin.tableShort', { labels: table.label })} — {booking.guestName}</p>
+                                                        <p className="font-bold text-brand-green text-xs truncate">
+                                                            {t('admin.tableShort', { labels: table.label })} — {booking.guestName} <BookingTagIcons tags={booking.tags} />
+                                                            <button
+                                                                onClick={() => setHistoryBooking(booking)}
+                                                                className="ml-1 align-middle text-gray-500 hover:text-brand-blue transition-colors"
+                                                                title={t('bookingHistory.title')}
+                                                            >
+                                                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                                                                </svg>
+                                                            </button>
+                                                        </p>
                                                         <div className="flex items-center gap-2 mt-1">
                                                             <div className="text-[10px] font-bold text-brand-red border border-brand-red/30 px-1.5 py-0.5 rounded bg-brand-red/5">
                                                                 {timeLeft} {t('admin.min')}
                                                             </div>
                                                             <DurationEditor booking={booking} />
+                                                            <GuestPhoneEditor booking={booking} />
+                                                            {booking.tableMoves && booking.tableMoves.length > 0 && (
+                                                                <span
+                                                                    className="text-[10px] text-gray-400"
+                                                                    title={booking.tableMoves.map(m => t('partyMove.historyEntry', {
+                                                                        time: formatTime(m.movedAt),
+                                                                        from: m.fromTableLabels.join(', '),
+                                                                        to: m.toTableLabels.join(', '),
+                                                                        by: m.movedBy || '—'
+                                                                    })).join('\n')}
+                                                                >
+                                                                    ↪ {t('partyMove.movedFrom', { tables: booking.tableMoves[booking.tableMoves.length - 1].fromTableLabels.join(', ') })}
+                                                                </span>
+                                                            )}
                                                         </div>
                                                     </div>
                                                     <div className="flex items-center gap-1 shrink-0">
@@ -697,7 +995,7 @@ const AdminView: React.FC = () => {
                                                             {t('admin.extend', 'Продлить')}
                                                         </button>
                                                         <button
-                                                            onClick={() => updateBookingStatus(booking.id, BookingStatus.COMPLETED)}
+                                                            onClick={() => handleReleaseTable(booking)}
                                                             className="bg-brand-green text-white px-2 py-1 text-[10px] font-bold rounded hover:bg-green-700 transition-colors"
                                                         >
                                                             {t('admin.freeTable')}
@@ -814,29 +1112,16 @@ const AdminView: React.FC = () => {
                                         }
 
                                         const now = new Date();
-                                        const relevantBookings = restaurant.bookings.filter(b =>
-                                            (b.tableId === el.id || b.tableIds?.includes(el.id)) &&
-                                            [BookingStatus.CONFIRMED, BookingStatus.OCCUPIED].includes(b.status)
-                                        ).sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
-
-                                        const occupied = relevantBookings.find(b => b.status === BookingStatus.OCCUPIED);
-                                        const confirmed = relevantBookings.find(b => b.status === BookingStatus.CONFIRMED);
-
-                                        let statusColor = 'bg-[rgb(59,130,246)]/80 shadow-[0_0_15px_rgba(59,130,246,0.3)] hover:bg-[rgb(59,130,246)]'; // BLUE: Default
-
-                                        if (occupied) {
-                                            statusColor = 'bg-brand-green/80 shadow-[0_0_15px_rgba(74,222,128,0.3)] hover:bg-brand-green'; // GREEN: Occupied
-                                        } else if (confirmed) {
-                                            const startTime = new Date(confirmed.dateTime).getTime();
-                                            const timeDiff = startTime - now.getTime();
-
-                                            if (timeDiff < 0) {
-                                                statusColor = 'bg-brand-red/80 shadow-[0_0_15px_rgba(239,68,68,0.4)] hover:bg-brand-red'; // RED: Confirmed & Past
-                                            } else if (timeDiff <= 60 * 60000) {
-                                                statusColor = 'bg-brand-yellow/80 shadow-[0_0_15px_rgba(234,179,8,0.4)] hover:bg-brand-yellow'; // YELLOW: Confirmed & <= 1h
-                                            }
-                                        } else if (restaurant.bookings.some(b => (b.tableId === el.id || b.tableIds?.includes(el.id)) && b.status === BookingStatus.PENDING)) {
-                                            statusColor = 'bg-brand-yellow/40 cursor-wait shadow-inner opacity-80'; // Subtle yellow for pending
+                                        const snapshot = getTableSnapshot(restaurant, el.id, now);
+                                        const statusColor = TABLE_STATE_COLORS[snapshot.state];
+
+                                        let stateBadge = '';
+                                        if (snapshot.override) {
+                                            stateBadge = snapshot.override.until
+                                                ? `${TABLE_STATE_ICONS[snapshot.state]} ${minutesUntil(snapshot.override.until, now)} ${t('admin.min')}`
+                                                : TABLE_STATE_ICONS[snapshot.state] || '';
+                                        } else if (snapshot.state === 'reserved_soon' && snapshot.booking) {
+                                            stateBadge = t('tableStates.reservedIn', { minutes: minutesUntil(new Date(snapshot.booking.dateTime), now) });
                                         }
 
                                         const shapeClasses = el.shape === 'circle' ? 'rounded-full' : 'rounded-md';
@@ -852,20 +1137,51 @@ const AdminView: React.FC = () => {
                                                     height: `${(el as any).height}px`,
                                                     transform: `translate(-50%, -50%) rotate(${el.rotation || 0}deg)`
                                                 }}
-                                                className={`absolute flex items-center justify-center font-bold text-gray-200 transition-all duration-300 ${shapeClasses} ${statusColor} cursor-pointer hover:scale-[1.05]`}
+                                                data-table-id={el.id}
+                                                className={`absolute flex items-center justify-center font-bold text-gray-200 transition-all duration-300 ${shapeClasses} ${statusColor} ${eventTableSet.has(el.id) ? 'ring-4 ring-purple-400/80' : ''} ${partyDrag?.overTableId === el.id ? 'ring-4 ring-white scale-[1.1]' : ''} ${snapshot.state === 'occupied' ? 'cursor-grab' : 'cursor-pointer'} hover:scale-[1.05]`}
+                                                onPointerDown={(e) => {
+                                                    if (snapshot.state === 'occupied' && snapshot.booking) onPartyPointerDown(e, snapshot.booking, el.id);
+                                                }}
+                                                onPointerMove={onPartyPointerMove}
+                                                onPointerUp={onPartyPointerUp}
+                                                onPointerCancel={onPartyPointerUp}
                                                 onClick={(e) => {
                                                     e.stopPropagation();
                                                     if (draggedRef.current) return;
-                                                    setSelectedTable(el as TableElement);
+                                                    // A table nobody holds for the next sitting gets the one-tap walk-in dialog
+                                                    const isFreeNow = snapshot.state === 'free' && isTableFree(availabilityInput(restaurant), el.id, new Date(), defaultDuration(restaurant));
+                                                    if (snapshot.override) setStateTable(el as TableElement);
+                                                    else if (isFreeNow) setWalkInTable(el as TableElement);
+                                                    else setSelectedTable(el as TableElement);
                                                 }}
                                             >
                                                 <span style={{ fontSize: `${fontSize}px` }}>{el.label}</span>
+                                                <BookingTagIcons
+                                                    tags={snapshot.booking?.tags}
+                                                    className="absolute -top-3 left-1/2 -translate-x-1/2 text-xs bg-brand-primary/90 rounded-full px-1 py-0.5 shadow pointer-events-none"
+                                                />
+                                                {stateBadge && (
+                                                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 whitespace-nowrap text-[10px] font-bold text-gray-100 bg-brand-primary/90 rounded-full px-1.5 py-0.5 shadow pointer-events-none">
+                                                        {stateBadge}
+                                                    </span>
+                                                )}
                                             </div>
                                         );
                                     })}
                                 </div>
                             </div>
 
+                            <EventFloorOverlay restaurant={restaurant} floorId={activeFloorId} showDetails />
+
+                            {partyDrag && (
+                                <div
+                                    className="absolute z-20 pointer-events-none -translate-x-1/2 -translate-y-full px-3 py-1.5 rounded-lg bg-brand-green text-white text-xs font-bold shadow-lg whitespace-nowrap"
+                                    style={{ left: partyDrag.x, top: partyDrag.y - 12 }}
+                                >
+                                    {partyDrag.guestName}{partyDrag.overTableId && ` → ${tableLabel(partyDrag.overTableId)}`}
+                                </div>
+                            )}
+
                             {/* Zoom Controls Overlay */}
                             <div className="absolute bottom-4 right-4 flex flex-col gap-2 z-10" onPointerDown={e => e.stopPropagation()}>
                                 <button
@@ -895,7 +1211,13 @@ const AdminView: React.FC = () => {
                 <div className="animate-fadeIn h-[70vh]">
                     <GuestManager restaurantId={restaurant.id} />
                 </div>
-            ) : activeView === 'SETTINGS' ? (
+            ) : activeView === 'EVENTS' && canManageEvents ? (
+                <EventManager restaurant={restaurant} />
+            ) : activeView === 'MENU' && canEditMenu ? (
+                <div className="animate-fadeIn">
+                    <MenuView restaurantId={restaurant.id} />
+                </div>
+            ) : activeView === 'SETTINGS' && canEditSettings ? (
                 <div className="animate-fadeIn h-[70vh]">
                     <RestaurantSettings restaurant={restaurant} />
                 </div>
@@ -903,6 +1225,42 @@ const AdminView: React.FC = () => {
                 <FutureBookingsManager
                     restaurantId={restaurant.id}
                     onEditBooking={(b) => setEditingBooking(b)}
+                    onCreateBooking={(table, start) => {
+                        setNewBookingStart(start);
+                        setSelectedTable(table);
+                    }}
+                />
+            )}
+
+            {walkInTable && (
+                <WalkInSeatDialog
+                    table={walkInTable}
+                    restaurant={restaurant}
+                    onClose={() => setWalkInTable(null)}
+                    onOpenBooking={() => {
+                        setSelectedTable(walkInTable);
+                        setWalkInTable(null);
+                    }}
+                    onChangeState={() => {
+                        setStateTable(walkInTable);
+                        setWalkInTable(null);
+                    }}
+                />
+            )}
+
+            {historyBooking && (
+                <BookingHistoryModal bookingId={historyBooking.id} guestName={historyBooking.guestName} onClose={() => setHistoryBooking(null)} />
+            )}
+
+            {stateTable && (
+                <TableStateDialog
+                    table={stateTable}
+                    restaurant={restaurant}
+                    onClose={() => setStateTable(null)}
+                    onOpenBooking={() => {
+                        setSelectedTable(stateTable);
+                        setStateTable(null);
+                    }}
                 />
             )}
 
@@ -913,10 +1271,12 @@ const AdminView: React.FC = () => {
                     onClose={() => {
                         setSelectedTable(null);
                         setEditingBooking(null);
+                        setNewBookingStart(undefined);
                     }}
                     isAdmin={true}
                     withMap={restaurant.with_map}
                     bookingToEdit={editingBooking || undefined}
+                    initialStart={newBookingStart}
                 />
             )}
         </div>
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAnalyticsAuth } from '../context/AnalyticsAuthContext';
 import { useData } from '../context/DataContext';
-import { api } from '../services/api';
+import { api, isAbortError } from '../services/api';
 import { Booking } from '../types';
 import { calculateMetrics, AnalyticsMetrics } from '../utils/analyticsCalc';
 
@@ -18,13 +18,6 @@ const AnalyticsDashboardView: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
-  // Redirect if not logged in
-  useEffect(() => {
-    if (!analyticsUser) {
-      navigate('/analytics');
-    }
-  }, [analyticsUser, navigate]);
-
   // Load restaurants if not loaded
   useEffect(() => {
     if (restaurants.length === 0 && !dataLoading) {
@@ -90,6 +83,7 @@ const AnalyticsDashboardView: React.FC = () => {
   useEffect(() => {
     if (!analyticsUser?.restaurantId) return;
 
+    const controller = new AbortController();
     const fetchData = async () => {
       setLoading(true);
       setError('');
@@ -100,46 +94,22 @@ const AnalyticsDashboardView: React.FC = () => {
         const data = await api.restaurants.getBookingsRange(
           analyticsUser.restaurantId,
           fromStr,
-          toStr
+          toStr,
+          { signal: controller.signal, audience: 'analytics' }
         );
 
-        // Map database fields to camelCase Booking interface
-        const mappedBookings: Booking[] = data.map((b: any) => ({
-          id: b.id,
-          restaurantId: b.restaurant_id,
-          tableId: b.table_id,
-          tableLabel: b.table_label,
-          tableIds: b.tableIds || (b.table_id ? [b.table_id] : []),
-          tableLabels: b.tableLabels || (b.table_label ? [b.table_label] : []),
-          guestName: b.guest_name,
-          guestPhone: b.guest_phone,
-          guestEmail: b.guest_email,
-          guestCount: Number(b.guest_count),
-          status: b.status,
-          declineReason: b.decline_reason,
-          cancelReason: b.cancel_reason,
-          cancelComment: b.cancel_comment,
-          cancelledBy: b.cancelled_by,
-          cancelledAt: b.cancelled_at ? new Date(b.cancelled_at) : undefined,
-          guestComment: b.guest_comment,
-          duration: Number(b.duration || 120),
-          assignedTo: b.assigned_to,
-          dateTime: new Date(b.date_time),
-          deadlineAt: b.deadline_at ? new Date(b.deadline_at) : undefined,
-          createdAt: new Date(b.created_at),
-          updatedAt: b.updated_at ? new Date(b.updated_at) : undefined
-        }));
-
-        setBookings(mappedBookings);
+        setBookings(data);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         console.error(err);
         setError('Не удалось загрузить данные аналитики. Пожалуйста, попробуйте позже.');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchData();
+    return () => controller.abort();
   }, [analyticsUser, dateRange]);
 
   // Split bookings into current active and historical ones
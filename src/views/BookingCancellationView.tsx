@@ -1,19 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
-import { api } from '../services/api';
-import { BookingStatus, PublicCancelBookingInfo } from '../types';
-
-const REASONS = [
-  'Изменились планы',
-  'Не подошло время',
-  'Не понравились условия',
-  'Нашли другое место',
-  'Случайно забронировал',
-  'Другое'
-];
+import { api, isAbortError } from '../services/api';
+import { useTranslation } from '../context/I18nContext';
+import { describeApiError } from '../utils/apiErrors';
+import { BookingStatus, CancellationReason, PublicCancelBookingInfo } from '../types';
+import { formatMoney } from '../utils/deposit';
+import { DEFAULT_CANCELLATION_POLICY, reasonLabel } from '../utils/cancellationPolicy';
+import CancellationPolicySummary from '../components/CancellationPolicySummary';
+
+// Always offered last; the guest has to explain it in the comment
+const OTHER_REASON: CancellationReason = { ru: 'Другое', kz: 'Басқа' };
+
+const sameReason = (a: CancellationReason, b: CancellationReason) =>
+  a.ru.trim().toLowerCase() === b.ru.trim().toLowerCase();
 
 const BookingCancellationView: React.FC = () => {
   const { token } = useParams<{ token: string }>();
+  const { t, language } = useTranslation();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [bookingInfo, setBookingInfo] = useState<PublicCancelBookingInfo | null>(null);
@@ -23,21 +26,23 @@ const BookingCancellationView: React.FC = () => {
   const [success, setSuccess] = useState(false);
 
   useEffect(() => {
-    if (token) {
-      loadBookingInfo();
-    }
+    if (!token) return;
+    const controller = new AbortController();
+    loadBookingInfo(controller.signal);
+    return () => controller.abort();
   }, [token]);
 
-  const loadBookingInfo = async () => {
+  const loadBookingInfo = async (signal: AbortSignal) => {
     try {
       setLoading(true);
       setError(null);
-      const info = await api.public.getCancelInfo(token!);
+      const info = await api.public.getCancelInfo(token!, { signal });
       setBookingInfo(info);
     } catch (err: any) {
-      setError(err.message || 'Не удалось загрузить информацию о бронировании');
+      if (isAbortError(err)) return;
+      setError(describeApiError(err, t, 'Не удалось загрузить информацию о бронировании'));
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
@@ -113,6 +118,12 @@ const BookingCancellationView: React.FC = () => {
     );
   }
 
+  const policy = bookingInfo.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+  // The reason is stored in Russian whatever the page language, so staff and analytics see one wording
+  // A policy may list "Другое" itself (or a reason twice); each wording is offered once, "other" last
+  const reasons = [...policy.reasons.filter(r => !sameReason(r, OTHER_REASON)), OTHER_REASON]
+    .filter((reason, index, all) => all.findIndex(r => sameReason(r, reason)) === index);
+
   return (
     <div className="min-h-screen bg-brand-secondary flex items-center justify-center p-4">
       <div className="bg-brand-primary p-6 md:p-8 rounded-2xl border border-brand-accent max-w-lg w-full shadow-2xl animate-slideUp">
@@ -136,22 +147,35 @@ const BookingCancellationView: React.FC = () => {
           </div>
         </div>
 
+        <CancellationPolicySummary
+          policy={policy}
+          start={new Date(bookingInfo.dateTime)}
+          withDeposit={bookingInfo.depositStatus === 'paid'}
+          className="text-sm text-gray-400 space-y-1 mb-6"
+        />
+
+        {bookingInfo.depositAmount && bookingInfo.depositStatus === 'paid' ? (
+          <div className={`rounded-xl p-3 mb-6 text-sm border ${bookingInfo.depositRefundable ? 'border-brand-green/40 text-brand-green' : 'border-brand-yellow/40 text-brand-yellow'}`}>
+            {t(bookingInfo.depositRefundable ? 'deposit.cancelRefund' : 'deposit.cancelRetained', { amount: formatMoney(bookingInfo.depositAmount) })}
+          </div>
+        ) : null}
+
         <div className="space-y-4 mb-8">
           <p className="text-gray-300 font-medium mb-3">Пожалуйста, выберите причину отмены:</p>
           <div className="grid grid-cols-1 gap-2">
-            {REASONS.map((reason) => (
+            {reasons.map((option) => (
               <button
-                key={reason}
-                onClick={() => setSelectedReason(reason)}
-                className={`text-left px-4 py-3 rounded-xl border transition-all duration-200 ${selectedReason === reason
+                key={option.ru}
+                onClick={() => setSelectedReason(option.ru)}
+                className={`text-left px-4 py-3 rounded-xl border transition-all duration-200 ${selectedReason === option.ru
                   ? 'bg-brand-blue/20 border-brand-blue text-brand-blue ring-1 ring-brand-blue'
                   : 'bg-brand-secondary/50 border-brand-accent/50 text-gray-400 hover:border-gray-500'
                   }`}
               >
                 <div className="flex items-center justify-between">
-                  <span className="text-white">{reason}</span>
-                  <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center ${selectedReason === reason ? 'border-brand-blue' : 'border-gray-600'}`}>
-                    {selectedReason === reason && <div className="w-2.5 h-2.5 bg-brand-blue rounded-full"></div>}
+                  <span className="text-white">{reasonLabel(option, language)}</span>
+                  <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center ${selectedReason === option.ru ? 'border-brand-blue' : 'border-gray-600'}`}>
+                    {selectedReason === option.ru && <div className="w-2.5 h-2.5 bg-brand-blue rounded-full"></div>}
                   </div>
                 </div>
               </button>
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { api, isAbortError, PublicBookingChangePayload } from '../services/api';
+import { useData } from '../context/DataContext';
+import { useTranslation } from '../context/I18nContext';
+import { BookingStatus, PublicManageBookingInfo } from '../types';
+import { describeApiError } from '../utils/apiErrors';
+import { availabilityInput, defaultDuration, formatTime, getPartySlots, getTableSlots, getTables } from '../utils/availability';
+import { formatLocalDate } from '../utils/helpers';
+
+// Upper bound for a party when the booking has no table to measure against
+const MAX_PARTY_WITHOUT_TABLE = 20;
+
+const BookingManageView: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { t } = useTranslation();
+  const { getRestaurant, loadBookings } = useData();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<PublicManageBookingInfo | null>(null);
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [guestCount, setGuestCount] = useState(2);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [resultMessage, setResultMessage] = useState('');
+
+  const applyInfo = (next: PublicManageBookingInfo) => {
+    const start = new Date(next.dateTime);
+    setInfo(next);
+    setDate(formatLocalDate(start));
+    setTime(formatTime(start));
+    setGuestCount(next.guestCount);
+    setComment(next.guestComment || '');
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        applyInfo(await api.public.getManageInfo(token, { signal: controller.signal }));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(describeApiError(err, t, t('manageBooking.loadError')));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [token]);
+
+  const restaurant = info ? getRestaurant(info.restaurantId) : undefined;
+
+  // Same source as the booking modal: the venue's bookings for the chosen day
+  useEffect(() => {
+    if (info && date) loadBookings(info.restaurantId, date);
+  }, [info?.restaurantId, date, loadBookings]);
+
+  const capacity = useMemo(() => {
+    if (!info || !restaurant || info.tableIds.length === 0) return MAX_PARTY_WITHOUT_TABLE;
+    return getTables(restaurant)
+      .filter(table => info.tableIds.includes(table.id))
+      .reduce((sum, table) => sum + (table.seats || 2), 0) || MAX_PARTY_WITHOUT_TABLE;
+  }, [info, restaurant]);
+
+  const slots = useMemo(() => {
+    if (!info || !restaurant || !date) return [];
+    // The guest's own booking must not block the times it is moving between
+    const input = { ...availabilityInput(restaurant), bookings: restaurant.bookings.filter(b => b.id !== info.bookingId) };
+    const duration = info.duration || defaultDuration(restaurant);
+    const [year, month, day] = date.split('-').map(Number);
+    const selectedDay = new Date(year, month - 1, day);
+
+    if (info.tableIds.length === 0) {
+      return getPartySlots(input, guestCount, selectedDay, duration);
+    }
+    return info.tableIds
+      .map(tableId => getTableSlots(input, tableId, selectedDay, duration))
+      .reduce((common, tableSlots) => common.filter(slot => tableSlots.includes(slot)));
+  }, [info, restaurant, date, guestCount]);
+
+  useEffect(() => {
+    if (slots.length > 0 && !slots.includes(time)) setTime(slots[0]);
+  }, [slots, time]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !info || submitting) return;
+    setResultMessage('');
+
+    const [h, m] = time.split(':').map(Number);
+    const [year, month, day] = date.split('-').map(Number);
+    const dateTime = new Date(year, month - 1, day, h, m);
+
+    const payload: PublicBookingChangePayload = {};
+    if (dateTime.getTime() !== new Date(info.dateTime).getTime()) payload.dateTime = dateTime.toISOString();
+    if (guestCount !== info.guestCount) payload.guestCount = guestCount;
+    if (comment.trim() !== (info.guestComment || '')) payload.guestComment = comment.trim();
+
+    if (Object.keys(payload).length === 0) {
+      setResultMessage(t('manageBooking.nothingChanged'));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const updated = await api.public.updateBooking(token, payload);
+      applyInfo(updated);
+      setResultMessage(updated.status === BookingStatus.PENDING ? t('manageBooking.sentForApproval') : t('manageBooking.saved'));
+    } catch (err) {
+      alert(describeApiError(err, t, t('manageBooking.saveError')));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const dateChangedWithoutSlots = !!info && slots.length === 0 && date !== formatLocalDate(new Date(info.dateTime));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-brand-secondary flex items-center justify-center p-4">
+        <div className="text-white text-xl animate-pulse">{t('common.loading')}</div>
+      </div>
+    );
+  }
+
+  if (error || !info) {
+    return (
+      <div className="min-h-screen bg-brand-secondary flex items-center justify-center p-4">
+        <div className="bg-brand-primary p-8 rounded-2xl border border-brand-accent max-w-md w-full text-center shadow-2xl">
+          <div className="text-brand-red text-5xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold text-white mb-2">{t('common.error')}</h2>
+          <p className="text-gray-400 mb-6">{error || t('manageBooking.notFound')}</p>
+          <a href="/" className="inline-block bg-brand-blue text-white px-6 py-2 rounded-lg font-bold hover:bg-blue-600 transition-colors">
+            {t('forbidden.backHome')}
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full bg-brand-secondary border border-brand-accent rounded-xl p-3 text-white focus:outline-none focus:border-brand-blue transition-colors';
+
+  return (
+    <div className="min-h-screen bg-brand-secondary flex items-center justify-center p-4">
+      <div className="bg-brand-primary p-6 md:p-8 rounded-2xl border border-brand-accent max-w-lg w-full shadow-2xl animate-slideUp">
+        <h2 className="text-2xl font-bold text-white mb-6">{t('manageBooking.title')}</h2>
+
+        <div className="bg-brand-accent/30 rounded-xl p-4 mb-6 border border-brand-accent/50">
+          <h3 className="text-brand-blue font-bold text-lg mb-2">{info.restaurantName}</h3>
+          <div className="grid grid-cols-2 gap-y-2 text-sm">
+            <span className="text-gray-400">{t('manageBooking.guest')}</span>
+            <span className="text-white font-medium">{info.guestName}</span>
+            <span className="text-gray-400">{t('manageBooking.dateTime')}</span>
+            <span className="text-white font-medium">{new Date(info.dateTime).toLocaleString('ru-RU', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })}</span>
+            <span className="text-gray-400">{t('manageBooking.guests')}</span>
+            <span className="text-white font-medium">{info.guestCount}</span>
+            {info.tableLabels.length > 0 && (
+              <>
+                <span className="text-gray-400">{t('manageBooking.table')}</span>
+                <span className="text-white font-medium">{info.tableLabels.join(', ')}</span>
+              </>
+            )}
+            <span className="text-gray-400">{t('manageBooking.status')}</span>
+            <span className="text-white font-medium">{t(`manageBooking.statuses.${info.status}`)}</span>
+          </div>
+        </div>
+
+        {info.canModify ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs text-gray-400 block mb-1">{t('manageBooking.newDate')}</label>
+                <input type="date" value={date} min={formatLocalDate(new Date())} onChange={e => setDate(e.target.value)} className={inputClass} required />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400 block mb-1">{t('manageBooking.newTime')}</label>
+                <select value={time} onChange={e => setTime(e.target.value)} className={inputClass} disabled={slots.length === 0}>
+                  {slots.length > 0
+                    ? slots.map(slot => <option key={slot} value={slot}>{slot}</option>)
+                    : <option value="">{t('bookingModal.noAvailableSlots')}</option>}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">{t('manageBooking.partySize', { max: capacity })}</label>
+              <input
+                type="number"
+                min={1}
+                max={capacity}
+                value={guestCount}
+                onChange={e => setGuestCount(Math.min(capacity, Math.max(1, parseInt(e.target.value) || 1)))}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">{t('manageBooking.comment')}</label>
+              <textarea value={comment} onChange={e => setComment(e.target.value)} rows={3} className={`${inputClass} resize-none`} />
+            </div>
+
+            {info.requiresApproval && (
+              <p className="text-xs text-brand-yellow">{t('manageBooking.approvalNote')}</p>
+            )}
+            {resultMessage && <p className="text-sm text-brand-green font-medium">{resultMessage}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting || dateChangedWithoutSlots}
+              className={`w-full py-4 rounded-xl font-bold text-lg transition-all shadow-lg ${submitting || dateChangedWithoutSlots
+                ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                : 'bg-brand-blue text-white hover:bg-blue-600 active:scale-[0.98]'
+                }`}
+            >
+              {submitting ? t('common.loading') : t('manageBooking.save')}
+            </button>
+          </form>
+        ) : (
+          <p className="text-gray-400 text-sm">{t('manageBooking.cannotModify')}</p>
+        )}
+
+        <Link to={`/cancel-booking/${token}`} className="block text-center text-sm text-brand-red hover:underline mt-6">
+          {t('manageBooking.cancelLink')}
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default BookingManageView;
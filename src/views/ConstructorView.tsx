@@ -4,6 +4,8 @@ import { LayoutElement, TableElement, DecoElement, TextElement, Floor } from '..
 import { useApp } from '../context/AppContext';
 import { useTranslation } from '../context/I18nContext';
 import { MenuView } from '../components/MenuView';
+import TeamManager from '../components/TeamManager';
+import { hasPermission } from '../utils/permissions';
 
 // Константы логического размера холста (виртуальные единицы)
 const LOGICAL_WIDTH = 1500;
@@ -25,7 +27,7 @@ type DragState = {
 
 const ConstructorView: React.FC = () => {
     const { t } = useTranslation();
-    const { selectedRestaurantId } = useApp();
+    const { currentUser, selectedRestaurantId } = useApp();
     const { getRestaurant, updateRestaurantSettings } = useData();
     const restaurant = selectedRestaurantId ? getRestaurant(selectedRestaurantId) : null;
 
@@ -35,7 +37,9 @@ const ConstructorView: React.FC = () => {
     const [bookingRestriction, setBookingRestriction] = useState<number>(-1);
     const [ageRestriction, setAgeRestriction] = useState<string>('');
     const [isInitialized, setIsInitialized] = useState(false);
-    const [activeTab, setActiveTab] = useState<'layout' | 'menu'>('layout');
+    const [activeTab, setActiveTab] = useState<'layout' | 'menu' | 'team'>('layout');
+    const canEditMenu = hasPermission(currentUser?.role, 'menu.edit');
+    const canManageStaff = hasPermission(currentUser?.role, 'staff.manage');
 
     const [selectedElementIds, setSelectedElementIds] = useState<string[]>([]);
     const [selectionBox, setSelectionBox] = useState<{ x: number, y: number, width: number, height: number } | null>(null);
@@ -384,7 +388,7 @@ const ConstructorView: React.FC = () => {
 
     return (
         <div className="flex flex-col gap-4 h-[calc(100vh-85px)]">
-            {restaurant?.menu && (
+            {((restaurant?.menu && canEditMenu) || canManageStaff) && (
                 <div className="flex border-b border-brand-accent/20 pb-2">
                     <button
                         onClick={() => setActiveTab('layout')}
@@ -396,21 +400,37 @@ const ConstructorView: React.FC = () => {
                     >
                         Схема зала
                     </button>
-                    <button
-                        onClick={() => setActiveTab('menu')}
-                        className={`px-4 py-2 font-bold text-sm rounded-lg transition-all ml-2 ${
-                            activeTab === 'menu'
-                                ? 'bg-brand-blue text-white shadow-md'
-                                : 'bg-transparent text-gray-400 hover:text-white'
-                        }`}
-                    >
-                        Меню ресторана
-                    </button>
+                    {restaurant?.menu && canEditMenu && (
+                        <button
+                            onClick={() => setActiveTab('menu')}
+                            className={`px-4 py-2 font-bold text-sm rounded-lg transition-all ml-2 ${
+                                activeTab === 'menu'
+                                    ? 'bg-brand-blue text-white shadow-md'
+                                    : 'bg-transparent text-gray-400 hover:text-white'
+                            }`}
+                        >
+                            Меню ресторана
+                        </button>
+                    )}
+                    {canManageStaff && (
+                        <button
+                            onClick={() => setActiveTab('team')}
+                            className={`px-4 py-2 font-bold text-sm rounded-lg transition-all ml-2 ${
+                                activeTab === 'team'
+                                    ? 'bg-brand-blue text-white shadow-md'
+                                    : 'bg-transparent text-gray-400 hover:text-white'
+                            }`}
+                        >
+                            {t('team.tab')}
+                        </button>
+                    )}
                 </div>
             )}
 
-            {activeTab === 'menu' && selectedRestaurantId ? (
+            {activeTab === 'menu' && canEditMenu && selectedRestaurantId ? (
                 <MenuView restaurantId={selectedRestaurantId} />
+            ) : activeTab === 'team' && canManageStaff ? (
+                <TeamManager />
             ) : (
                 <div className="flex flex-col lg:flex-row gap-4 flex-grow overflow-hidden">
                     {/* --- ЛЕВАЯ ПАНЕЛЬ (Инструменты) --- */}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from '../context/I18nContext';
+
+const ForbiddenView: React.FC = () => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+
+    return (
+        <div className="min-h-screen bg-brand-secondary flex items-center justify-center p-4">
+            <div className="bg-brand-accent p-8 rounded-lg shadow-lg max-w-md w-full text-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto mb-4 text-[#E07A5F]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+                <h1 className="text-2xl font-bold text-white mb-2">{t('forbidden.title')}</h1>
+                <p className="mb-6" style={{ color: '#f5efe6' }}>{t('forbidden.message')}</p>
+                <button
+                    onClick={() => navigate('/', { replace: true })}
+                    className="w-full py-2 font-semibold rounded-md bg-brand-blue text-white hover:opacity-90 transition-opacity"
+                >
+                    {t('forbidden.backHome')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ForbiddenView;
@@ -67,7 +67,7 @@ const LoginView: React.FC = () => {
     }
   };
 
-  const roleLabels: Record<Exclude<UserRole, 'GUEST'>, string> = {
+  const roleLabels: Record<'ADMIN' | 'OWNER', string> = {
     ADMIN: t('login.roleAdmin'),
     OWNER: t('login.roleOwner')
   };
@@ -92,7 +92,7 @@ const LoginView: React.FC = () => {
         <p className="text-center mb-6" style={{ color: '#f5efe6' }}>{t('login.chooseRole')}</p>
 
         <div className="flex gap-2 mb-6 rounded-md bg-brand-primary p-1">
-          {(['ADMIN', 'OWNER'] as Exclude<UserRole, 'GUEST'>[]).map(role => (
+          {(['ADMIN', 'OWNER'] as const).map(role => (
             <button
               key={role}
               onClick={() => setLoginType(role)}
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../context/I18nContext';
+import { api, isAbortError } from '../services/api';
+import { BookingStatus, GuestBooking, RebookState } from '../types';
+import { describeApiError } from '../utils/apiErrors';
+import Header from '../components/Header';
+import GuestSignInForm from '../components/GuestSignInForm';
+import DepositBadge from '../components/DepositBadge';
+
+const STATUS_CLASSES: Record<BookingStatus, string> = {
+    [BookingStatus.PENDING]: 'bg-brand-yellow/20 text-brand-yellow',
+    [BookingStatus.CONFIRMED]: 'bg-brand-green/20 text-brand-green',
+    [BookingStatus.OCCUPIED]: 'bg-brand-blue/20 text-brand-blue',
+    [BookingStatus.COMPLETED]: 'bg-gray-600/40 text-gray-300',
+    [BookingStatus.DECLINED]: 'bg-brand-red/20 text-brand-red',
+    [BookingStatus.CANCELLED]: 'bg-brand-red/20 text-brand-red'
+};
+
+const BookingRow: React.FC<{ booking: GuestBooking; onRebook: () => void }> = ({ booking, onRebook }) => {
+    const { t } = useTranslation();
+    const isUpcoming = booking.dateTime.getTime() > Date.now();
+    const canManage = isUpcoming && !!booking.manageToken &&
+        (booking.status === BookingStatus.PENDING || booking.status === BookingStatus.CONFIRMED);
+
+    return (
+        <div className="bg-brand-primary p-4 rounded-xl border border-brand-accent flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="min-w-0">
+                <p className="font-bold text-white truncate">{booking.restaurantName}</p>
+                <p className="text-sm text-gray-400">
+                    {booking.dateTime.toLocaleString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    {' · '}{booking.guestCount} {t('admin.guestsText')}
+                    {booking.tableLabels && booking.tableLabels.length > 0 && ` · ${booking.tableLabels.join(', ')}`}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                    <span className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_CLASSES[booking.status]}`}>
+                        {t(`manageBooking.statuses.${booking.status}`)}
+                    </span>
+                    <DepositBadge booking={booking} />
+                </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+                {canManage && (
+                    <Link to={`/my-booking/${booking.manageToken}`} className="px-3 py-2 rounded-md text-sm font-semibold border border-brand-accent text-gray-200 hover:border-brand-blue hover:text-brand-blue transition-colors">
+                        {t('myBookings.manage')}
+                    </Link>
+                )}
+                <button onClick={onRebook} className="px-3 py-2 rounded-md text-sm font-semibold bg-brand-blue text-white hover:bg-blue-600 transition-colors">
+                    {t('myBookings.rebook')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const MyBookingsView: React.FC = () => {
+    const { currentUser, isRestoringSession } = useApp();
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const [bookings, setBookings] = useState<GuestBooking[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const guestPhone = currentUser?.role === 'GUEST' ? currentUser.phone : undefined;
+
+    useEffect(() => {
+        if (!guestPhone) return;
+        const controller = new AbortController();
+        setLoading(true);
+        setError('');
+        (async () => {
+            try {
+                const list = await api.account.bookings({ signal: controller.signal });
+                setBookings(list.sort((a, b) => b.dateTime.getTime() - a.dateTime.getTime()));
+            } catch (err) {
+                if (isAbortError(err)) return;
+                console.error('Failed to load guest bookings:', err);
+                setError(describeApiError(err, t, t('myBookings.loadError')));
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        })();
+        return () => controller.abort();
+    }, [guestPhone]);
+
+    const handleRebook = (booking: GuestBooking) => {
+        const state: RebookState = { rebook: { tableId: booking.tableId, guestCount: booking.guestCount } };
+        navigate(`/restaurant/${booking.restaurantId}`, { state });
+    };
+
+    const now = Date.now();
+    const upcoming = bookings.filter(b => b.dateTime.getTime() > now).reverse();
+    const past = bookings.filter(b => b.dateTime.getTime() <= now);
+
+    return (
+        <div className="min-h-screen bg-brand-secondary">
+            <Header />
+            <main className="max-w-3xl mx-auto p-4 md:p-8">
+                <h1 className="text-2xl md:text-3xl font-bold text-white mb-6">{t('myBookings.title')}</h1>
+
+                {isRestoringSession ? (
+                    <div className="text-white text-center animate-pulse">{t('common.loading')}</div>
+                ) : !guestPhone ? (
+                    <div className="bg-brand-primary p-6 rounded-2xl border border-brand-accent max-w-md">
+                        <GuestSignInForm onSignedIn={() => undefined} />
+                    </div>
+                ) : loading ? (
+                    <div className="text-white text-center animate-pulse">{t('common.loading')}</div>
+                ) : error ? (
+                    <p className="text-brand-red text-center">{error}</p>
+                ) : bookings.length === 0 ? (
+                    <p className="text-gray-400 text-center py-8">{t('myBookings.empty')}</p>
+                ) : (
+                    <div className="space-y-8">
+                        {upcoming.length > 0 && (
+                            <section>
+                                <h2 className="text-lg font-bold text-brand-primary mb-3">{t('myBookings.upcoming')}</h2>
+                                <div className="space-y-3">
+                                    {upcoming.map(b => <BookingRow key={b.id} booking={b} onRebook={() => handleRebook(b)} />)}
+                                </div>
+                            </section>
+                        )}
+                        {past.length > 0 && (
+                            <section>
+                                <h2 className="text-lg font-bold text-brand-primary mb-3">{t('myBookings.past')}</h2>
+                                <div className="space-y-3">
+                                    {past.map(b => <BookingRow key={b.id} booking={b} onRebook={() => handleRebook(b)} />)}
+                                </div>
+                            </section>
+                        )}
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+};
+
+export default MyBookingsView;
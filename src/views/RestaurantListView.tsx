@@ -1,62 +1,26 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
 import { useData } from '../context/DataContext';
-import { Restaurant } from '../types';
+import { Restaurant, RestaurantAvailability } from '../types';
 import { useTranslation } from '../context/I18nContext';
 import Header from '../components/Header';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import { availabilityInput, countFreeTablesNow } from '../utils/availability';
+import WaitlistJoinForm from '../components/WaitlistJoinForm';
+import { formatLocalDate } from '../utils/helpers';
 
-const RestaurantCard: React.FC<{ restaurant: Restaurant; onSelect: () => void }> = ({ restaurant, onSelect }) => {
-    const { t } = useTranslation();
-    const totalTables = (restaurant.layout || []).filter(l => l.type === 'table').length;
-
-    // Calculate availability logic
-    const now = new Date();
-    const effectiveRestriction = restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60;
-
-    const activeBookings = (restaurant.bookings || []).filter(b => {
-        const bDuration = b.duration || effectiveRestriction;
-        return (b.status === 'CONFIRMED' || b.status === 'OCCUPIED') &&
-            b.dateTime <= now &&
-            new Date(new Date(b.dateTime).getTime() + bDuration * 60000) > now;
-    });
-    // AdminView uses strict overlap logic often, but for "Free tables now", let's assume a standard duration or if the backend provided "occupied" status.
-    // Actually, without duration in Booking, it's hard to know exactly when it frees up.
-    // But for simplicity and consistency with admin view "Occupied" check:
-    // AdminView checks: b.dateTime <= now (and implicitly not finished/marked completed).
-    // Let's assume bookings within last 2 hours are "active" if not completed?
-    // Or simpler: just count bookings that are currently marked status OCCUPIED?
-    // AdminView marks them occupied manually? No, it filters by status.
-    // Let's use a simple heuristic: Count 'OCCUPIED' status OR 'CONFIRMED' within last 1.5 hours.
-    ;
-
-    // Actually, AdminView logic for "Occupied tables" was:
-    // b.status === CONFIRMED || OCCUPIED, and b.dateTime <= now.
-    // It picks the *latest* one.
-    // Let's stick to a simpler "Open Tables" estimate if possible.
-    // Better: Just show "Book a table" generic if we can't be precise.
-    // User asked: "есть ли свободные столики на текущее время".
-    // I will count tables that do NOT have an active booking.
-    // A table is "busy" if there is a booking (CONFIRMED/OCCUPIED) with dateTime within [now - 90m, now + ?].
-    // Let's assume standard 1.5h duration for availability check.
-
-    const busyTableIds = new Set();
-    (restaurant.bookings || []).forEach(b => {
-        const bDuration = b.duration || effectiveRestriction;
-        const bStart = new Date(b.dateTime).getTime();
-        const bEnd = bStart + bDuration * 60000;
-        if ((b.status === 'CONFIRMED' || b.status === 'OCCUPIED') &&
-            bStart <= now.getTime() &&
-            bEnd > now.getTime()
-        ) {
-            if (b.tableId) busyTableIds.add(b.tableId);
-            if (b.tableIds) b.tableIds.forEach((id: string) => busyTableIds.add(id));
-        }
-    });
+const AVAILABILITY_REFRESH_MS = 30000;
 
-    const freeTables = totalTables - busyTableIds.size;
-    const isFull = freeTables <= 0;
+const RestaurantCard: React.FC<{ restaurant: Restaurant; availability?: RestaurantAvailability; onSelect: () => void }> = ({ restaurant, availability, onSelect }) => {
+    const { t } = useTranslation();
+    // Staff venues already have today's bookings loaded; use them when the summary hasn't arrived
+    const freeTables = availability
+        ? availability.freeTables
+        : restaurant.bookings.length > 0 ? countFreeTablesNow(availabilityInput(restaurant)) : undefined;
+    const isFull = freeTables !== undefined && freeTables <= 0;
+    const [showWaitlist, setShowWaitlist] = useState(false);
 
     return (
         <div
@@ -76,14 +40,38 @@ const RestaurantCard: React.FC<{ restaurant: Restaurant; onSelect: () => void }>
                 </div>
             </div>
             <div className="p-4 flex justify-between items-center bg-brand-primary">
-                <div className="flex items-center gap-2">
-                    <span className={`w-3 h-3 rounded-full ${isFull ? 'bg-red-500' : 'bg-green-500'} animate-pulse`} />
-                    <span className={`text-sm font-medium ${isFull ? 'text-red-400' : 'text-green-400'}`}>
-                        {isFull ? t('restaurantList.allTablesOccupied') : t('restaurantList.freeTables', { count: freeTables })}
-                    </span>
-                </div>
-                <button className="text-brand-blue text-sm font-semibold group-hover:underline" dangerouslySetInnerHTML={{ __html: t('restaurantList.details') }}></button>
+                {freeTables !== undefined ? (
+                    <div className="flex items-center gap-2">
+                        <span className={`w-3 h-3 rounded-full ${isFull ? 'bg-red-500' : 'bg-green-500'} animate-pulse`} />
+                        <span className={`text-sm font-medium ${isFull ? 'text-red-400' : 'text-green-400'}`}>
+                            {isFull ? t('restaurantList.allTablesOccupied') : t('restaurantList.freeTables', { count: freeTables })}
+                        </span>
+                    </div>
+                ) : <div />}
+                {isFull ? (
+                    <button
+                        onClick={e => { e.stopPropagation(); setShowWaitlist(true); }}
+                        className="text-brand-blue text-sm font-semibold hover:underline"
+                    >
+                        {t('waitlist.joinShort')}
+                    </button>
+                ) : (
+                    <button className="text-brand-blue text-sm font-semibold group-hover:underline" dangerouslySetInnerHTML={{ __html: t('restaurantList.details') }}></button>
+                )}
             </div>
+            {showWaitlist && (
+                <div onClick={e => e.stopPropagation()} className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-2 sm:p-4 cursor-default">
+                    <div className="bg-brand-secondary rounded-lg shadow-2xl p-6 w-full max-w-lg m-auto max-h-[90vh] overflow-y-auto">
+                        <h2 className="text-xl md:text-2xl font-bold text-brand-primary mb-1">{t('waitlist.title')}</h2>
+                        <p className="text-gray-400 text-sm mb-4">{restaurant.name}</p>
+                        <WaitlistJoinForm
+                            restaurantId={restaurant.id}
+                            initialDate={formatLocalDate(new Date())}
+                            onClose={() => setShowWaitlist(false)}
+                        />
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -137,9 +125,18 @@ const AddRestaurantCard: React.FC<{ onAdd: (name: string) => void }> = ({ onAdd
 const RestaurantListView: React.FC = () => {
     const { t } = useTranslation();
     const { currentUser, addRestaurantToCurrentUser } = useApp();
-    const { restaurants, addRestaurant, isLoading } = useData();
+    const { restaurants, availability, addRestaurant, isLoading, loadError, loadRestaurants, loadAvailability } = useData();
     const navigate = useNavigate();
 
+    // The cards only need free-table counts, so poll the summary instead of every venue's bookings
+    useEffect(() => {
+        loadAvailability();
+        const interval = setInterval(() => {
+            if (navigator.onLine) loadAvailability();
+        }, AVAILABILITY_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [loadAvailability]);
+
     const handleAddRestaurant = async (name: string) => {
         const newRestaurant = await addRestaurant(name);
         if (newRestaurant) {
@@ -174,9 +171,13 @@ const RestaurantListView: React.FC = () => {
                         {isGuestMode ? t('restaurantList.selectRestaurantGuestDesc') : t('restaurantList.selectRestaurantAdminDesc')}
                     </p>
 
+                    {loadError && restaurants.length === 0 && (
+                        <ApiErrorNotice error={loadError} onRetry={loadRestaurants} />
+                    )}
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                         {managedRestaurants.map(r => (
-                            <RestaurantCard key={r.id} restaurant={r} onSelect={() => navigate(`/restaurant/${r.id}`)} />
+                            <RestaurantCard key={r.id} restaurant={r} availability={availability[r.id]} onSelect={() => navigate(`/restaurant/${r.id}`)} />
                         ))}
                         {currentUser?.role === 'OWNER' && <AddRestaurantCard onAdd={handleAddRestaurant} />}
                     </div>
@@ -1,10 +1,13 @@
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useData } from '../context/DataContext';
-import { LayoutElement, TableElement, BookingStatus, DecoElement, TextElement } from '../types';
+import { LayoutElement, TableElement, BookingStatus, DecoElement, TextElement, RebookState } from '../types';
 import BookingModal from '../components/BookingModal';
 import GuestMenuModal from '../components/GuestMenuModal';
 import { useApp } from '../context/AppContext';
 import { useTranslation } from '../context/I18nContext';
+import { availabilityInput, getTableStatuses } from '../utils/availability';
+import EventFloorOverlay from '../components/EventFloorOverlay';
 
 const FormattedMessage: React.FC<{ text: string }> = ({ text }) => {
     const actualLines = text.split(/\r?\n|\\n/);
@@ -173,10 +176,13 @@ const Deco: React.FC<{
 
 const UserView: React.FC = () => {
     const { selectedRestaurantId } = useApp();
-    const { getRestaurant } = useData();
+    const { getRestaurant, loadEvents, loadTableStates } = useData();
     const [selectedTable, setSelectedTable] = useState<TableElement | null>(null);
     const [showNoMapModal, setShowNoMapModal] = useState(false);
     const [showMenuModal, setShowMenuModal] = useState(false);
+    const [rebookGuestCount, setRebookGuestCount] = useState<number | undefined>();
+    const location = useLocation();
+    const navigate = useNavigate();
 
     const { t, language } = useTranslation();
     const [activeFloorId, setActiveFloorId] = useState<string>('');
@@ -195,39 +201,29 @@ const UserView: React.FC = () => {
         }
     }, [restaurant, isInitialized]);
 
-    const tableStatuses = useMemo(() => {
-        if (!restaurant) return {};
-        const statuses: { [key: string]: string } = {};
-        const nowTime = Date.now();
-        const effectiveRestriction = restaurant?.bookingRestriction && restaurant.bookingRestriction !== -1 ? restaurant.bookingRestriction : 60;
-        const tables = restaurant.layout.filter(el => el.type === 'table') as TableElement[];
-
-        tables.forEach(table => {
-            const activePending = restaurant.bookings.find(b => {
-                if (b.tableId !== table.id && (!b.tableIds || !b.tableIds.includes(table.id))) return false;
-                if (b.status !== BookingStatus.PENDING) return false;
-                const bDuration = b.duration || effectiveRestriction;
-                const bookingStart = new Date(b.dateTime).getTime();
-                const bookingEnd = bookingStart + bDuration * 60000;
-                return nowTime >= bookingStart && nowTime < bookingEnd;
-            });
-
-            const activeConfirmed = restaurant.bookings.find(b => {
-                if (b.tableId !== table.id && (!b.tableIds || !b.tableIds.includes(table.id))) return false;
-                if (b.status !== BookingStatus.CONFIRMED && b.status !== BookingStatus.OCCUPIED) return false;
-                const bDuration = b.duration || effectiveRestriction;
-                const bookingStart = new Date(b.dateTime).getTime();
-                const bookingEnd = bookingStart + bDuration * 60000;
-                return nowTime >= bookingStart && nowTime < bookingEnd;
-            });
+    useEffect(() => {
+        if (selectedRestaurantId) loadEvents(selectedRestaurantId);
+    }, [selectedRestaurantId, loadEvents]);
 
-            if (activePending) statuses[table.id] = 'pending';
-            else if (activeConfirmed) statuses[table.id] = 'confirmed';
-            else statuses[table.id] = 'available';
-        });
+    useEffect(() => {
+        if (selectedRestaurantId) loadTableStates(selectedRestaurantId);
+    }, [selectedRestaurantId, loadTableStates]);
 
-        return statuses;
-    }, [restaurant]);
+    // Rebook from "My bookings": reopen the form on the same table (if it still exists) with the same party
+    useEffect(() => {
+        const rebook = (location.state as RebookState | null)?.rebook;
+        if (!rebook || !restaurant) return;
+        const previousTable = restaurant.layout.find(el => el.type === 'table' && el.id === rebook.tableId) as TableElement | undefined;
+        setRebookGuestCount(rebook.guestCount);
+        if (withMap && previousTable) setSelectedTable(previousTable);
+        else setShowNoMapModal(true);
+        navigate(location.pathname, { replace: true, state: null });
+    }, [location.state, restaurant, withMap]);
+
+    const tableStatuses = useMemo(
+        () => restaurant ? getTableStatuses(availabilityInput(restaurant)) : {},
+        [restaurant]
+    );
 
     const activeFloorElements = useMemo(() => {
         if (!restaurant) return [];
@@ -569,6 +565,8 @@ const UserView: React.FC = () => {
                             </div>
                         </div>
 
+                        <EventFloorOverlay restaurant={restaurant} floorId={activeFloorId} />
+
                         {/* Zoom Controls Overlay */}
                         <div className="absolute bottom-6 right-6 flex flex-col gap-3 z-10" onPointerDown={e => e.stopPropagation()}>
                             <button
@@ -621,8 +619,9 @@ const UserView: React.FC = () => {
                 <BookingModal
                     table={null}
                     restaurantId={selectedRestaurantId}
-                    onClose={() => setShowNoMapModal(false)}
+                    onClose={() => { setShowNoMapModal(false); setRebookGuestCount(undefined); }}
                     withMap={false}
+                    initialGuestCount={rebookGuestCount}
                 />
             )}
 
@@ -630,7 +629,8 @@ const UserView: React.FC = () => {
                 <BookingModal
                     table={selectedTable}
                     restaurantId={selectedRestaurantId}
-                    onClose={() => setSelectedTable(null)}
+                    onClose={() => { setSelectedTable(null); setRebookGuestCount(undefined); }}
+                    initialGuestCount={rebookGuestCount}
                 />
             )}
 